@@ -23,17 +23,14 @@ declare namespace NodeJS {
 
 // Used in Renderer process, expose in `preload.ts`
 interface Window {
-  ipcRenderer: import("electron").IpcRenderer;
+  ipc: IpcBridge;
   config: {
     OS: NodeJS.Platform;
     ARCH: NodeJS.Architecture;
     getDefaultGameDirectory: () => Promise<string>;
-    openFolder: (
-      folderPath: string,
-    ) => Promise<{ ok: boolean; error: string | null }>;
-    openExternal: (
-      url: string,
-    ) => Promise<{ ok: boolean; error: string | null }>;
+    openFolder: (folderPath: string) => Promise<IpcResult>;
+    openExternal: (url: string) => Promise<IpcResult>;
+    getPathForFile: (file: File) => string;
     VERSION: string;
     BUILD_DATE: string;
   };
@@ -0,0 +1,415 @@
+// Every IPC channel between main, preload and renderer, with its arguments and payloads.
+// New channels go here first: `handle`/`on` in main, the preload allowlist and `window.ipc`
+// all key off these maps, so a typo or a changed payload fails to compile.
+
+type IpcResult = { ok: boolean; error: string | null };
+
+type OnlinePatchState = {
+  supported: boolean;
+  available: boolean;
+  enabled: boolean;
+  downloaded: boolean;
+};
+
+type OnlinePatchHealth = {
+  supported: boolean;
+  available: boolean;
+  enabled: boolean;
+  clientIsPatched: boolean;
+  needsFixClient: boolean;
+  patchOutdated: boolean;
+};
+
+// Paths of the installed components; missing ones are left out.
+type GameInstallationCheck = {
+  client?: string;
+  server?: string;
+  jre?: string;
+};
+
+type InstalledBuildInfo = {
+  type: VersionType;
+  build_index: number;
+  build_name?: string;
+  isLatest?: boolean;
+  libraryId?: string;
+};
+
+// A folder holding builds in the game/release, game/pre-release, game/latest layout.
+type GameLibrary = {
+  id: string;
+  name: string;
+  path: string;
+  isPrimary: boolean;
+  // False when the folder is gone, e.g. on a drive that isn't plugged in.
+  available: boolean;
+};
+
+type LocalFileKind = "pwr" | "jre" | "butler";
+
+// A file picked for an offline install; PWR picks carry what the file name reveals.
+type PickedLocalFile = {
+  path: string;
+  type?: VersionType;
+  build_index?: number;
+};
+
+type BundleExportOptions = { includeJre: boolean; includeUserData: boolean };
+
+type LaunchExitInfo = { code: number | null; signal: string | null };
+
+type InstanceLaunchOptions = {
+  // Overrides the custom UUID from Settings; null keeps that one.
+  customUUID: string | null;
+  // Appended to the client command line.
+  extraArgs: string[];
+};
+
+// A named setup: one build plus its own UserData (saves, settings, mods) and launch options.
+type GameInstance = {
+  id: string;
+  name: string;
+  build: Pick<GameVersion, "type" | "build_index" | "build_name">;
+  launchOptions: InstanceLaunchOptions;
+  createdAt: number;
+  lastPlayedAt?: number;
+  userDir: string;
+};
+
+type GameInstanceInput = Pick<GameInstance, "name" | "build" | "launchOptions">;
+
+// A UserData folder: the shared one, an instance's, or a snapshot taken by a migration.
+type UserDataLocation = {
+  id: string;
+  name: string;
+  path: string;
+  kind: "shared" | "instance" | "snapshot";
+};
+
+type UserDataEntryKind = "worlds" | "mods" | "config" | "other";
+
+// A top-level file or folder inside a UserData folder.
+type UserDataEntry = {
+  name: string;
+  kind: UserDataEntryKind;
+  isDirectory: boolean;
+  bytes: number;
+};
+
+type UserDataMigrationRequest = {
+  sourceId: string;
+  // null copies into a new timestamped snapshot instead.
+  targetId: string | null;
+  // Top-level entry names of the source.
+  entries: string[];
+};
+
+// A mod archive in a UserData folder's Mods (enabled) or DisabledMods folder.
+type InstalledMod = {
+  fileName: string;
+  enabled: boolean;
+  bytes: number;
+  // From the manifest.json inside the archive, when it has one.
+  name?: string;
+  version?: string;
+  authors?: string[];
+  description?: string;
+};
+
+// A named set of enabled mods for one UserData location, swapped in for a launch.
+type ModProfile = {
+  id: string;
+  name: string;
+  locationId: string;
+  // Mod file names, as in InstalledMod.fileName.
+  mods: string[];
+};
+
+type ModProfileList = {
+  profiles: ModProfile[];
+  // Profile used on launch: a profile id, "vanilla" (no mods), or null for Mods as is.
+  activeId: string | null;
+};
+
+type ModpackExportRequest = {
+  name: string;
+  // Top-level UserData entries to include, from "userdata:entries".
+  config: string[];
+  // Build the pack targets when exporting shared UserData; instances use their own build.
+  build?: Pick<GameVersion, "type" | "build_index" | "build_name">;
+};
+
+type UserDataMigrationPlan = {
+  files: number;
+  bytes: number;
+  // Target files the copy would overwrite, relative to the UserData folder.
+  conflicts: string[];
+  targetPath: string;
+};
+
+type GameDirectoryInfo = {
+  path: string;
+  defaultPath: string;
+  isDefault: boolean;
+};
+
+// ipcRenderer.invoke -> ipcMain.handle
+interface IpcInvokeChannels {
+  "get-default-game-directory": { args: []; result: string };
+  "game-dir:info": { args: []; result: GameDirectoryInfo };
+  "game-dir:pick": { args: []; result: string | null };
+  // `target` null goes back to the default location.
+  "game-dir:change": {
+    args: [target: string | null, options: { moveFiles: boolean }];
+    result: IpcResult & { path?: string };
+  };
+  "libraries:list": { args: []; result: GameLibrary[] };
+  "libraries:pick": { args: []; result: string | null };
+  "libraries:add": {
+    args: [dir: string];
+    result: IpcResult & { library?: GameLibrary };
+  };
+  "libraries:remove": { args: [id: string]; result: IpcResult };
+  "instances:list": { args: []; result: GameInstance[] };
+  "instances:create": {
+    args: [input: GameInstanceInput];
+    result: IpcResult & { instance?: GameInstance };
+  };
+  "instances:update": {
+    args: [id: string, input: GameInstanceInput];
+    result: IpcResult & { instance?: GameInstance };
+  };
+  "instances:clone": {
+    args: [id: string, name: string];
+    result: IpcResult & { instance?: GameInstance };
+  };
+  "instances:delete": { args: [id: string]; result: IpcResult };
+  "userdata:locations": { args: []; result: UserDataLocation[] };
+  "userdata:entries": { args: [sourceId: string]; result: UserDataEntry[] };
+  "userdata:plan": {
+    args: [request: UserDataMigrationRequest];
+    result: IpcResult & { plan?: UserDataMigrationPlan };
+  };
+  "userdata:migrate": {
+    args: [request: UserDataMigrationRequest];
+    result: IpcResult & { path?: string; copied?: number };
+  };
+  // `locationId` is a UserDataLocation id: "shared" or an instance.
+  "mods:list": { args: [locationId: string]; result: InstalledMod[] };
+  "mods:set-enabled": {
+    args: [locationId: string, fileName: string, enabled: boolean];
+    result: IpcResult;
+  };
+  "mods:delete": {
+    args: [locationId: string, fileName: string];
+    result: IpcResult;
+  };
+  "mods:pick": { args: []; result: string[] };
+  "mods:import": {
+    args: [locationId: string, filePath: string];
+    result: IpcResult & { mod?: InstalledMod };
+  };
+  "mod-profiles:list": { args: [locationId: string]; result: ModProfileList };
+  "mod-profiles:create": {
+    args: [locationId: string, name: string, mods: string[]];
+    result: IpcResult & { profile?: ModProfile };
+  };
+  "mod-profiles:update": {
+    args: [id: string, mods: string[]];
+    result: IpcResult & { profile?: ModProfile };
+  };
+  "mod-profiles:delete": { args: [id: string]; result: IpcResult };
+  "mod-profiles:select": {
+    args: [locationId: string, id: string | null];
+    result: IpcResult;
+  };
+  // A null error means the file dialog was cancelled.
+  "modpack:export": {
+    args: [locationId: string, request: ModpackExportRequest];
+    result: IpcResult;
+  };
+  "modpack:open": {
+    args: [];
+    result: IpcResult & { path?: string; info?: ModpackInfo };
+  };
+  "modpack:import": {
+    args: [locationId: string, archivePath: string];
+    result: IpcResult & { imported?: number };
+  };
+  "open-folder": { args: [folderPath: string]; result: IpcResult };
+  "open-external": { args: [url: string]; result: IpcResult };
+  "news:get": { args: []; result: NewsFeed | null };
+  "versions:list": {
+    args: [options?: { refresh?: boolean }];
+    result: GameVersionLists;
+  };
+  "versions:catalogue": { args: []; result: VersionCatalogue };
+  "versions:pwr-exists": {
+    args: [versionType: VersionType, buildIndex: number];
+    result: boolean;
+  };
+  "online-patch:check": {
+    args: [gameDir: string, version: GameVersion];
+    result: "needs" | "up-to-date" | "skipped";
+  };
+  "online-patch:state": {
+    args: [gameDir: string, version: GameVersion];
+    result: OnlinePatchState;
+  };
+  "online-patch:health": {
+    args: [gameDir: string, version: GameVersion];
+    result: OnlinePatchHealth;
+  };
+  "check-game-installation": {
+    args: [gameDir: string, version: GameVersion];
+    result: GameInstallationCheck;
+  };
+  "get-installed-build": {
+    args: [gameDir: string, versionType: VersionType];
+    result: number | null;
+  };
+  "list-installed-versions": {
+    args: [gameDir: string];
+    result: InstalledBuildInfo[];
+  };
+  "list-installed-builds": {
+    args: [gameDir: string];
+    result: InstalledBuildEntry[];
+  };
+  "uninstall-build": {
+    args: [gameDir: string, build: Pick<GameVersion, "type" | "build_index">];
+    result: IpcResult;
+  };
+  "storage:usage": { args: [gameDir: string]; result: StorageUsage };
+  "storage:clean-temp": {
+    args: [gameDir: string];
+    result: IpcResult & { removed?: number };
+  };
+  "storage:retention:get": { args: []; result: RetentionPolicy };
+  "storage:retention:set": {
+    args: [policy: RetentionPolicy];
+    result: RetentionPolicy;
+  };
+  "storage:pwr-cache:get": { args: []; result: PwrCacheStatus };
+  "storage:pwr-cache:set": {
+    args: [settings: PwrCacheSettings];
+    result: PwrCacheStatus;
+  };
+  "storage:pwr-cache:clear": {
+    args: [];
+    result: IpcResult & { removed?: number };
+  };
+  "local-install:pick": {
+    args: [kind: LocalFileKind];
+    result: PickedLocalFile | null;
+  };
+  "bundle:export": {
+    args: [
+      gameDir: string,
+      build: Pick<GameVersion, "type" | "build_index">,
+      options: BundleExportOptions,
+    ];
+    result: IpcResult;
+  };
+  "bundle:import": {
+    args: [gameDir: string];
+    result: IpcResult & { info?: BundleInfo };
+  };
+  "install-queue:list": { args: []; result: InstallJobInfo[] };
+  "install-queue:move": {
+    args: [jobId: string, toIndex: number];
+    result: boolean;
+  };
+  "install-queue:remove": { args: [jobId: string]; result: boolean };
+  "verify-build": {
+    args: [gameDir: string, version: GameVersion];
+    result: BuildVerifyResult;
+  };
+  "repair-build": {
+    args: [gameDir: string, version: GameVersion];
+    result: BuildRepairResult;
+  };
+}
+
+// ipcRenderer.send -> ipcMain.on
+interface IpcSendChannels {
+  "minimize-window": [];
+  "close-window": [];
+  // `libraryId` picks where a build that isn't installed yet goes; defaults to the game directory.
+  "install-game": [gameDir: string, version: GameVersion, libraryId?: string];
+  "install-local": [gameDir: string, request: LocalInstallRequest];
+  "install-cancel": [];
+  "verify-cancel": [];
+  "launch-game": [
+    gameDir: string,
+    version: GameVersion,
+    username: string,
+    customUUID?: string | null,
+  ];
+  "launch-instance": [
+    gameDir: string,
+    instanceId: string,
+    username: string,
+    customUUID?: string | null,
+  ];
+  "online-patch:enable": [gameDir: string, version: GameVersion];
+  "online-patch:disable": [gameDir: string, version: GameVersion];
+  "online-patch:fix-client": [gameDir: string, version: GameVersion];
+}
+
+// webContents.send -> renderer listeners
+interface IpcEventChannels {
+  "install-progress": [progress: InstallProgress];
+  "install-started": [];
+  "install-finished": [version: GameVersion, delta: DeltaInstallSummary | null];
+  "install-cancelled": [version: GameVersion];
+  "install-error": [error: string, details?: InstallErrorDetails];
+  "install-queue": [jobs: InstallJobInfo[]];
+  "builds-pruned": [removed: InstalledBuildInfo[]];
+  "verify-progress": [progress: InstallProgress];
+  "bundle-progress": [progress: InstallProgress];
+  launched: [];
+  "launch-finished": [info: LaunchExitInfo];
+  "launch-error": [error: string];
+  "online-patch-progress": [progress: InstallProgress];
+  "online-patch-finished": [result: "enabled" | "already-enabled" | "skipped"];
+  "online-patch-error": [error: string];
+  "online-unpatch-progress": [progress: InstallProgress];
+  "online-unpatch-finished": [
+    result:
+      "disabled" | "already-disabled" | "fixed" | "not-needed" | "skipped",
+  ];
+  "online-unpatch-error": [error: string];
+  "versions:changed": [lists: GameVersionLists];
+  "game-dir-progress": [progress: InstallProgress];
+  "game-dir:changed": [path: string];
+  "libraries:changed": [libraries: GameLibrary[]];
+  "instances:changed": [instances: GameInstance[]];
+  "userdata-progress": [progress: InstallProgress];
+  "mod-profiles:changed": [locationId: string];
+}
+
+type IpcInvokeChannel = keyof IpcInvokeChannels;
+type IpcInvokeArgs<C extends IpcInvokeChannel> = IpcInvokeChannels[C]["args"];
+type IpcInvokeResult<C extends IpcInvokeChannel> =
+  IpcInvokeChannels[C]["result"];
+type IpcSendChannel = keyof IpcSendChannels;
+type IpcEventChannel = keyof IpcEventChannels;
+
+// What the preload exposes as `window.ipc`. Listeners get the payload only, never the event.
+type IpcBridge = {
+  invoke<C extends IpcInvokeChannel>(
+    channel: C,
+    ...args: IpcInvokeArgs<C>
+  ): Promise<IpcInvokeResult<C>>;
+  send<C extends IpcSendChannel>(channel: C, ...args: IpcSendChannels[C]): void;
+  // Both return a function that removes the listener.
+  on<C extends IpcEventChannel>(
+    channel: C,
+    listener: (...args: IpcEventChannels[C]) => void,
+  ): () => void;
+  once<C extends IpcEventChannel>(
+    channel: C,
+    listener: (...args: IpcEventChannels[C]) => void,
+  ): () => void;
+};
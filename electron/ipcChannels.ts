@@ -0,0 +1,113 @@
+// Runtime copy of the channel names in ipc-contract.d.ts, for the preload allowlist.
+// Typed as records over the contract's keys so a missing or unknown channel doesn't compile.
+
+export const INVOKE_CHANNELS: Record<IpcInvokeChannel, true> = {
+  "get-default-game-directory": true,
+  "game-dir:info": true,
+  "game-dir:pick": true,
+  "game-dir:change": true,
+  "libraries:list": true,
+  "libraries:pick": true,
+  "libraries:add": true,
+  "libraries:remove": true,
+  "instances:list": true,
+  "instances:create": true,
+  "instances:update": true,
+  "instances:clone": true,
+  "instances:delete": true,
+  "userdata:locations": true,
+  "userdata:entries": true,
+  "userdata:plan": true,
+  "userdata:migrate": true,
+  "mods:list": true,
+  "mods:set-enabled": true,
+  "mods:delete": true,
+  "mods:pick": true,
+  "mods:import": true,
+  "mod-profiles:list": true,
+  "mod-profiles:create": true,
+  "mod-profiles:update": true,
+  "mod-profiles:delete": true,
+  "mod-profiles:select": true,
+  "modpack:export": true,
+  "modpack:open": true,
+  "modpack:import": true,
+  "open-folder": true,
+  "open-external": true,
+  "news:get": true,
+  "versions:list": true,
+  "versions:catalogue": true,
+  "versions:pwr-exists": true,
+  "online-patch:check": true,
+  "online-patch:state": true,
+  "online-patch:health": true,
+  "check-game-installation": true,
+  "get-installed-build": true,
+  "list-installed-versions": true,
+  "list-installed-builds": true,
+  "uninstall-build": true,
+  "storage:usage": true,
+  "storage:clean-temp": true,
+  "storage:retention:get": true,
+  "storage:retention:set": true,
+  "storage:pwr-cache:get": true,
+  "storage:pwr-cache:set": true,
+  "storage:pwr-cache:clear": true,
+  "local-install:pick": true,
+  "bundle:export": true,
+  "bundle:import": true,
+  "install-queue:list": true,
+  "install-queue:move": true,
+  "install-queue:remove": true,
+  "verify-build": true,
+  "repair-build": true,
+};
+
+export const SEND_CHANNELS: Record<IpcSendChannel, true> = {
+  "minimize-window": true,
+  "close-window": true,
+  "install-game": true,
+  "install-local": true,
+  "install-cancel": true,
+  "verify-cancel": true,
+  "launch-game": true,
+  "launch-instance": true,
+  "online-patch:enable": true,
+  "online-patch:disable": true,
+  "online-patch:fix-client": true,
+};
+
+export const EVENT_CHANNELS: Record<IpcEventChannel, true> = {
+  "install-progress": true,
+  "install-started": true,
+  "install-finished": true,
+  "install-cancelled": true,
+  "install-error": true,
+  "install-queue": true,
+  "builds-pruned": true,
+  "verify-progress": true,
+  "bundle-progress": true,
+  launched: true,
+  "launch-finished": true,
+  "launch-error": true,
+  "online-patch-progress": true,
+  "online-patch-finished": true,
+  "online-patch-error": true,
+  "online-unpatch-progress": true,
+  "online-unpatch-finished": true,
+  "online-unpatch-error": true,
+  "versions:changed": true,
+  "game-dir-progress": true,
+  "game-dir:changed": true,
+  "libraries:changed": true,
+  "instances:changed": true,
+  "userdata-progress": true,
+  "mod-profiles:changed": true,
+};
+
+export const isAllowedChannel = (
+  allowed: Record<string, true>,
+  channel: unknown,
+): channel is string =>
+  typeof channel === "string" &&
+  Object.prototype.hasOwnProperty.call(allowed, channel);
@@ -1,7 +1,7 @@
 import {
   app,
   BrowserWindow,
-  ipcMain,
+  dialog,
   shell,
   nativeImage,
   Tray,
@@ -12,11 +12,115 @@ import path from "node:path";
 import fs from "node:fs";
 import os from "node:os";
 import { autoUpdater } from "electron-updater";
-import { META_DIRECTORY } from "./utils/const";
 import { logger } from "./utils/logger";
+import { handle, on, sendToRenderer } from "./utils/ipc";
+import { getNewsFeed } from "./utils/news";
 
-import { installGame } from "./utils/game/install";
+import {
+  enqueueBundleImport,
+  enqueueInstall,
+  enqueueLocalInstall,
+  hasInstallJob,
+  listInstallJobs,
+  moveInstallJob,
+  removeInstallJob,
+} from "./utils/game/installQueue";
+import { cancelActiveDownloads } from "./utils/download";
 import { checkGameInstallation } from "./utils/game/check";
+import { inferBuildFromPwrPath } from "./utils/game/install";
+import {
+  exportBundle,
+  getBundleVersion,
+  readBundleInfo,
+} from "./utils/game/bundle";
+import { withProgressChannel } from "./utils/game/eventTarget";
+import {
+  cancelBuildChecks,
+  isBuildCheckRunning,
+  repairBuild,
+  verifyBuild,
+} from "./utils/game/verify";
+import {
+  getVersionCatalogue,
+  onVersionCatalogueChanged,
+  refreshVersionCatalogue,
+} from "./utils/game/versionCatalogue";
+import { checkPwrExists } from "./utils/game/versions";
+import {
+  getGameDirectory,
+  getGameDirectoryInfo,
+  isGameDirectoryMoving,
+  resolveGameDir,
+  resolvePathInGameDir,
+} from "./utils/game/gameDirectory";
+import {
+  parseBuildRef,
+  parseCatalogueVersion,
+  parseGameVersion,
+  parseLocalInstallRequest,
+} from "./utils/game/ipcInput";
+import { isBuildRunning, setRunningBuild } from "./utils/game/runState";
+import {
+  listInstalledBuildsWithSize,
+  uninstallBuild,
+} from "./utils/game/uninstall";
+import {
+  cleanTemporaryFiles,
+  getStorageUsage,
+  readRetentionPolicy,
+  writeRetentionPolicy,
+} from "./utils/game/storage";
+import {
+  clearPwrCache,
+  getPwrCacheStatus,
+  writePwrCacheSettings,
+} from "./utils/game/pwrCache";
+import { changeGameDirectory } from "./utils/game/moveGameDirectory";
+import {
+  cloneInstance,
+  createInstance,
+  deleteInstance,
+  getInstance,
+  listInstances,
+  markInstancePlayed,
+  updateInstance,
+} from "./utils/game/instances";
+import {
+  addLibrary,
+  getLibraryPath,
+  listLibraries,
+  removeLibrary,
+} from "./utils/game/libraries";
+import {
+  deleteMod,
+  getModsDir,
+  importMod,
+  listModFiles,
+  listMods,
+  setModEnabled,
+} from "./utils/game/mods";
+import {
+  exportModpack,
+  importModpack,
+  readModpackInfo,
+} from "./utils/game/modpack";
+import {
+  createModProfile,
+  deleteLocationModProfiles,
+  deleteModProfile,
+  getActiveModSet,
+  listModProfiles,
+  selectModProfile,
+  updateModProfile,
+} from "./utils/game/modProfiles";
+import {
+  SHARED_USERDATA_ID,
+  findUserDataLocation,
+  listUserDataEntries,
+  listUserDataLocations,
+  migrateUserData,
+  planUserDataMigration,
+} from "./utils/game/userDataMigration";
 import { launchGame } from "./utils/game/launch";
 import {
   connectRPC,
@@ -24,16 +128,7 @@ import {
   setChoosingVersionActivity,
   setPlayingActivity,
 } from "./utils/discord";
-import { readInstallManifest } from "./utils/game/manifest";
 import { listInstalledVersions } from "./utils/game/installed";
-import {
-  getLatestDir,
-  getPreReleaseBuildDir,
-  getPreReleaseChannelDir,
-  getReleaseBuildDir,
-  getReleaseChannelDir,
-  migrateLegacyChannelInstallIfNeeded,
-} from "./utils/game/paths";
 import {
   checkOnlinePatchNeeded,
   disableOnlinePatch,
@@ -103,6 +198,8 @@ let backgroundTimeout: NodeJS.Timeout | null = null;
 let isBackgroundMode = false;
 let networkBlockerInstalled = false;
 let isGameRunning = false;
+// Instance whose UserData the running game uses; it can't be edited or deleted meanwhile.
+let runningInstanceId: string | null = null;
 
 const destroyTray = () => {
   if (!tray) return;
@@ -308,65 +405,166 @@ app.on("activate", () => {
   }
 });
 
-ipcMain.on("minimize-window", () => {
+on("minimize-window", () => {
   win?.minimize();
 });
 
-ipcMain.on("close-window", () => {
+on("close-window", () => {
   win?.close();
 });
 
-ipcMain.handle(
+const INVALID_REQUEST = "Invalid request";
+
+// Game directories and versions from the renderer are checked before any handler uses them.
+// Queries without an error field reject the invoke instead.
+const requireGameRequest = (
+  channel: string,
+  rawGameDir: unknown,
+  rawVersion: unknown,
+) => {
+  const gameDir = resolveGameDir(rawGameDir, channel);
+  const version = parseGameVersion(rawVersion, channel);
+  if (!gameDir || !version) throw new Error(INVALID_REQUEST);
+  return { gameDir, version };
+};
+
+handle(
   "online-patch:check",
-  async (_, gameDir: string, version: GameVersion) => {
+  async (_, rawGameDir: unknown, rawVersion: unknown) => {
+    const { gameDir, version } = requireGameRequest(
+      "online-patch:check",
+      rawGameDir,
+      rawVersion,
+    );
     return await checkOnlinePatchNeeded(gameDir, version);
   },
 );
 
-ipcMain.handle(
+handle(
   "online-patch:state",
-  async (_, gameDir: string, version: GameVersion) => {
+  async (_, rawGameDir: unknown, rawVersion: unknown) => {
+    const { gameDir, version } = requireGameRequest(
+      "online-patch:state",
+      rawGameDir,
+      rawVersion,
+    );
     return getOnlinePatchState(gameDir, version);
   },
 );
 
-ipcMain.handle(
+handle(
   "online-patch:health",
-  async (_, gameDir: string, version: GameVersion) => {
+  async (_, rawGameDir: unknown, rawVersion: unknown) => {
+    const { gameDir, version } = requireGameRequest(
+      "online-patch:health",
+      rawGameDir,
+      rawVersion,
+    );
     return await getOnlinePatchHealth(gameDir, version);
   },
 );
 
-ipcMain.handle("fetch:json", async (_, url, ...args) => {
-  const response = await fetch(url, ...args);
-  return await response.json();
+handle(
+  "versions:list",
+  async (_, options?: { refresh?: boolean }): Promise<GameVersionLists> => {
+    const { release, preRelease } = await refreshVersionCatalogue(
+      options?.refresh === true,
+    );
+    return { release, preRelease };
+  },
+);
+
+handle("versions:catalogue", () => {
+  return getVersionCatalogue();
 });
-ipcMain.handle("fetch:head", async (_, url, ...args) => {
-  const response = await fetch(url, ...args);
-  return response.status;
+
+onVersionCatalogueChanged(({ release, preRelease }) => {
+  for (const win of BrowserWindow.getAllWindows()) {
+    sendToRenderer(win, "versions:changed", { release, preRelease });
+  }
 });
 
-ipcMain.handle("get-default-game-directory", () => {
-  try {
-    if (process.platform === "linux") {
-      const xdgBase =
-        process.env["XDG_DATA_HOME"] &&
-        path.isAbsolute(process.env["XDG_DATA_HOME"]!)
-          ? process.env["XDG_DATA_HOME"]!
-          : path.join(os.homedir(), ".local", "share");
-      const newPath = path.join(xdgBase, "butter-launcher", "Hytale");
-      const legacyPath = path.join(META_DIRECTORY, "Hytale");
-      if (fs.existsSync(legacyPath) && !fs.existsSync(newPath))
-        return legacyPath;
-      return newPath;
-    }
-  } catch {}
-  return path.join(META_DIRECTORY, "Hytale");
-});
-
-ipcMain.handle("open-folder", async (_, folderPath: string) => {
+handle("news:get", () => {
+  return getNewsFeed();
+});
+
+handle(
+  "versions:pwr-exists",
+  (_, versionType: unknown, buildIndex: unknown) => {
+    if (
+      (versionType !== "release" && versionType !== "pre-release") ||
+      typeof buildIndex !== "number" ||
+      !Number.isInteger(buildIndex) ||
+      buildIndex <= 0
+    ) {
+      logger.warn(
+        `Rejected versions:pwr-exists request (${String(versionType)}, ${String(buildIndex)})`,
+      );
+      return false;
+    }
+    return checkPwrExists(versionType, buildIndex);
+  },
+);
+
+handle("get-default-game-directory", () => {
+  return getGameDirectory();
+});
+
+handle("game-dir:info", () => {
+  return getGameDirectoryInfo();
+});
+
+handle("game-dir:pick", async (e) => {
+  const win = BrowserWindow.fromWebContents(e.sender);
+  if (!win) return null;
+  const result = await dialog.showOpenDialog(win, {
+    properties: ["openDirectory", "createDirectory"],
+    defaultPath: getGameDirectory(),
+  });
+  if (result.canceled || !result.filePaths.length) return null;
+  return result.filePaths[0];
+});
+
+handle(
+  "game-dir:change",
+  async (e, rawTarget: unknown, rawOptions: unknown) => {
+    const win = BrowserWindow.fromWebContents(e.sender);
+    if (!win) return { ok: false, error: "No window" };
+    if (
+      (rawTarget !== null && typeof rawTarget !== "string") ||
+      typeof rawOptions !== "object" ||
+      rawOptions === null
+    ) {
+      logger.warn("Rejected game-dir:change request");
+      return { ok: false, error: INVALID_REQUEST };
+    }
+    const moveFiles =
+      (rawOptions as { moveFiles?: unknown }).moveFiles === true;
+
+    if (isGameDirectoryMoving()) {
+      return { ok: false, error: "The game directory is already being moved." };
+    }
+    if (listInstallJobs().length) {
+      return { ok: false, error: "Wait for installs to finish first." };
+    }
+    if (isGameRunning) {
+      return { ok: false, error: "Close the game first." };
+    }
+
+    const result = await changeGameDirectory(rawTarget, moveFiles, win);
+    if (result.ok && result.path) {
+      for (const target of BrowserWindow.getAllWindows()) {
+        sendToRenderer(target, "game-dir:changed", result.path);
+      }
+    }
+    return result;
+  },
+);
+
+handle("open-folder", async (_, rawFolderPath: unknown) => {
   try {
-    if (typeof folderPath !== "string" || !folderPath) {
+    const folderPath = resolvePathInGameDir(rawFolderPath, "open-folder");
+    if (!folderPath) {
       throw new Error("Invalid folder path");
     }
 
@@ -383,7 +581,7 @@ ipcMain.handle("open-folder", async (_, folderPath: string) => {
   }
 });
 
-ipcMain.handle("open-external", async (_, url: string) => {
+handle("open-external", async (_, url: string) => {
   try {
     if (typeof url !== "string" || !url) {
       throw new Error("Invalid url");
@@ -413,128 +611,769 @@ ipcMain.handle("open-external", async (_, url: string) => {
   }
 });
 
-ipcMain.handle(
+handle(
   "check-game-installation",
-  (_, baseDir: string, version: GameVersion) => {
-    return checkGameInstallation(baseDir, version);
+  (_, rawGameDir: unknown, rawVersion: unknown) => {
+    const { gameDir, version } = requireGameRequest(
+      "check-game-installation",
+      rawGameDir,
+      rawVersion,
+    );
+    return checkGameInstallation(gameDir, version);
   },
 );
 
-ipcMain.handle(
+handle(
   "get-installed-build",
-  (_, baseDir: string, versionType: GameVersion["type"]) => {
-    try {
-      migrateLegacyChannelInstallIfNeeded(baseDir, versionType);
+  (_, rawGameDir: unknown, versionType: GameVersion["type"]) => {
+    const baseDir = resolveGameDir(rawGameDir, "get-installed-build");
+    if (!baseDir) return null;
+    if (versionType !== "release" && versionType !== "pre-release") {
+      return null;
+    }
+    // The `latest` alias wins for releases, then the newest build in any library.
+    const builds = listInstalledVersions(baseDir).filter(
+      (b) => b.type === versionType,
+    );
+    const latest = builds.find((b) => b.isLatest);
+    if (latest) return latest.build_index;
+    return builds.length ? Math.max(...builds.map((b) => b.build_index)) : null;
+  },
+);
 
-      if (versionType === "release") {
-        const latestDir = getLatestDir(baseDir);
-        const latest = readInstallManifest(latestDir);
-        if (latest?.build_index) return latest.build_index;
-      }
+handle("libraries:list", () => {
+  return listLibraries(getGameDirectory());
+});
 
-      const channelDir =
-        versionType === "release"
-          ? getReleaseChannelDir(baseDir)
-          : getPreReleaseChannelDir(baseDir);
-      if (!fs.existsSync(channelDir)) return null;
-
-      const builds = fs
-        .readdirSync(channelDir, { withFileTypes: true })
-        .filter((d) => d.isDirectory() && /^build-\d+$/.test(d.name))
-        .map((d) => Number(d.name.replace("build-", "")))
-        .filter((n) => Number.isFinite(n) && n > 0)
-        .sort((a, b) => a - b);
-
-      if (!builds.length) return null;
-      const idx = builds[builds.length - 1];
-      const installDir =
-        versionType === "release"
-          ? getReleaseBuildDir(baseDir, idx)
-          : getPreReleaseBuildDir(baseDir, idx);
-      const manifest = readInstallManifest(installDir);
-      return manifest?.build_index ?? idx;
-    } catch {
-      return null;
+handle("libraries:pick", async (e) => {
+  const win = BrowserWindow.fromWebContents(e.sender);
+  if (!win) return null;
+  const result = await dialog.showOpenDialog(win, {
+    properties: ["openDirectory", "createDirectory"],
+  });
+  if (result.canceled || !result.filePaths.length) return null;
+  return result.filePaths[0];
+});
+
+const broadcastLibraries = () => {
+  const libraries = listLibraries(getGameDirectory());
+  for (const win of BrowserWindow.getAllWindows()) {
+    sendToRenderer(win, "libraries:changed", libraries);
+  }
+};
+
+handle("libraries:add", (_, rawDir: unknown) => {
+  if (typeof rawDir !== "string") return { ok: false, error: INVALID_REQUEST };
+  const result = addLibrary(getGameDirectory(), rawDir);
+  if (result.ok) broadcastLibraries();
+  return result;
+});
+
+handle("libraries:remove", (_, rawId: unknown) => {
+  if (typeof rawId !== "string") return { ok: false, error: INVALID_REQUEST };
+  if (listInstallJobs().length) {
+    return { ok: false, error: "Wait for installs to finish first." };
+  }
+  const result = removeLibrary(rawId);
+  if (result.ok) broadcastLibraries();
+  return result;
+});
+
+const broadcastInstances = () => {
+  const instances = listInstances(getGameDirectory());
+  for (const win of BrowserWindow.getAllWindows()) {
+    sendToRenderer(win, "instances:changed", instances);
+  }
+};
+
+handle("instances:list", () => {
+  return listInstances(getGameDirectory());
+});
+
+handle("instances:create", (_, input: unknown) => {
+  const result = createInstance(getGameDirectory(), input);
+  if (result.ok) broadcastInstances();
+  return result;
+});
+
+handle("instances:update", (_, rawId: unknown, input: unknown) => {
+  if (typeof rawId !== "string") return { ok: false, error: INVALID_REQUEST };
+  if (rawId === runningInstanceId) {
+    return { ok: false, error: "Close the game first." };
+  }
+  const result = updateInstance(getGameDirectory(), rawId, input);
+  if (result.ok) broadcastInstances();
+  return result;
+});
+
+handle("instances:clone", async (_, rawId: unknown, name: unknown) => {
+  if (typeof rawId !== "string") return { ok: false, error: INVALID_REQUEST };
+  const result = await cloneInstance(getGameDirectory(), rawId, name);
+  if (result.ok) broadcastInstances();
+  return result;
+});
+
+handle("instances:delete", (_, rawId: unknown) => {
+  if (typeof rawId !== "string") return { ok: false, error: INVALID_REQUEST };
+  if (rawId === runningInstanceId) {
+    return { ok: false, error: "Close the game first." };
+  }
+  const result = deleteInstance(getGameDirectory(), rawId);
+  if (result.ok) {
+    deleteLocationModProfiles(rawId);
+    broadcastInstances();
+  }
+  return result;
+});
+
+let isMigratingUserData = false;
+
+handle("userdata:locations", () => {
+  return listUserDataLocations(getGameDirectory());
+});
+
+handle("userdata:entries", (_, sourceId: unknown) => {
+  return listUserDataEntries(getGameDirectory(), sourceId);
+});
+
+handle("userdata:plan", (_, request: unknown) => {
+  return planUserDataMigration(getGameDirectory(), request);
+});
+
+handle("userdata:migrate", async (e, request: unknown) => {
+  const win = BrowserWindow.fromWebContents(e.sender);
+  if (!win) return { ok: false, error: "No window" };
+  // The game keeps UserData files open and rewrites them on exit.
+  if (isGameRunning) return { ok: false, error: "Close the game first." };
+  if (isMigratingUserData) {
+    return { ok: false, error: "A UserData copy is already running." };
+  }
+  isMigratingUserData = true;
+  try {
+    return await migrateUserData(getGameDirectory(), request, win);
+  } finally {
+    isMigratingUserData = false;
+  }
+});
+
+// UserData folder whose mods the renderer manages; snapshots are read-only.
+const resolveModsUserDir = (locationId: unknown) => {
+  const location = findUserDataLocation(getGameDirectory(), locationId);
+  return location && location.kind !== "snapshot" ? location.path : null;
+};
+
+handle("mods:list", (_, locationId: unknown) => {
+  const userDir = resolveModsUserDir(locationId);
+  return userDir ? listMods(userDir) : [];
+});
+
+handle(
+  "mods:set-enabled",
+  (_, locationId: unknown, fileName: unknown, enabled: unknown) => {
+    const userDir = resolveModsUserDir(locationId);
+    if (!userDir || typeof enabled !== "boolean") {
+      return { ok: false, error: INVALID_REQUEST };
+    }
+    if (isGameRunning) return { ok: false, error: "Close the game first." };
+    return setModEnabled(userDir, fileName, enabled);
+  },
+);
+
+handle("mods:delete", (_, locationId: unknown, fileName: unknown) => {
+  const userDir = resolveModsUserDir(locationId);
+  if (!userDir) return { ok: false, error: INVALID_REQUEST };
+  if (isGameRunning) return { ok: false, error: "Close the game first." };
+  return deleteMod(userDir, fileName);
+});
+
+handle("mods:pick", async (e) => {
+  const win = BrowserWindow.fromWebContents(e.sender);
+  if (!win) return [];
+  const result = await dialog.showOpenDialog(win, {
+    properties: ["openFile", "multiSelections"],
+    filters: [{ name: "Mods", extensions: ["jar", "zip"] }],
+  });
+  return result.canceled ? [] : result.filePaths;
+});
+
+// Imports come from the file picker or a drop, so they can live anywhere on disk.
+handle("mods:import", (_, locationId: unknown, filePath: unknown) => {
+  const userDir = resolveModsUserDir(locationId);
+  if (!userDir || typeof filePath !== "string" || !path.isAbsolute(filePath)) {
+    return { ok: false, error: INVALID_REQUEST };
+  }
+  if (isGameRunning) return { ok: false, error: "Close the game first." };
+  return importMod(userDir, filePath);
+});
+
+const broadcastModProfiles = (locationId: string) => {
+  for (const win of BrowserWindow.getAllWindows()) {
+    sendToRenderer(win, "mod-profiles:changed", locationId);
+  }
+};
+
+handle("mod-profiles:list", (_, locationId: unknown) => {
+  return resolveModsUserDir(locationId)
+    ? listModProfiles(locationId as string)
+    : { profiles: [], activeId: null };
+});
+
+handle(
+  "mod-profiles:create",
+  (_, locationId: unknown, name: unknown, mods: unknown) => {
+    if (!resolveModsUserDir(locationId)) {
+      return { ok: false, error: INVALID_REQUEST };
+    }
+    const result = createModProfile(locationId as string, name, mods);
+    if (result.profile) broadcastModProfiles(result.profile.locationId);
+    return result;
+  },
+);
+
+handle("mod-profiles:update", (_, rawId: unknown, mods: unknown) => {
+  if (typeof rawId !== "string") return { ok: false, error: INVALID_REQUEST };
+  const result = updateModProfile(rawId, mods);
+  if (result.profile) broadcastModProfiles(result.profile.locationId);
+  return result;
+});
+
+handle("mod-profiles:delete", (_, rawId: unknown) => {
+  if (typeof rawId !== "string") return { ok: false, error: INVALID_REQUEST };
+  const result = deleteModProfile(rawId);
+  if (result.profile) broadcastModProfiles(result.profile.locationId);
+  return result;
+});
+
+handle("mod-profiles:select", (_, locationId: unknown, rawId: unknown) => {
+  if (
+    !resolveModsUserDir(locationId) ||
+    (rawId !== null && typeof rawId !== "string")
+  ) {
+    return { ok: false, error: INVALID_REQUEST };
+  }
+  const result = selectModProfile(locationId as string, rawId);
+  if (result.ok) broadcastModProfiles(locationId as string);
+  return result;
+});
+
+handle(
+  "modpack:export",
+  async (e, locationId: unknown, rawRequest: unknown) => {
+    const win = BrowserWindow.fromWebContents(e.sender);
+    if (!win) return { ok: false, error: "No window" };
+    const gameDir = getGameDirectory();
+    const location = findUserDataLocation(gameDir, locationId);
+    const request = (rawRequest ?? {}) as Partial<
+      Record<keyof ModpackExportRequest, unknown>
+    >;
+    if (
+      !location ||
+      location.kind === "snapshot" ||
+      typeof request.name !== "string" ||
+      !Array.isArray(request.config) ||
+      !request.config.every((c) => typeof c === "string")
+    ) {
+      return { ok: false, error: INVALID_REQUEST };
     }
+
+    // Instances are pinned to a build; shared UserData goes with whatever the renderer picked.
+    const instance =
+      location.kind === "instance" ? getInstance(gameDir, location.id) : null;
+    const build =
+      instance?.build ??
+      (request.build === undefined
+        ? null
+        : parseBuildRef(request.build, "modpack:export"));
+    // The mods the next launch would run with: the active profile's, or the Mods folder.
+    const mods =
+      getActiveModSet(location.id) ?? listModFiles(getModsDir(location.path));
+
+    const fileName =
+      request.name.trim().replace(/[^a-zA-Z0-9_-]+/g, "-") || "modpack";
+    const result = await dialog.showSaveDialog(win, {
+      defaultPath: `${fileName}.butterpack`,
+      filters: [{ name: "Modpack", extensions: ["butterpack"] }],
+    });
+    if (result.canceled || !result.filePath) return { ok: false, error: null };
+
+    return exportModpack(
+      gameDir,
+      location.path,
+      { name: request.name, build, mods, config: request.config },
+      result.filePath,
+    );
   },
 );
 
-ipcMain.handle("list-installed-versions", (_, baseDir: string) => {
-  return listInstalledVersions(baseDir);
+handle("modpack:open", async (e) => {
+  const win = BrowserWindow.fromWebContents(e.sender);
+  if (!win) return { ok: false, error: "No window" };
+  const result = await dialog.showOpenDialog(win, {
+    properties: ["openFile"],
+    filters: [{ name: "Modpack", extensions: ["butterpack"] }],
+  });
+  if (result.canceled || !result.filePaths.length) {
+    return { ok: false, error: null };
+  }
+
+  const archivePath = result.filePaths[0];
+  const info = await readModpackInfo(archivePath);
+  if (!info) return { ok: false, error: "Not a valid modpack." };
+  return { ok: true, error: null, path: archivePath, info };
+});
+
+handle(
+  "modpack:import",
+  async (_, locationId: unknown, archivePath: unknown) => {
+    const userDir = resolveModsUserDir(locationId);
+    if (
+      !userDir ||
+      typeof archivePath !== "string" ||
+      !path.isAbsolute(archivePath)
+    ) {
+      return { ok: false, error: INVALID_REQUEST };
+    }
+    if (isGameRunning) return { ok: false, error: "Close the game first." };
+    return importModpack(getGameDirectory(), userDir, archivePath);
+  },
+);
+
+handle("list-installed-versions", (_, rawGameDir: unknown) => {
+  const gameDir = resolveGameDir(rawGameDir, "list-installed-versions");
+  return gameDir ? listInstalledVersions(gameDir) : [];
+});
+
+handle("list-installed-builds", (_, rawGameDir: unknown) => {
+  const gameDir = resolveGameDir(rawGameDir, "list-installed-builds");
+  return gameDir ? listInstalledBuildsWithSize(gameDir) : [];
+});
+
+handle("uninstall-build", (_, rawGameDir: unknown, rawBuild: unknown) => {
+  const gameDir = resolveGameDir(rawGameDir, "uninstall-build");
+  const build = parseBuildRef(rawBuild, "uninstall-build");
+  if (!gameDir || !build) return { ok: false, error: INVALID_REQUEST };
+  if (isBuildRunning(build)) {
+    return {
+      ok: false,
+      error: "Close the game before uninstalling this build.",
+    };
+  }
+  if (hasInstallJob(build)) {
+    return { ok: false, error: "This build is being installed." };
+  }
+  if (isBuildCheckRunning(build)) {
+    return { ok: false, error: "This build is being verified or repaired." };
+  }
+  return uninstallBuild(gameDir, build);
 });
 
-ipcMain.on("install-game", (e, gameDir: string, version: GameVersion) => {
-  if (!fs.existsSync(gameDir)) {
-    fs.mkdirSync(gameDir, { recursive: true });
+handle("storage:usage", (_, rawGameDir: unknown) => {
+  const gameDir = resolveGameDir(rawGameDir, "storage:usage");
+  if (!gameDir) throw new Error(INVALID_REQUEST);
+  return getStorageUsage(gameDir);
+});
+
+handle("storage:clean-temp", (_, rawGameDir: unknown) => {
+  const gameDir = resolveGameDir(rawGameDir, "storage:clean-temp");
+  if (!gameDir) return { ok: false, error: INVALID_REQUEST };
+  if (listInstallJobs().length || isBuildCheckRunning()) {
+    return { ok: false, error: "Wait for installs to finish first." };
   }
+  try {
+    const removed = cleanTemporaryFiles(gameDir);
+    return { ok: true, error: null, removed };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Unknown error";
+    return { ok: false, error: message };
+  }
+});
+
+handle("storage:retention:get", () => {
+  return readRetentionPolicy();
+});
+
+handle("storage:retention:set", (_, policy: RetentionPolicy) => {
+  return writeRetentionPolicy(policy);
+});
 
+handle("storage:pwr-cache:get", () => {
+  return getPwrCacheStatus();
+});
+
+handle("storage:pwr-cache:set", (_, settings: PwrCacheSettings) => {
+  writePwrCacheSettings(settings);
+  return getPwrCacheStatus();
+});
+
+handle("storage:pwr-cache:clear", () => {
+  if (listInstallJobs().length) {
+    return { ok: false, error: "Wait for installs to finish first." };
+  }
+  const removed = clearPwrCache();
+  return { ok: true, error: null, removed };
+});
+
+on(
+  "install-game",
+  (e, rawGameDir: unknown, rawVersion: unknown, rawLibraryId?: unknown) => {
+    const win = BrowserWindow.fromWebContents(e.sender);
+    if (!win) return;
+    const gameDir = resolveGameDir(rawGameDir, "install-game");
+    const version = parseGameVersion(rawVersion, "install-game");
+    if (
+      !gameDir ||
+      !version ||
+      (rawLibraryId !== undefined && typeof rawLibraryId !== "string")
+    ) {
+      sendToRenderer(win, "install-error", INVALID_REQUEST);
+      return;
+    }
+
+    let libraryDir: string | undefined;
+    if (rawLibraryId !== undefined) {
+      const found = getLibraryPath(gameDir, rawLibraryId);
+      if (!found) {
+        sendToRenderer(
+          win,
+          "install-error",
+          "That library is not available. Is its drive connected?",
+        );
+        return;
+      }
+      libraryDir = found;
+    }
+    if (isBuildCheckRunning(version)) {
+      sendToRenderer(
+        win,
+        "install-error",
+        "This build is being verified or repaired.",
+      );
+      return;
+    }
+    void enqueueInstall(gameDir, version, win, libraryDir);
+  },
+);
+
+handle("local-install:pick", async (e, kind: "pwr" | "jre" | "butler") => {
+  const win = BrowserWindow.fromWebContents(e.sender);
+  if (!win) return null;
+
+  const filters: Record<typeof kind, Electron.FileFilter[]> = {
+    pwr: [{ name: "Game patch", extensions: ["pwr"] }],
+    jre: [{ name: "Java runtime", extensions: ["zip", "gz"] }],
+    butler: [{ name: "Butler", extensions: ["zip", "exe", "*"] }],
+  };
+  const result = await dialog.showOpenDialog(win, {
+    properties: ["openFile"],
+    filters: filters[kind] ?? [],
+  });
+  if (result.canceled || !result.filePaths.length) return null;
+
+  const filePath = result.filePaths[0];
+  return kind === "pwr"
+    ? { path: filePath, ...inferBuildFromPwrPath(filePath) }
+    : { path: filePath };
+});
+
+on("install-local", (e, rawGameDir: unknown, rawRequest: unknown) => {
   const win = BrowserWindow.fromWebContents(e.sender);
-  if (win) {
-    installGame(gameDir, version, win);
+  if (!win) return;
+  const gameDir = resolveGameDir(rawGameDir, "install-local");
+  const request = parseLocalInstallRequest(rawRequest, "install-local");
+  if (!gameDir || !request) {
+    sendToRenderer(win, "install-error", INVALID_REQUEST);
+    return;
   }
+  void enqueueLocalInstall(gameDir, request, win);
 });
 
-ipcMain.on(
+handle(
+  "bundle:export",
+  async (
+    e,
+    rawGameDir: unknown,
+    rawBuild: unknown,
+    options: { includeJre: boolean; includeUserData: boolean },
+  ) => {
+    const win = BrowserWindow.fromWebContents(e.sender);
+    if (!win) return { ok: false, error: "No window" };
+    const gameDir = resolveGameDir(rawGameDir, "bundle:export");
+    const build = parseBuildRef(rawBuild, "bundle:export");
+    if (!gameDir || !build) return { ok: false, error: INVALID_REQUEST };
+    if (hasInstallJob(build)) {
+      return { ok: false, error: "This build is being installed." };
+    }
+
+    const result = await dialog.showSaveDialog(win, {
+      defaultPath: `hytale-${build.type}-${build.build_index}.butterbundle`,
+      filters: [{ name: "Launcher bundle", extensions: ["butterbundle"] }],
+    });
+    if (result.canceled || !result.filePath) return { ok: false, error: null };
+
+    return exportBundle(
+      gameDir,
+      build,
+      result.filePath,
+      {
+        includeJre: !!options?.includeJre,
+        includeUserData: !!options?.includeUserData,
+      },
+      withProgressChannel(win, "bundle-progress"),
+    );
+  },
+);
+
+handle("bundle:import", async (e, rawGameDir: unknown) => {
+  const win = BrowserWindow.fromWebContents(e.sender);
+  if (!win) return { ok: false, error: "No window" };
+  const gameDir = resolveGameDir(rawGameDir, "bundle:import");
+  if (!gameDir) return { ok: false, error: INVALID_REQUEST };
+  if (isGameRunning) return { ok: false, error: "Close the game first." };
+
+  const result = await dialog.showOpenDialog(win, {
+    properties: ["openFile"],
+    filters: [{ name: "Launcher bundle", extensions: ["butterbundle"] }],
+  });
+  if (result.canceled || !result.filePaths.length) {
+    return { ok: false, error: null };
+  }
+
+  const archivePath = result.filePaths[0];
+  const info = await readBundleInfo(archivePath);
+  if (!info) return { ok: false, error: "Not a valid launcher bundle." };
+  // The queue would fold the import into that job and never run it.
+  if (hasInstallJob(getBundleVersion(info))) {
+    return { ok: false, error: "This build is already being installed." };
+  }
+
+  void enqueueBundleImport(gameDir, archivePath, info, win);
+  return { ok: true, error: null, info };
+});
+
+handle("install-queue:list", () => {
+  return listInstallJobs();
+});
+
+handle("install-queue:move", (_, jobId: string, toIndex: number) => {
+  if (typeof jobId !== "string" || !Number.isInteger(toIndex)) return false;
+  return moveInstallJob(jobId, toIndex);
+});
+
+handle("install-queue:remove", (_, jobId: string) => {
+  return removeInstallJob(jobId);
+});
+
+on("install-cancel", () => {
+  const cancelled = cancelActiveDownloads();
+  logger.info(`Install cancel requested (${cancelled} active download(s))`);
+});
+
+on("verify-cancel", () => {
+  logger.info("File check cancel requested");
+  cancelBuildChecks();
+});
+
+handle(
+  "verify-build",
+  async (
+    e,
+    rawGameDir: unknown,
+    rawVersion: unknown,
+  ): Promise<BuildVerifyResult> => {
+    const win = BrowserWindow.fromWebContents(e.sender);
+    if (!win) return { status: "error", issues: [], error: "No window" };
+    const gameDir = resolveGameDir(rawGameDir, "verify-build");
+    const version = parseGameVersion(rawVersion, "verify-build");
+    if (!gameDir || !version) {
+      return { status: "error", issues: [], error: INVALID_REQUEST };
+    }
+    if (hasInstallJob(version)) {
+      return {
+        status: "error",
+        issues: [],
+        error: "This build is being installed.",
+      };
+    }
+    return verifyBuild(
+      gameDir,
+      version,
+      withProgressChannel(win, "verify-progress"),
+    );
+  },
+);
+
+handle(
+  "repair-build",
+  async (
+    e,
+    rawGameDir: unknown,
+    rawVersion: unknown,
+  ): Promise<BuildRepairResult> => {
+    const win = BrowserWindow.fromWebContents(e.sender);
+    if (!win) return { ok: false, repaired: [], error: "No window" };
+    const gameDir = resolveGameDir(rawGameDir, "repair-build");
+    const version = parseGameVersion(rawVersion, "repair-build");
+    if (!gameDir || !version) {
+      return { ok: false, repaired: [], error: INVALID_REQUEST };
+    }
+    if (isBuildRunning(version)) {
+      return {
+        ok: false,
+        repaired: [],
+        error: "Close the game before repairing this build.",
+      };
+    }
+    if (hasInstallJob(version)) {
+      return {
+        ok: false,
+        repaired: [],
+        error: "This build is being installed.",
+      };
+    }
+    return repairBuild(
+      gameDir,
+      version,
+      withProgressChannel(win, "verify-progress"),
+    );
+  },
+);
+
+on(
   "launch-game",
   (
     e,
-    gameDir: string,
-    version: GameVersion,
+    rawGameDir: unknown,
+    rawVersion: unknown,
     username: string,
     customUUID?: string | null,
   ) => {
     const win = BrowserWindow.fromWebContents(e.sender);
-    if (win) {
-      // Reset any pending background transition from a previous launch attempt.
-      if (backgroundTimeout) {
-        clearTimeout(backgroundTimeout);
-        backgroundTimeout = null;
-      }
+    const gameDir = resolveGameDir(rawGameDir, "launch-game");
+    const version = parseGameVersion(rawVersion, "launch-game");
+    if (!gameDir || !version) {
+      if (win) sendToRenderer(win, "launch-error", INVALID_REQUEST);
+      return;
+    }
+    if (win) startGame(win, gameDir, version, username, customUUID ?? null);
+  },
+);
 
-      launchGame(gameDir, version, username, win, 0, customUUID ?? null, {
-        onGameSpawned: () => {
-          logger.info(`Game spawned: ${version.type} ${version.build_name}`);
-          isGameRunning = true;
-          try {
-            setPlayingActivity(version);
-          } catch {
-            // ignore
-          }
-
-          // Give the user a few seconds to see the launcher state change,
-          // then move to tray/background while the game is running.
-          backgroundTimeout = setTimeout(() => {
-            moveToBackground();
-            backgroundTimeout = null;
-          }, 3000);
-        },
-        onGameExited: () => {
-          isGameRunning = false;
-          if (backgroundTimeout) {
-            clearTimeout(backgroundTimeout);
-            backgroundTimeout = null;
-          }
-          restoreFromBackground();
-
-          // If the game is no longer running, we don't need to keep a tray icon around.
-          destroyTray();
-
-          try {
-            setChoosingVersionActivity();
-          } catch {
-            // ignore
-          }
-        },
-      });
+on(
+  "launch-instance",
+  (
+    e,
+    rawGameDir: unknown,
+    rawInstanceId: unknown,
+    username: string,
+    customUUID?: string | null,
+  ) => {
+    const win = BrowserWindow.fromWebContents(e.sender);
+    if (!win) return;
+    const gameDir = resolveGameDir(rawGameDir, "launch-instance");
+    const instance =
+      gameDir && typeof rawInstanceId === "string"
+        ? getInstance(gameDir, rawInstanceId)
+        : null;
+    const version = instance
+      ? parseGameVersion(instance.build, "launch-instance")
+      : null;
+    if (!gameDir || !instance || !version) {
+      sendToRenderer(win, "launch-error", INVALID_REQUEST);
+      return;
     }
+
+    markInstancePlayed(instance.id);
+    broadcastInstances();
+    startGame(
+      win,
+      gameDir,
+      version,
+      username,
+      instance.launchOptions.customUUID ?? customUUID ?? null,
+      instance,
+    );
   },
 );
 
-ipcMain.on(
+function startGame(
+  win: BrowserWindow,
+  gameDir: string,
+  version: GameVersion,
+  username: string,
+  customUUID: string | null,
+  instance?: GameInstance,
+) {
+  // Reset any pending background transition from a previous launch attempt.
+  if (backgroundTimeout) {
+    clearTimeout(backgroundTimeout);
+    backgroundTimeout = null;
+  }
+
+  launchGame(
+    gameDir,
+    version,
+    username,
+    win,
+    0,
+    customUUID,
+    {
+      onGameSpawned: () => {
+        logger.info(`Game spawned: ${version.type} ${version.build_name}`);
+        isGameRunning = true;
+        runningInstanceId = instance?.id ?? null;
+        setRunningBuild(version);
+        try {
+          setPlayingActivity(version);
+        } catch {
+          // ignore
+        }
+
+        // Give the user a few seconds to see the launcher state change,
+        // then move to tray/background while the game is running.
+        backgroundTimeout = setTimeout(() => {
+          moveToBackground();
+          backgroundTimeout = null;
+        }, 3000);
+      },
+      onGameExited: () => {
+        isGameRunning = false;
+        runningInstanceId = null;
+        setRunningBuild(null);
+        if (backgroundTimeout) {
+          clearTimeout(backgroundTimeout);
+          backgroundTimeout = null;
+        }
+        restoreFromBackground();
+
+        // If the game is no longer running, we don't need to keep a tray icon around.
+        destroyTray();
+
+        try {
+          setChoosingVersionActivity();
+        } catch {
+          // ignore
+        }
+      },
+    },
+    {
+      userDir: instance?.userDir,
+      extraArgs: instance?.launchOptions.extraArgs,
+      mods: getActiveModSet(instance?.id ?? SHARED_USERDATA_ID) ?? undefined,
+    },
+  );
+}
+
+on(
   "online-patch:enable",
-  async (e, gameDir: string, version: GameVersion) => {
+  async (e, rawGameDir: unknown, rawVersion: unknown) => {
     const win = BrowserWindow.fromWebContents(e.sender);
     if (!win) return;
+    const gameDir = resolveGameDir(rawGameDir, "online-patch:enable");
+    const version = parseCatalogueVersion(rawVersion, "online-patch:enable");
+    if (!gameDir || !version) {
+      sendToRenderer(win, "online-patch-error", INVALID_REQUEST);
+      return;
+    }
 
     try {
       const result = await enableOnlinePatch(
@@ -543,19 +1382,25 @@ ipcMain.on(
         win,
         "online-patch-progress",
       );
-      win.webContents.send("online-patch-finished", result);
+      sendToRenderer(win, "online-patch-finished", result);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Unknown error";
-      win.webContents.send("online-patch-error", msg);
+      sendToRenderer(win, "online-patch-error", msg);
     }
   },
 );
 
-ipcMain.on(
+on(
   "online-patch:disable",
-  async (e, gameDir: string, version: GameVersion) => {
+  async (e, rawGameDir: unknown, rawVersion: unknown) => {
     const win = BrowserWindow.fromWebContents(e.sender);
     if (!win) return;
+    const gameDir = resolveGameDir(rawGameDir, "online-patch:disable");
+    const version = parseCatalogueVersion(rawVersion, "online-patch:disable");
+    if (!gameDir || !version) {
+      sendToRenderer(win, "online-unpatch-error", INVALID_REQUEST);
+      return;
+    }
 
     try {
       const result = await disableOnlinePatch(
@@ -564,19 +1409,28 @@ ipcMain.on(
         win,
         "online-unpatch-progress",
       );
-      win.webContents.send("online-unpatch-finished", result);
+      sendToRenderer(win, "online-unpatch-finished", result);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Unknown error";
-      win.webContents.send("online-unpatch-error", msg);
+      sendToRenderer(win, "online-unpatch-error", msg);
     }
   },
 );
 
-ipcMain.on(
+on(
   "online-patch:fix-client",
-  async (e, gameDir: string, version: GameVersion) => {
+  async (e, rawGameDir: unknown, rawVersion: unknown) => {
     const win = BrowserWindow.fromWebContents(e.sender);
     if (!win) return;
+    const gameDir = resolveGameDir(rawGameDir, "online-patch:fix-client");
+    const version = parseCatalogueVersion(
+      rawVersion,
+      "online-patch:fix-client",
+    );
+    if (!gameDir || !version) {
+      sendToRenderer(win, "online-unpatch-error", INVALID_REQUEST);
+      return;
+    }
 
     try {
       const result = await fixClientToUnpatched(
@@ -585,10 +1439,10 @@ ipcMain.on(
         win,
         "online-unpatch-progress",
       );
-      win.webContents.send("online-unpatch-finished", result);
+      sendToRenderer(win, "online-unpatch-finished", result);
     } catch (err) {
       const msg = err instanceof Error ? err.message : "Unknown error";
-      win.webContents.send("online-unpatch-error", msg);
+      sendToRenderer(win, "online-unpatch-error", msg);
     }
   },
 );
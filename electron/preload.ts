@@ -1,40 +1,68 @@
-import { ipcRenderer, contextBridge } from "electron";
+import {
+  ipcRenderer,
+  contextBridge,
+  webUtils,
+  type IpcRendererEvent,
+} from "electron";
 import { version, build_date } from "../package.json";
+import {
+  EVENT_CHANNELS,
+  INVOKE_CHANNELS,
+  SEND_CHANNELS,
+  isAllowedChannel,
+} from "./ipcChannels";
 
 // --------- Expose some API to the Renderer process ---------
-contextBridge.exposeInMainWorld("ipcRenderer", {
-  on(...args: Parameters<typeof ipcRenderer.on>) {
-    const [channel, listener] = args;
-    return ipcRenderer.on(channel, (event, ...args) =>
-      listener(event, ...args),
-    );
-  },
-  off(...args: Parameters<typeof ipcRenderer.off>) {
-    const [channel, ...omit] = args;
-    return ipcRenderer.off(channel, ...omit);
+const blocked = (kind: string, channel: unknown) =>
+  new Error(`Blocked IPC ${kind} channel: ${String(channel)}`);
+
+const subscribe = (
+  channel: IpcEventChannel,
+  listener: (...args: unknown[]) => void,
+  once: boolean,
+) => {
+  if (!isAllowedChannel(EVENT_CHANNELS, channel)) {
+    throw blocked("event", channel);
+  }
+  // The event object stays on this side: its `sender` is the full ipcRenderer.
+  const wrapped = (_: IpcRendererEvent, ...args: unknown[]) =>
+    listener(...args);
+  if (once) ipcRenderer.once(channel, wrapped);
+  else ipcRenderer.on(channel, wrapped);
+  return () => {
+    ipcRenderer.off(channel, wrapped);
+  };
+};
+
+const ipc: IpcBridge = {
+  invoke(channel, ...args) {
+    if (!isAllowedChannel(INVOKE_CHANNELS, channel)) {
+      return Promise.reject(blocked("invoke", channel));
+    }
+    return ipcRenderer.invoke(channel, ...args);
   },
-  send(...args: Parameters<typeof ipcRenderer.send>) {
-    const [channel, ...omit] = args;
-    return ipcRenderer.send(channel, ...omit);
+  send(channel, ...args) {
+    if (!isAllowedChannel(SEND_CHANNELS, channel)) {
+      throw blocked("send", channel);
+    }
+    ipcRenderer.send(channel, ...args);
   },
-  invoke(...args: Parameters<typeof ipcRenderer.invoke>) {
-    const [channel, ...omit] = args;
-    return ipcRenderer.invoke(channel, ...omit);
+  on(channel, listener) {
+    return subscribe(channel, listener as (...args: unknown[]) => void, false);
   },
-  once(...args: Parameters<typeof ipcRenderer.once>) {
-    const [channel, listener] = args;
-    return ipcRenderer.once(channel, (event, ...args) =>
-      listener(event, ...args),
-    );
+  once(channel, listener) {
+    return subscribe(channel, listener as (...args: unknown[]) => void, true);
   },
-});
+};
+
+contextBridge.exposeInMainWorld("ipc", ipc);
 
 contextBridge.exposeInMainWorld("config", {
-  getDefaultGameDirectory: () =>
-    ipcRenderer.invoke("get-default-game-directory"),
-  openFolder: (folderPath: string) =>
-    ipcRenderer.invoke("open-folder", folderPath),
-  openExternal: (url: string) => ipcRenderer.invoke("open-external", url),
+  getDefaultGameDirectory: () => ipc.invoke("get-default-game-directory"),
+  openFolder: (folderPath: string) => ipc.invoke("open-folder", folderPath),
+  openExternal: (url: string) => ipc.invoke("open-external", url),
+  // Dropped files only carry their path on this side of the bridge.
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
   OS: process.platform,
   ARCH: process.arch,
   VERSION: version,
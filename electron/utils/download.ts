@@ -0,0 +1,354 @@
+import fs from "node:fs";
+import stream from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { logger } from "./logger";
+
+const MAX_ATTEMPTS = 4;
+const RETRY_DELAY_MS = 2_000;
+
+// Sidecar written next to a partial file; its presence means "resumable".
+const META_SUFFIX = ".download.json";
+
+type DownloadMeta = {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  total?: number;
+};
+
+export type DownloadProgressHandler = (
+  current: number,
+  total: number | undefined,
+) => void;
+
+// Called with the file's full size once the response has arrived (undefined when the server
+// doesn't say), before anything is written. Throwing stops the download without retrying.
+export type DownloadSizeHandler = (
+  total: number | undefined,
+) => Promise<void> | void;
+
+export type DownloadOptions = {
+  // With a signal the caller owns cancellation and "install-cancel" doesn't reach the download.
+  signal?: AbortSignal;
+  onSize?: DownloadSizeHandler;
+};
+
+export type DownloadResult = {
+  path: string;
+  total?: number;
+  downloaded: number;
+  resumedFrom: number;
+};
+
+export class DownloadCancelledError extends Error {
+  constructor(url: string) {
+    super(`Download cancelled: ${url}`);
+    this.name = "DownloadCancelledError";
+  }
+}
+
+class HttpStatusError extends Error {
+  status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`Failed to download: ${status} ${statusText}`.trim());
+    this.name = "HttpStatusError";
+    this.status = status;
+  }
+}
+
+export const isDownloadCancelled = (
+  error: unknown,
+): error is DownloadCancelledError => error instanceof DownloadCancelledError;
+
+// One controller per output file, so "install-cancel" can abort whatever installs have in flight.
+const activeDownloads = new Map<string, AbortController>();
+
+export const cancelActiveDownloads = (): number => {
+  const count = activeDownloads.size;
+  for (const controller of activeDownloads.values()) controller.abort();
+  return count;
+};
+
+const getMetaPath = (outPath: string) => `${outPath}${META_SUFFIX}`;
+
+export const hasPartialDownload = (outPath: string) =>
+  fs.existsSync(outPath) && fs.existsSync(getMetaPath(outPath));
+
+const readMeta = (metaPath: string): DownloadMeta | null => {
+  try {
+    if (!fs.existsSync(metaPath)) return null;
+    const parsed = JSON.parse(fs.readFileSync(metaPath, "utf8"));
+    if (!parsed || typeof parsed.url !== "string") return null;
+    return parsed as DownloadMeta;
+  } catch {
+    return null;
+  }
+};
+
+const writeMeta = (metaPath: string, meta: DownloadMeta) => {
+  try {
+    fs.writeFileSync(metaPath, JSON.stringify(meta, null, 2), "utf8");
+  } catch {
+    // ignore: without meta we simply restart next time
+  }
+};
+
+const unlinkIfExists = (filePath: string) => {
+  try {
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+  } catch {
+    // ignore
+  }
+};
+
+export const removePartialDownload = (outPath: string) => {
+  unlinkIfExists(outPath);
+  unlinkIfExists(getMetaPath(outPath));
+};
+
+const parseLength = (raw: string | null) => {
+  const n = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+// Size announced by a HEAD request, or undefined when the server doesn't say.
+export const fetchContentLength = async (url: string) => {
+  try {
+    const response = await fetch(url, { method: "HEAD" });
+    if (!response.ok) return undefined;
+    const contentLength = response.headers.get("content-length");
+    const n = contentLength ? parseInt(contentLength, 10) : NaN;
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const JSON_TIMEOUT_MS = 10_000;
+// Feeds are a few KB; anything near this is not what we asked for.
+const JSON_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Fetches and parses a small JSON document with a timeout and a response size cap.
+ * Throws on HTTP errors, oversized bodies and invalid JSON; the result is still untrusted.
+ */
+export const fetchJson = async (
+  url: string,
+  {
+    timeoutMs = JSON_TIMEOUT_MS,
+    maxBytes = JSON_MAX_BYTES,
+  }: { timeoutMs?: number; maxBytes?: number } = {},
+): Promise<unknown> => {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new HttpStatusError(response.status, response.statusText);
+  }
+
+  const announced = parseLength(response.headers.get("content-length"));
+  if (typeof announced === "number" && announced > maxBytes) {
+    throw new Error(`Response from ${url} is too large (${announced} bytes)`);
+  }
+  if (!response.body) throw new Error("No response body");
+
+  // content-length may be missing or wrong, so count while reading.
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of stream.Readable.fromWeb(
+    response.body as unknown as NodeReadableStream,
+  )) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      throw new Error(`Response from ${url} exceeded ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+};
+
+const isRetryable = (error: unknown) => {
+  if (error instanceof HttpStatusError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+
+const downloadOnce = async (
+  url: string,
+  outPath: string,
+  signal: AbortSignal,
+  onProgress?: DownloadProgressHandler,
+  onSize?: DownloadSizeHandler,
+): Promise<DownloadResult> => {
+  const metaPath = getMetaPath(outPath);
+  const meta = readMeta(metaPath);
+
+  let offset = 0;
+  if (meta?.url === url && fs.existsSync(outPath)) {
+    offset = fs.statSync(outPath).size;
+  }
+
+  const headers: Record<string, string> = {};
+  if (offset > 0) {
+    headers["Range"] = `bytes=${offset}-`;
+    // Weak ETags are not allowed in If-Range; fall back to Last-Modified.
+    const validator =
+      meta?.etag && !meta.etag.startsWith("W/")
+        ? meta.etag
+        : meta?.lastModified;
+    if (validator) headers["If-Range"] = validator;
+  }
+
+  const response = await fetch(url, { headers, signal });
+
+  if (response.status === 416) {
+    // Nothing left to fetch if the partial already has every byte.
+    if (typeof meta?.total === "number" && meta.total === offset) {
+      unlinkIfExists(metaPath);
+      onProgress?.(offset, offset);
+      return {
+        path: outPath,
+        total: offset,
+        downloaded: offset,
+        resumedFrom: offset,
+      };
+    }
+    removePartialDownload(outPath);
+    throw new Error("Server rejected resume range, restarting download");
+  }
+
+  if (!response.ok)
+    throw new HttpStatusError(response.status, response.statusText);
+  if (!response.body) throw new Error("No response body");
+
+  const resumed = offset > 0 && response.status === 206;
+  if (!resumed) offset = 0;
+
+  const contentLength = parseLength(response.headers.get("content-length"));
+  const total =
+    typeof contentLength === "number" ? offset + contentLength : undefined;
+  await onSize?.(total);
+
+  writeMeta(metaPath, {
+    url,
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+    total,
+  });
+
+  logger.info(
+    `${resumed ? `Resuming download at ${offset} bytes` : "Downloading"} ${url} ` +
+      `(${typeof total === "number" ? (total / 1024 / 1024).toFixed(2) + " MB" : "unknown size"})`,
+  );
+
+  let current = offset;
+  onProgress?.(current, total);
+
+  const progressStream = new stream.PassThrough();
+  progressStream.on("data", (chunk) => {
+    current += chunk.length;
+    onProgress?.(current, total);
+  });
+
+  await pipeline(
+    stream.Readable.fromWeb(response.body as unknown as NodeReadableStream),
+    progressStream,
+    fs.createWriteStream(outPath, { flags: resumed ? "a" : "w" }),
+    { signal },
+  );
+
+  if (typeof total === "number" && current !== total) {
+    throw new Error(`Incomplete download (${current} of ${total} bytes)`);
+  }
+
+  unlinkIfExists(metaPath);
+  return {
+    path: outPath,
+    total,
+    downloaded: current,
+    resumedFrom: resumed ? offset : 0,
+  };
+};
+
+/**
+ * Downloads `url` into `outPath`, resuming a previous partial file via HTTP Range when possible.
+ * Transient failures are retried from the bytes already on disk; user cancellation removes the partial file.
+ */
+export const downloadFile = async (
+  url: string,
+  outPath: string,
+  onProgress?: DownloadProgressHandler,
+  { signal, onSize }: DownloadOptions = {},
+): Promise<DownloadResult> => {
+  const controller = new AbortController();
+  if (signal) {
+    signal.addEventListener("abort", () => controller.abort(), { once: true });
+    if (signal.aborted) controller.abort();
+  } else {
+    activeDownloads.set(outPath, controller);
+  }
+
+  // A rejected size (e.g. not enough disk space) won't change on a retry.
+  let sizeError: unknown;
+  const checkSize: DownloadSizeHandler | undefined =
+    onSize &&
+    (async (total) => {
+      try {
+        await onSize(total);
+      } catch (error) {
+        sizeError = error;
+        throw error;
+      }
+    });
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await downloadOnce(
+          url,
+          outPath,
+          controller.signal,
+          onProgress,
+          checkSize,
+        );
+      } catch (error) {
+        if (controller.signal.aborted) throw new DownloadCancelledError(url);
+        if (error === sizeError) throw error;
+        if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) throw error;
+
+        logger.warn(
+          `Download of ${url} interrupted (attempt ${attempt}/${MAX_ATTEMPTS}), retrying:`,
+          error instanceof Error ? error.message : error,
+        );
+        await sleep(RETRY_DELAY_MS * attempt, controller.signal);
+        if (controller.signal.aborted) throw new DownloadCancelledError(url);
+      }
+    }
+  } catch (error) {
+    if (isDownloadCancelled(error)) {
+      logger.info(`Download cancelled, removing partial file ${outPath}`);
+      removePartialDownload(outPath);
+    }
+    throw error;
+  } finally {
+    if (activeDownloads.get(outPath) === controller) {
+      activeDownloads.delete(outPath);
+    }
+  }
+};
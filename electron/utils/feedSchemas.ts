@@ -0,0 +1,304 @@
+import { logger } from "./logger";
+
+// Runtime checks for the JSON feeds the launcher downloads. Each validator returns a cleaned
+// copy (unknown fields dropped, bad optional fields removed) plus the problems it found, so a
+// single broken entry doesn't take the whole feed down.
+
+export type SchemaIssue = {
+  // Dotted location in the document, e.g. "versions.12.name".
+  path: string;
+  message: string;
+};
+
+export type SchemaResult<T> =
+  | { ok: true; value: T; issues: SchemaIssue[] }
+  | { ok: false; issues: SchemaIssue[] };
+
+export type JreAsset = {
+  url: string;
+  sha256: string;
+};
+
+// Platforms whose entry is missing or broken are left out rather than failing the manifest.
+export type JreManifest = {
+  version: string;
+  download_url: {
+    linux?: { amd64: JreAsset };
+    darwin?: { arm64: JreAsset };
+    windows?: { amd64: JreAsset };
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const join = (base: string, key: string) => (base ? `${base}.${key}` : key);
+
+class IssueList {
+  readonly issues: SchemaIssue[] = [];
+
+  add(path: string, message: string) {
+    this.issues.push({ path: path || "(root)", message });
+  }
+
+  expected(path: string, what: string, value: unknown) {
+    this.add(path, `expected ${what}, got ${describe(value)}`);
+  }
+
+  // Optional string: absent is fine, anything else but a string is dropped.
+  optionalString(obj: Record<string, unknown>, key: string, path: string) {
+    const value = obj[key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "string") return value;
+    this.expected(join(path, key), "string", value);
+    return undefined;
+  }
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+const validateVersionEntries = (
+  raw: unknown,
+  path: string,
+  issues: IssueList,
+): Record<string, VersionDetails> => {
+  const map: Record<string, VersionDetails> = {};
+  if (raw === undefined) return map;
+  if (!isRecord(raw)) {
+    issues.expected(path, "object", raw);
+    return map;
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    const entryPath = join(path, key);
+    // Keys are build numbers; anything else can't be matched to a PWR.
+    if (!/^\d+$/.test(key) || Number(key) <= 0) {
+      issues.add(entryPath, "key is not a build number");
+      continue;
+    }
+    if (!isRecord(value)) {
+      issues.expected(entryPath, "object", value);
+      continue;
+    }
+
+    let pwr_size: number | undefined;
+    if (value.pwr_size !== undefined) {
+      if (
+        typeof value.pwr_size === "number" &&
+        Number.isInteger(value.pwr_size) &&
+        value.pwr_size > 0
+      ) {
+        pwr_size = value.pwr_size;
+      } else {
+        issues.expected(
+          join(entryPath, "pwr_size"),
+          "positive integer",
+          value.pwr_size,
+        );
+      }
+    }
+
+    let pwr_sha256 = issues.optionalString(value, "pwr_sha256", entryPath);
+    if (pwr_sha256 && !/^[0-9a-f]{64}$/i.test(pwr_sha256)) {
+      issues.add(join(entryPath, "pwr_sha256"), "not a sha256 hex digest");
+      pwr_sha256 = undefined;
+    }
+
+    let url = issues.optionalString(value, "url", entryPath);
+    if (url && !isHttpUrl(url)) {
+      issues.add(join(entryPath, "url"), "not an http(s) URL");
+      url = undefined;
+    }
+
+    map[key] = {
+      name: issues.optionalString(value, "name", entryPath) ?? "",
+      url,
+      original: issues.optionalString(value, "original", entryPath),
+      hash: issues.optionalString(value, "hash", entryPath),
+      patch_note: issues.optionalString(value, "patch_note", entryPath),
+      pwr_size,
+      pwr_sha256,
+    };
+  }
+  return map;
+};
+
+export const validateVersionDetails = (
+  raw: unknown,
+): SchemaResult<VersionDetailsRoot> => {
+  const issues = new IssueList();
+  if (!isRecord(raw)) {
+    issues.expected("", "object", raw);
+    return { ok: false, issues: issues.issues };
+  }
+  if (!isRecord(raw.versions) && !isRecord(raw.pre_releases)) {
+    issues.add("", "neither versions nor pre_releases is present");
+    return { ok: false, issues: issues.issues };
+  }
+
+  const latestId = (key: string) => {
+    const value = raw[key];
+    if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+      return value;
+    }
+    if (value !== undefined) issues.expected(key, "positive integer", value);
+    return 0;
+  };
+
+  const value: VersionDetailsRoot = {
+    last_updated: issues.optionalString(raw, "last_updated", "") ?? "",
+    latest_release_id: latestId("latest_release_id"),
+    latest_prerelease_id: latestId("latest_prerelease_id"),
+    versions: validateVersionEntries(raw.versions, "versions", issues),
+    pre_releases: validateVersionEntries(
+      raw.pre_releases,
+      "pre_releases",
+      issues,
+    ),
+  };
+  return { ok: true, value, issues: issues.issues };
+};
+
+const validateJreAsset = (
+  raw: unknown,
+  path: string,
+  issues: IssueList,
+): JreAsset | null => {
+  if (!isRecord(raw)) {
+    issues.expected(path, "object", raw);
+    return null;
+  }
+  const url = raw.url;
+  const sha256 = raw.sha256;
+  let ok = true;
+  if (typeof url !== "string" || !isHttpUrl(url)) {
+    issues.expected(join(path, "url"), "http(s) URL", url);
+    ok = false;
+  }
+  if (typeof sha256 !== "string" || !/^[0-9a-f]{64}$/i.test(sha256)) {
+    issues.expected(join(path, "sha256"), "sha256 hex digest", sha256);
+    ok = false;
+  }
+  return ok ? { url: url as string, sha256: sha256 as string } : null;
+};
+
+/**
+ * Every platform asset needs a URL and a hash, otherwise its download can't be verified.
+ * The manifest is usable as long as at least one platform is.
+ */
+export const validateJreManifest = (
+  raw: unknown,
+): SchemaResult<JreManifest> => {
+  const issues = new IssueList();
+  if (!isRecord(raw)) {
+    issues.expected("", "object", raw);
+    return { ok: false, issues: issues.issues };
+  }
+
+  const version = typeof raw.version === "string" ? raw.version : "";
+  if (!version) issues.expected("version", "string", raw.version);
+
+  const downloads = isRecord(raw.download_url) ? raw.download_url : null;
+  if (!downloads) issues.expected("download_url", "object", raw.download_url);
+
+  const asset = (os: string, arch: string) => {
+    const osEntry = downloads?.[os];
+    if (!isRecord(osEntry)) {
+      issues.expected(join("download_url", os), "object", osEntry);
+      return null;
+    }
+    return validateJreAsset(
+      osEntry[arch],
+      `download_url.${os}.${arch}`,
+      issues,
+    );
+  };
+
+  const linux = asset("linux", "amd64");
+  const darwin = asset("darwin", "arm64");
+  const windows = asset("windows", "amd64");
+
+  if (!version || (!linux && !darwin && !windows)) {
+    return { ok: false, issues: issues.issues };
+  }
+  return {
+    ok: true,
+    value: {
+      version,
+      download_url: {
+        linux: linux ? { amd64: linux } : undefined,
+        darwin: darwin ? { arm64: darwin } : undefined,
+        windows: windows ? { amd64: windows } : undefined,
+      },
+    },
+    issues: issues.issues,
+  };
+};
+
+export const validateNewsFeed = (raw: unknown): SchemaResult<NewsFeed> => {
+  const issues = new IssueList();
+  if (!isRecord(raw)) {
+    issues.expected("", "object", raw);
+    return { ok: false, issues: issues.issues };
+  }
+  if (!Array.isArray(raw.items)) {
+    issues.expected("items", "array", raw.items);
+    return { ok: false, issues: issues.issues };
+  }
+
+  const items: NewsItem[] = [];
+  raw.items.forEach((item: unknown, i: number) => {
+    const path = `items.${i}`;
+    if (!isRecord(item)) {
+      issues.expected(path, "object", item);
+      return;
+    }
+    if (typeof item.title !== "string" || typeof item.content !== "string") {
+      issues.add(path, "title and content must be strings");
+      return;
+    }
+    let url = issues.optionalString(item, "url", path);
+    if (url && !isHttpUrl(url)) {
+      issues.add(join(path, "url"), "not an http(s) URL");
+      url = undefined;
+    }
+    items.push({
+      title: item.title,
+      content: item.content,
+      url,
+      date: issues.optionalString(item, "date", path),
+    });
+  });
+
+  const version =
+    typeof raw.version === "number" && Number.isInteger(raw.version)
+      ? raw.version
+      : 1;
+  return { ok: true, value: { version, items }, issues: issues.issues };
+};
+
+const MAX_LOGGED_ISSUES = 20;
+
+// One warning per feed, listing where it deviates from the schema.
+export const logSchemaIssues = (feed: string, issues: SchemaIssue[]) => {
+  if (!issues.length) return;
+  const shown = issues
+    .slice(0, MAX_LOGGED_ISSUES)
+    .map((issue) => `${issue.path}: ${issue.message}`);
+  if (issues.length > MAX_LOGGED_ISSUES) {
+    shown.push(`... and ${issues.length - MAX_LOGGED_ISSUES} more`);
+  }
+  logger.warn(
+    `Schema check for ${feed} found ${issues.length} issue(s):\n  ${shown.join("\n  ")}`,
+  );
+};
@@ -0,0 +1,343 @@
+import fs from "node:fs";
+import path from "node:path";
+import * as tar from "tar";
+import { logger } from "../logger";
+import type { InstallEventTarget } from "./eventTarget";
+import { resolveBuildInstallDir } from "./libraries";
+import {
+  BROKEN_MARKER_FILENAME,
+  readInstallManifest,
+  writeInstallManifest,
+} from "./manifest";
+import { isOnlinePatchActive } from "./onlinePatch";
+import {
+  migrateLegacyChannelInstallIfNeeded,
+  resolveClientPath,
+  resolveExistingInstallDir,
+  resolveInstallDir,
+} from "./paths";
+import { isAnyBuildRunning } from "./runState";
+
+// Archive layout: bundle.json at the root, then build/, and optionally jre/ and UserData/.
+const BUNDLE_INFO_FILENAME = "bundle.json";
+const BUNDLE_FORMAT = 1;
+const BUILD_ENTRY = "build";
+const JRE_ENTRY = "jre";
+const USER_DATA_ENTRY = "UserData";
+
+// Launcher scratch files that must not travel with a build.
+const EXPORT_EXCLUDES = new Set([
+  "staging-temp",
+  ".butter-online-patch",
+  BROKEN_MARKER_FILENAME,
+]);
+
+type BundleBuildRef = Pick<GameVersion, "type" | "build_index" | "build_name">;
+
+const countFiles = (dir: string): number => {
+  if (!fs.existsSync(dir)) return 0;
+  let count = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (EXPORT_EXCLUDES.has(entry.name)) continue;
+    if (entry.isDirectory()) count += countFiles(path.join(dir, entry.name));
+    else count++;
+  }
+  return count;
+};
+
+const isValidInfo = (info: Partial<BundleInfo> | null): info is BundleInfo =>
+  !!info &&
+  info.format === BUNDLE_FORMAT &&
+  (info.build?.type === "release" || info.build?.type === "pre-release") &&
+  Number.isInteger(info.build?.build_index) &&
+  (info.build?.build_index ?? 0) > 0;
+
+/**
+ * Writes one build (and optionally the shared JRE and UserData) into a gzipped tar at `outPath`.
+ * Symlinked entries are followed so the archive is self-contained.
+ */
+export const exportBundle = async (
+  gameDir: string,
+  build: BundleBuildRef,
+  outPath: string,
+  options: { includeJre: boolean; includeUserData: boolean },
+  win: InstallEventTarget,
+): Promise<{ ok: boolean; error: string | null }> => {
+  const stagingDir = path.join(gameDir, `bundle-export-temp-${Date.now()}`);
+
+  try {
+    migrateLegacyChannelInstallIfNeeded(gameDir, build.type);
+    const installDir = resolveBuildInstallDir(gameDir, {
+      ...build,
+      url: "",
+    } as GameVersion);
+    const manifest = readInstallManifest(installDir);
+    if (manifest?.build_index !== build.build_index) {
+      throw new Error("This build is not installed.");
+    }
+    if (isOnlinePatchActive(installDir)) {
+      throw new Error("Disable the online patch before exporting this build.");
+    }
+
+    const jreDir = path.join(gameDir, JRE_ENTRY);
+    const userDataDir = path.join(gameDir, USER_DATA_ENTRY);
+    const includeJre = options.includeJre && fs.existsSync(jreDir);
+    const includeUserData =
+      options.includeUserData && fs.existsSync(userDataDir);
+
+    const info: BundleInfo = {
+      format: BUNDLE_FORMAT,
+      platform: process.platform,
+      build: {
+        type: build.type,
+        build_index: build.build_index,
+        build_name: manifest.build_name ?? build.build_name,
+      },
+      includes: { jre: includeJre, userData: includeUserData },
+      file_count:
+        countFiles(installDir) +
+        (includeJre ? countFiles(jreDir) : 0) +
+        (includeUserData ? countFiles(userDataDir) : 0),
+      created_at: new Date().toISOString(),
+    };
+
+    // tar archives paths relative to one cwd, so lay the pieces out under their bundle names.
+    fs.mkdirSync(stagingDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(stagingDir, BUNDLE_INFO_FILENAME),
+      JSON.stringify(info, null, 2),
+      "utf-8",
+    );
+    const entries = [BUNDLE_INFO_FILENAME, BUILD_ENTRY];
+    fs.symlinkSync(installDir, path.join(stagingDir, BUILD_ENTRY), "junction");
+    if (includeJre) {
+      fs.symlinkSync(jreDir, path.join(stagingDir, JRE_ENTRY), "junction");
+      entries.push(JRE_ENTRY);
+    }
+    if (includeUserData) {
+      fs.symlinkSync(
+        userDataDir,
+        path.join(stagingDir, USER_DATA_ENTRY),
+        "junction",
+      );
+      entries.push(USER_DATA_ENTRY);
+    }
+
+    logger.info(
+      `Exporting ${build.type} build ${build.build_index} to ${outPath}`,
+    );
+    let written = 0;
+    win.webContents.send("install-progress", {
+      phase: "bundle-export",
+      percent: 0,
+    });
+
+    await tar.c(
+      {
+        gzip: true,
+        file: outPath,
+        cwd: stagingDir,
+        follow: true,
+        portable: true,
+        filter: (entryPath, stat) => {
+          if (EXPORT_EXCLUDES.has(path.basename(entryPath))) return false;
+          if ("isFile" in stat && stat.isFile()) {
+            written++;
+            win.webContents.send("install-progress", {
+              phase: "bundle-export",
+              percent: Math.min(
+                99,
+                Math.round((written / Math.max(1, info.file_count)) * 100),
+              ),
+              total: info.file_count,
+              current: written,
+            });
+          }
+          return true;
+        },
+      },
+      entries,
+    );
+
+    win.webContents.send("install-progress", {
+      phase: "bundle-export",
+      percent: 100,
+    });
+    logger.info(`Bundle written to ${outPath}`);
+    return { ok: true, error: null };
+  } catch (error) {
+    logger.error("Bundle export failed:", error);
+    try {
+      if (fs.existsSync(outPath)) fs.unlinkSync(outPath);
+    } catch {
+      // ignore
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { ok: false, error: message };
+  } finally {
+    try {
+      // Unlink the pointers first so nothing can ever recurse into the real folders.
+      for (const name of [BUILD_ENTRY, JRE_ENTRY, USER_DATA_ENTRY]) {
+        const link = path.join(stagingDir, name);
+        if (fs.existsSync(link) && fs.lstatSync(link).isSymbolicLink()) {
+          fs.unlinkSync(link);
+        }
+      }
+      fs.rmSync(stagingDir, { recursive: true, force: true });
+    } catch {
+      // ignore
+    }
+  }
+};
+
+// Reads bundle.json without unpacking the rest of the archive.
+export const readBundleInfo = async (
+  archivePath: string,
+): Promise<BundleInfo | null> => {
+  try {
+    let raw = "";
+    await tar.t({
+      file: archivePath,
+      filter: (entryPath) => entryPath === BUNDLE_INFO_FILENAME,
+      onReadEntry: (entry) => {
+        entry.on("data", (chunk: Buffer) => {
+          raw += chunk.toString("utf-8");
+        });
+      },
+    });
+    const info = JSON.parse(raw) as Partial<BundleInfo>;
+    return isValidInfo(info) ? info : null;
+  } catch (error) {
+    logger.warn(`Could not read bundle info from ${archivePath}:`, error);
+    return null;
+  }
+};
+
+export const getBundleVersion = (info: BundleInfo): GameVersion => ({
+  url: "",
+  type: info.build.type,
+  build_index: info.build.build_index,
+  build_name: info.build.build_name || `Build-${info.build.build_index}`,
+  isLatest: false,
+});
+
+const replaceDir = (from: string, to: string) => {
+  fs.rmSync(to, { recursive: true, force: true });
+  fs.mkdirSync(path.dirname(to), { recursive: true });
+  try {
+    fs.renameSync(from, to);
+  } catch {
+    // Cross-device fallback
+    fs.cpSync(from, to, { recursive: true });
+    fs.rmSync(from, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Unpacks a bundle into the matching release/build-N or pre-release/build-N slot.
+ * Reports through the same install-* events as a regular install.
+ */
+export const importBundle = async (
+  gameDir: string,
+  archivePath: string,
+  win: InstallEventTarget,
+): Promise<boolean> => {
+  const extractDir = path.join(gameDir, `bundle-import-temp-${Date.now()}`);
+  const info = await readBundleInfo(archivePath);
+  const version = info ? getBundleVersion(info) : null;
+
+  try {
+    if (!info || !version) throw new Error("Not a valid launcher bundle.");
+    if (info.platform !== process.platform) {
+      throw new Error(
+        `This bundle was made for ${info.platform} and can't be used on ${process.platform}.`,
+      );
+    }
+
+    // Swapping jre/ and UserData breaks a running game, which may have started since queueing.
+    if (isAnyBuildRunning()) {
+      throw new Error("Close the game before importing a bundle.");
+    }
+
+    migrateLegacyChannelInstallIfNeeded(gameDir, version.type);
+    const installDir = resolveInstallDir(gameDir, version);
+    const existingDir = resolveExistingInstallDir(gameDir, version);
+    if (
+      readInstallManifest(existingDir)?.build_index === version.build_index &&
+      fs.existsSync(resolveClientPath(existingDir))
+    ) {
+      throw new Error("This build is already installed.");
+    }
+
+    win.webContents.send("install-started");
+    logger.info(`Importing bundle ${archivePath} into ${installDir}`);
+
+    let extracted = 0;
+    fs.mkdirSync(extractDir, { recursive: true });
+    await tar.x({
+      file: archivePath,
+      cwd: extractDir,
+      filter: (_, entry) => {
+        if ("type" in entry && entry.type === "File") {
+          extracted++;
+          win.webContents.send("install-progress", {
+            phase: "bundle-import",
+            percent: Math.min(
+              99,
+              Math.round((extracted / Math.max(1, info.file_count)) * 100),
+            ),
+            total: info.file_count,
+            current: extracted,
+          });
+        }
+        return true;
+      },
+    });
+
+    const buildSource = path.join(extractDir, BUILD_ENTRY);
+    if (!fs.existsSync(resolveClientPath(buildSource))) {
+      throw new Error("The bundle does not contain a game client.");
+    }
+    replaceDir(buildSource, installDir);
+    writeInstallManifest(installDir, version);
+
+    const jreSource = path.join(extractDir, JRE_ENTRY);
+    if (info.includes.jre && fs.existsSync(jreSource)) {
+      replaceDir(jreSource, path.join(gameDir, JRE_ENTRY));
+    }
+
+    const userDataSource = path.join(extractDir, USER_DATA_ENTRY);
+    if (info.includes.userData && fs.existsSync(userDataSource)) {
+      const userDataDir = path.join(gameDir, USER_DATA_ENTRY);
+      // Keep whatever was there; the bundle's UserData wins but nothing is lost.
+      if (fs.existsSync(userDataDir)) {
+        const backupDir = `${userDataDir}.backup-${Date.now()}`;
+        logger.info(`Moving existing UserData to ${backupDir}`);
+        fs.renameSync(userDataDir, backupDir);
+      }
+      replaceDir(userDataSource, userDataDir);
+    }
+
+    win.webContents.send("install-progress", {
+      phase: "bundle-import",
+      percent: 100,
+    });
+    logger.info("Bundle import finished successfully.");
+    win.webContents.send("install-finished", version, null);
+    return true;
+  } catch (error) {
+    logger.error("Bundle import failed:", error);
+    win.webContents.send(
+      "install-error",
+      error instanceof Error ? error.message : "Unknown error",
+      { code: "unknown" },
+    );
+    return false;
+  } finally {
+    try {
+      fs.rmSync(extractDir, { recursive: true, force: true });
+    } catch {
+      // ignore
+    }
+  }
+};
@@ -1,17 +1,217 @@
 import { META_DIRECTORY } from "../const";
 import path from "node:path";
 import fs from "node:fs";
+import { spawn } from "node:child_process";
+import readline from "node:readline";
 import extract from "extract-zip";
 import { logger } from "../logger";
 
+// One parsed JSON line from butler's --json output.
+export type ButlerMessage = Record<string, unknown>;
+
+// Common shapes seen across butler commands; we handle a few variants defensively.
+// Returns a 0..100 percentage, or undefined when the message isn't progress.
+export const parseButlerProgress = (obj: ButlerMessage): number | undefined => {
+  const type = typeof obj?.type === "string" ? obj.type : "";
+  const isProgress =
+    type.toLowerCase().includes("progress") ||
+    typeof obj?.percentage === "number" ||
+    typeof obj?.percent === "number";
+
+  if (!isProgress) return undefined;
+
+  let percent: number | undefined;
+  if (typeof obj.percentage === "number") percent = obj.percentage;
+  else if (typeof obj.percent === "number") percent = obj.percent;
+  else if (typeof obj.progress === "number") percent = obj.progress;
+
+  if (typeof percent !== "number" || Number.isNaN(percent)) return undefined;
+  // Normalize 0..1 to 0..100
+  if (percent > 0 && percent <= 1) percent = percent * 100;
+  return Math.round(Math.max(0, Math.min(100, percent)));
+};
+
+export type ButlerResult = {
+  code: number | null;
+  // `message` of every error line butler printed, in order.
+  errors: string[];
+};
+
+export class ButlerError extends Error {
+  command: string;
+  exitCode: number | null;
+  butlerErrors: string[];
+
+  constructor(
+    command: string,
+    exitCode: number | null,
+    butlerErrors: string[],
+  ) {
+    const last = butlerErrors[butlerErrors.length - 1];
+    super(
+      last
+        ? `Butler ${command} failed: ${last}`
+        : `Butler ${command} failed with exit code ${exitCode}`,
+    );
+    this.name = "ButlerError";
+    this.command = command;
+    this.exitCode = exitCode;
+    this.butlerErrors = butlerErrors;
+  }
+}
+
+export class ButlerCancelledError extends Error {
+  constructor(command: string) {
+    super(`Butler ${command} cancelled`);
+    this.name = "ButlerCancelledError";
+  }
+}
+
+export const isButlerCancelled = (
+  error: unknown,
+): error is ButlerCancelledError => error instanceof ButlerCancelledError;
+
+const getButlerErrorMessage = (obj: ButlerMessage): string | undefined => {
+  if (typeof obj.message !== "string") return undefined;
+  if (obj.type === "error") return obj.message;
+  if (obj.type === "log" && obj.level === "error") return obj.message;
+  return undefined;
+};
+
+/**
+ * Runs butler and streams its JSON lines to `onMessage`.
+ * Resolves with the exit code and any error lines; rejects when the process can't be started,
+ * or with a ButlerCancelledError once `signal` aborts (the process is killed).
+ */
+export const runButler = (
+  butlerPath: string,
+  args: string[],
+  onMessage?: (obj: ButlerMessage) => void,
+  signal?: AbortSignal,
+) =>
+  new Promise<ButlerResult>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ButlerCancelledError(args[0]));
+      return;
+    }
+    const errors: string[] = [];
+    const butlerProcess = spawn(butlerPath, args, {
+      windowsHide: true,
+    }).on("error", (error) => {
+      logger.error(
+        "Butler process failed to start or encountered a critical error:",
+        error,
+      );
+      reject(error);
+    });
+
+    const rl = readline.createInterface({
+      input: butlerProcess.stdout,
+      crlfDelay: Infinity,
+    });
+    rl.on("line", (line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+
+      let obj: ButlerMessage;
+      try {
+        obj = JSON.parse(trimmed);
+      } catch {
+        // Not JSON, ignore
+        return;
+      }
+      const errorMessage = getButlerErrorMessage(obj);
+      if (errorMessage) {
+        logger.error(`Butler error: ${errorMessage}`);
+        errors.push(errorMessage);
+      }
+      onMessage?.(obj);
+    });
+
+    butlerProcess.stderr.on("data", (data) => {
+      logger.error(`Butler stderr: ${data.toString().trim()}`);
+    });
+
+    const onAbort = () => {
+      logger.info(`Cancelling butler ${args[0]}`);
+      butlerProcess.kill();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    butlerProcess.on("close", (code) => {
+      rl.close();
+      signal?.removeEventListener("abort", onAbort);
+      logger.info(`Butler ${args[0]} exited with code ${code}`);
+      if (signal?.aborted) reject(new ButlerCancelledError(args[0]));
+      else resolve({ code, errors });
+    });
+  });
+
+// Same as runButler, but a non-zero exit becomes a ButlerError.
+export const runButlerOrThrow = async (
+  butlerPath: string,
+  args: string[],
+  onMessage?: (obj: ButlerMessage) => void,
+  signal?: AbortSignal,
+) => {
+  const result = await runButler(butlerPath, args, onMessage, signal);
+  if (result.code !== 0) {
+    throw new ButlerError(args[0], result.code, result.errors);
+  }
+  return result;
+};
+
+const getButlerDir = () => path.join(META_DIRECTORY, "tools", "butler");
+
+const getButlerBinPath = () =>
+  path.join(
+    getButlerDir(),
+    process.platform === "win32" ? "butler.exe" : "butler",
+  );
+
+// Path of an already installed butler, without going to the network.
+export const getInstalledButlerPath = () => {
+  const binPath = getButlerBinPath();
+  return fs.existsSync(binPath) ? binPath : null;
+};
+
+/**
+ * Installs butler from a local file instead of broth.itch.zone, for machines without internet.
+ * Accepts either the butler executable itself or the zip archive itch publishes.
+ */
+export const installButlerFromFile = async (sourcePath: string) => {
+  const butlerPath = getButlerDir();
+  const binPath = getButlerBinPath();
+
+  try {
+    if (!fs.existsSync(sourcePath)) throw new Error("File not found");
+    fs.mkdirSync(butlerPath, { recursive: true });
+
+    if (sourcePath.toLowerCase().endsWith(".zip")) {
+      logger.info(`Extracting Butler from ${sourcePath} to ${butlerPath}...`);
+      await extract(sourcePath, { dir: butlerPath });
+    } else {
+      logger.info(`Copying Butler from ${sourcePath} to ${binPath}`);
+      fs.copyFileSync(sourcePath, binPath);
+    }
+
+    if (!fs.existsSync(binPath)) {
+      throw new Error("Archive does not contain a butler executable");
+    }
+    if (process.platform !== "win32") fs.chmodSync(binPath, 0o755);
+
+    return binPath;
+  } catch (error) {
+    logger.error("Failed to install Butler from file:", error);
+    return null;
+  }
+};
+
 export const installButler = async () => {
   logger.info("Checking for Butler tool...");
-  const butlerPath = path.join(META_DIRECTORY, "tools", "butler");
+  const butlerPath = getButlerDir();
   const zipPath = path.join(butlerPath, "butler.zip");
-  const binPath = path.join(
-    butlerPath,
-    process.platform === "win32" ? "butler.exe" : "butler",
-  );
+  const binPath = getButlerBinPath();
 
   try {
     if (!fs.existsSync(butlerPath)) {
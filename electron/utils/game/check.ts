@@ -1,6 +1,7 @@
 import fs from "fs";
 import path from "path";
-import { migrateLegacyChannelInstallIfNeeded, resolveClientPath, resolveExistingInstallDir, resolveServerPath } from "./paths";
+import { resolveBuildInstallDir } from "./libraries";
+import { migrateLegacyChannelInstallIfNeeded, resolveClientPath, resolveServerPath } from "./paths";
 
 export function checkGameInstallation(gameDir: string, version: GameVersion) {
   const os = process.platform;
@@ -9,7 +10,7 @@ export function checkGameInstallation(gameDir: string, version: GameVersion) {
   // Best-effort migration for legacy installs that were written to game/<type>/Client.
   migrateLegacyChannelInstallIfNeeded(gameDir, version.type);
 
-  const installDir = resolveExistingInstallDir(gameDir, version);
+  const installDir = resolveBuildInstallDir(gameDir, version);
   const clientPath = resolveClientPath(installDir);
   const serverPath = resolveServerPath(installDir);
   const jrePath = path.join(gameDir, "jre", "bin", jreName);
@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import path from "node:path";
+import { logger } from "../logger";
+
+// A PWR is compressed; the applied build is usually around 2-3x bigger.
+const PWR_EXPANSION_FACTOR = 3;
+// JRE archives extract to roughly 3x their size, and the archive stays on disk during extraction.
+const JRE_EXPANSION_FACTOR = 3;
+// Butler writes changed files into staging-temp before moving them into place.
+const STAGING_HEADROOM = 0.1;
+// Keep a little slack so the OS and the game's own files aren't left with zero bytes.
+const SAFETY_MARGIN_BYTES = 256 * 1024 * 1024;
+
+export class InsufficientDiskSpaceError extends Error {
+  requiredBytes: number;
+  availableBytes: number;
+
+  constructor(requiredBytes: number, availableBytes: number) {
+    super(
+      `Not enough disk space (needs ${requiredBytes} bytes, have ${availableBytes} bytes)`,
+    );
+    this.name = "InsufficientDiskSpaceError";
+    this.requiredBytes = requiredBytes;
+    this.availableBytes = availableBytes;
+  }
+}
+
+// Free bytes on the filesystem holding `dir` (or its nearest existing parent), or null if unknown.
+export const getFreeDiskSpace = async (dir: string): Promise<number | null> => {
+  let target = path.resolve(dir);
+  while (!fs.existsSync(target)) {
+    const parent = path.dirname(target);
+    if (parent === target) return null;
+    target = parent;
+  }
+
+  try {
+    const stats = await fs.promises.statfs(target);
+    return Number(stats.bavail) * Number(stats.bsize);
+  } catch (error) {
+    logger.warn(`Could not read free disk space for ${target}:`, error);
+    return null;
+  }
+};
+
+export type InstallSpaceEstimate = {
+  pwrBytes?: number;
+  // Size of a comparable installed build, when one exists; better than guessing from the PWR.
+  knownBuildBytes?: number;
+  jreArchiveBytes?: number;
+};
+
+// Returns undefined when nothing useful is known about the download sizes.
+export const estimateRequiredSpace = ({
+  pwrBytes,
+  knownBuildBytes,
+  jreArchiveBytes,
+}: InstallSpaceEstimate): number | undefined => {
+  let required = 0;
+  let known = false;
+
+  if (typeof pwrBytes === "number") {
+    const buildBytes = knownBuildBytes ?? pwrBytes * PWR_EXPANSION_FACTOR;
+    required += pwrBytes + buildBytes + buildBytes * STAGING_HEADROOM;
+    known = true;
+  }
+  if (typeof jreArchiveBytes === "number") {
+    required += jreArchiveBytes * (1 + JRE_EXPANSION_FACTOR);
+    known = true;
+  }
+
+  return known ? Math.ceil(required + SAFETY_MARGIN_BYTES) : undefined;
+};
+
+/**
+ * Throws InsufficientDiskSpaceError when `dir`'s volume can't hold `requiredBytes`.
+ * Unknown free space is not treated as a failure.
+ */
+export const ensureDiskSpace = async (dir: string, requiredBytes: number) => {
+  const available = await getFreeDiskSpace(dir);
+  if (available === null) return;
+
+  logger.info(
+    `Disk space check for ${dir}: need ~${requiredBytes} bytes, ${available} bytes free`,
+  );
+  if (available < requiredBytes) {
+    throw new InsufficientDiskSpaceError(requiredBytes, available);
+  }
+};
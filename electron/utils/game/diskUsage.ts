@@ -0,0 +1,27 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// Total size of regular files under `dir`. Symlinks are not followed; unreadable entries count as 0.
+export const getDirectorySize = async (dir: string): Promise<number> => {
+  let total = 0;
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await getDirectorySize(entryPath);
+    } else if (entry.isFile()) {
+      try {
+        total += (await fs.promises.stat(entryPath)).size;
+      } catch {
+        // ignore
+      }
+    }
+  }
+  return total;
+};
@@ -0,0 +1,26 @@
+import type { RendererEventTarget } from "../ipc";
+
+// Anything install helpers can report to: a BrowserWindow, or a wrapper that tags events.
+export type InstallEventTarget = RendererEventTarget;
+
+type ProgressChannel = {
+  [C in IpcEventChannel]: IpcEventChannels[C] extends [InstallProgress]
+    ? C
+    : never;
+}[IpcEventChannel];
+
+// Reroutes "install-progress" to `channel` so a side task doesn't drive the install progress bar.
+export const withProgressChannel = (
+  win: InstallEventTarget,
+  channel: ProgressChannel,
+): InstallEventTarget => ({
+  webContents: {
+    send: (event, ...args) => {
+      // Progress channels share the payload type, so only the name changes.
+      const target = (
+        event === "install-progress" ? channel : event
+      ) as typeof event;
+      win.webContents.send(target, ...args);
+    },
+  },
+});
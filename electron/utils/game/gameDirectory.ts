@@ -0,0 +1,159 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { logger } from "../logger";
+
+const SETTINGS_FILENAME = "game-directory.json";
+
+export const normalizePath = (p: string) => {
+  const resolved = path.resolve(p);
+  return process.platform === "win32" ? resolved.toLowerCase() : resolved;
+};
+
+export const isPathInside = (root: string, target: string) => {
+  const relative = path.relative(normalizePath(root), normalizePath(target));
+  return (
+    relative === "" ||
+    (!relative.startsWith("..") && !path.isAbsolute(relative))
+  );
+};
+
+// Where the game goes when the user hasn't picked a directory.
+export const getDefaultGameDirectory = () => {
+  try {
+    if (process.platform === "linux") {
+      const xdgBase =
+        process.env["XDG_DATA_HOME"] &&
+        path.isAbsolute(process.env["XDG_DATA_HOME"]!)
+          ? process.env["XDG_DATA_HOME"]!
+          : path.join(os.homedir(), ".local", "share");
+      const newPath = path.join(xdgBase, "butter-launcher", "Hytale");
+      const legacyPath = path.join(META_DIRECTORY, "Hytale");
+      if (fs.existsSync(legacyPath) && !fs.existsSync(newPath))
+        return legacyPath;
+      return newPath;
+    }
+  } catch {
+    // fall back to the shared location
+  }
+  return path.join(META_DIRECTORY, "Hytale");
+};
+
+const getSettingsPath = () => path.join(META_DIRECTORY, SETTINGS_FILENAME);
+
+// undefined = not read yet; null = no custom directory.
+let configured: string | null | undefined;
+// Set while files are being moved to a new directory; game requests are refused meanwhile.
+let moving = false;
+
+export const setGameDirectoryMoving = (value: boolean) => {
+  moving = value;
+};
+
+export const isGameDirectoryMoving = () => moving;
+
+const readConfiguredDirectory = (): string | null => {
+  try {
+    const filePath = getSettingsPath();
+    if (!fs.existsSync(filePath)) return null;
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    const dir = raw?.path;
+    return typeof dir === "string" && path.isAbsolute(dir) ? dir : null;
+  } catch (error) {
+    logger.warn("Could not read the game directory setting:", error);
+    return null;
+  }
+};
+
+// The main process decides where the game lives; the renderer only ever echoes it back.
+export const getGameDirectory = () => {
+  if (configured === undefined) configured = readConfiguredDirectory();
+  return configured ?? getDefaultGameDirectory();
+};
+
+export const getGameDirectoryInfo = (): GameDirectoryInfo => {
+  const current = getGameDirectory();
+  const defaultPath = getDefaultGameDirectory();
+  return {
+    path: current,
+    defaultPath,
+    isDefault: normalizePath(current) === normalizePath(defaultPath),
+  };
+};
+
+// `null` goes back to the default location.
+export const writeGameDirectorySetting = (dir: string | null) => {
+  const value =
+    dir && normalizePath(dir) !== normalizePath(getDefaultGameDirectory())
+      ? path.resolve(dir)
+      : null;
+  fs.mkdirSync(META_DIRECTORY, { recursive: true });
+  fs.writeFileSync(
+    getSettingsPath(),
+    JSON.stringify({ path: value }, null, 2),
+    "utf-8",
+  );
+  configured = value;
+};
+
+// Symlinks inside the library must not lead out of it; check the real path of what exists.
+const realPathOfExisting = (target: string) => {
+  let current = path.resolve(target);
+  while (!fs.existsSync(current)) {
+    const parent = path.dirname(current);
+    if (parent === current) return current;
+    current = parent;
+  }
+  try {
+    return path.join(
+      fs.realpathSync(current),
+      path.relative(current, path.resolve(target)),
+    );
+  } catch {
+    return path.resolve(target);
+  }
+};
+
+/**
+ * Checks a game directory sent by the renderer against the canonical one and returns the
+ * canonical path, or null (logged) if it's anything else.
+ */
+export const resolveGameDir = (input: unknown, channel: string) => {
+  if (moving) {
+    logger.warn(`Rejected ${channel} request: game directory is being moved`);
+    return null;
+  }
+  const gameDir = getGameDirectory();
+  if (
+    typeof input === "string" &&
+    path.isAbsolute(input) &&
+    normalizePath(input) === normalizePath(gameDir)
+  ) {
+    return gameDir;
+  }
+  logger.warn(`Rejected ${channel} request: unexpected game directory`, input);
+  return null;
+};
+
+/**
+ * Resolves a path sent by the renderer that must stay inside the game directory.
+ * Returns null (logged) for anything that points elsewhere.
+ */
+export const resolvePathInGameDir = (input: unknown, channel: string) => {
+  if (typeof input === "string" && input && path.isAbsolute(input)) {
+    const gameDir = getGameDirectory();
+    const target = path.resolve(input);
+    if (
+      isPathInside(gameDir, target) &&
+      isPathInside(realPathOfExisting(gameDir), realPathOfExisting(target))
+    ) {
+      return target;
+    }
+  }
+  logger.warn(
+    `Rejected ${channel} request: path outside the game directory`,
+    input,
+  );
+  return null;
+};
@@ -1,26 +1,64 @@
-import { BrowserWindow } from "electron";
 import fs from "fs";
 import path from "path";
-import { promisify } from "util";
-import stream from "stream";
-import { spawn } from "child_process";
-import readline from "node:readline";
-import { installButler } from "./butler";
-import { installJRE } from "./jre";
+import { pathToFileURL } from "url";
+import {
+  ButlerError,
+  getInstalledButlerPath,
+  installButler,
+  installButlerFromFile,
+  isButlerCancelled,
+  parseButlerProgress,
+  runButlerOrThrow,
+} from "./butler";
+import { installJRE, installJREFromArchive } from "./jre";
 import { checkGameInstallation } from "./check";
-import { readInstallManifest, writeInstallManifest } from "./manifest";
+import {
+  BROKEN_MARKER_FILENAME,
+  INSTALLED_MANIFEST_FILENAME,
+  isBrokenInstallKept,
+  isInstallMarkedBroken,
+  markInstallBroken,
+  readInstallManifest,
+  writeInstallManifest,
+} from "./manifest";
+import { listInstalledVersions } from "./installed";
+import {
+  findBuildLibrary,
+  PRIMARY_LIBRARY_ID,
+  resolveBuildInstallDir,
+} from "./libraries";
+import { isOnlinePatchActive } from "./onlinePatch";
+import { getDirectorySize } from "./diskUsage";
+import {
+  ensureDiskSpace,
+  estimateRequiredSpace,
+  InsufficientDiskSpaceError,
+} from "./diskSpace";
 import { logger } from "../logger";
+import type { InstallEventTarget } from "./eventTarget";
+import {
+  downloadFile,
+  fetchContentLength,
+  isDownloadCancelled,
+  removePartialDownload,
+} from "../download";
+import {
+  checkPwrIntegrity,
+  hasPwrMagic,
+  PwrIntegrityError,
+} from "./pwrIntegrity";
+import { getCachedPwr, removeCachedPwr, storePwrInCache } from "./pwrCache";
 
 import {
   getLatestDir,
   getReleaseBuildDir,
   migrateLegacyChannelInstallIfNeeded,
   resolveClientPath,
+  resolveExistingInstallDir,
   resolveInstallDir,
+  resolveServerPath,
 } from "./paths";
 
-const pipeline = promisify(stream.pipeline);
-
 const ensureExecutable = (filePath: string) => {
   if (process.platform === "win32") return;
   try {
@@ -44,86 +82,130 @@ const ensureClientExecutable = (installDir: string) => {
 
 // manifest helpers live in ./manifest
 
-const downloadPWR = async (
+// Incremental patches live next to the full ones: <type>/<from>/<to>.pwr instead of <type>/0/<to>.pwr.
+const buildDeltaPwrUrl = (fullUrl: string, fromBuild: number) =>
+  fullUrl.replace(/\/0\/(\d+)\.pwr$/, `/${fromBuild}/$1.pwr`);
+
+// Files that belong to the launcher, not to the build, and must not be carried into a delta base.
+const DELTA_COPY_EXCLUDES = new Set([
+  "staging-temp",
+  ".butter-online-patch",
+  INSTALLED_MANIFEST_FILENAME,
+  BROKEN_MARKER_FILENAME,
+]);
+
+// A corrupt PWR is thrown away and fetched again from scratch this many times.
+const PWR_INTEGRITY_ATTEMPTS = 3;
+
+// Tasks outside the install queue (verify, repair) download under their own name and signal.
+type PwrDownloadOptions = {
+  tempPrefix?: string;
+  signal?: AbortSignal;
+  // Disk space is checked here, once the download knows the PWR's size.
+  onSize?: (pwrBytes: number | undefined) => Promise<void>;
+};
+
+export const downloadPWR = async (
   gameDir: string,
   version: GameVersion,
-  win: BrowserWindow,
+  win: InstallEventTarget,
+  fromBuild: number = 0,
+  { tempPrefix = "temp", signal, onSize }: PwrDownloadOptions = {},
 ) => {
-  const tempPWRPath = path.join(gameDir, `temp_${version.build_index}.pwr`);
-
-  try {
-    logger.info(
-      `Starting PWR download for version ${version.build_name} from ${version.url}`,
-    );
-    const response = await fetch(version.url);
-    if (!response.ok)
-      throw new Error(`Failed to download: ${response.statusText}`);
-    if (!response.body) throw new Error("No response body");
-
-    const contentLength = response.headers.get("content-length");
-    const totalLength = contentLength ? parseInt(contentLength, 10) : undefined;
-    let downloadedLength = 0;
+  const isDelta = fromBuild > 0;
+  const url = isDelta ? buildDeltaPwrUrl(version.url, fromBuild) : version.url;
+  const phase = isDelta ? "delta-download" : "pwr-download";
+  const tempPWRPath = path.join(
+    gameDir,
+    isDelta
+      ? `${tempPrefix}_${fromBuild}_${version.build_index}.pwr`
+      : `${tempPrefix}_${version.build_index}.pwr`,
+  );
 
-    logger.info(
-      `PWR size: ${totalLength ? (totalLength / 1024 / 1024).toFixed(2) + " MB" : "unknown"}`,
-    );
+  // The feed only describes full patches; deltas rely on content-length and the header.
+  const expectedSize = isDelta ? undefined : version.pwr_size;
+  const expectedHash = isDelta ? undefined : version.pwr_sha256;
 
-    // Emit a start event so UI doesn't show 0/0.
-    win.webContents.send("install-progress", {
-      phase: "pwr-download",
-      percent: totalLength ? 0 : -1,
-      total: totalLength,
-      current: 0,
-    });
+  try {
+    for (let attempt = 1; ; attempt++) {
+      logger.info(
+        `Starting ${isDelta ? "delta " : ""}PWR download for version ${version.build_name} from ${url}`,
+      );
+      const result = await downloadFile(
+        url,
+        tempPWRPath,
+        (current, total) => {
+          const percent =
+            typeof total === "number" && total > 0
+              ? Math.round((current / total) * 100)
+              : -1;
 
-    const progressStream = new stream.PassThrough();
-    progressStream.on("data", (chunk) => {
-      downloadedLength += chunk.length;
+          win.webContents.send("install-progress", {
+            phase,
+            percent,
+            total,
+            current,
+          });
+        },
+        { signal, onSize },
+      );
 
-      const percent =
-        typeof totalLength === "number" && totalLength > 0
-          ? Math.round((downloadedLength / totalLength) * 100)
-          : -1;
+      logger.info(`PWR download completed: ${tempPWRPath}`);
 
       win.webContents.send("install-progress", {
-        phase: "pwr-download",
-        percent,
-        total: totalLength,
-        current: downloadedLength,
+        phase,
+        percent: 100,
+        total: result.total,
+        current: result.downloaded,
       });
-    });
-
-    await pipeline(
-      // @ts-ignore
-      stream.Readable.fromWeb(response.body),
-      progressStream,
-      fs.createWriteStream(tempPWRPath),
-    );
 
-    logger.info(`PWR download completed: ${tempPWRPath}`);
-
-    win.webContents.send("install-progress", {
-      phase: "pwr-download",
-      percent: 100,
-      total: totalLength,
-      current: downloadedLength,
-    });
+      let lastPercent = -1;
+      const problem = await checkPwrIntegrity(
+        tempPWRPath,
+        { size: expectedSize ?? result.total, sha256: expectedHash },
+        (current, total) => {
+          const percent = Math.round((current / total) * 100);
+          if (percent === lastPercent) return;
+          lastPercent = percent;
+          win.webContents.send("install-progress", {
+            phase: "pwr-verify",
+            percent,
+          });
+        },
+      );
+      if (!problem) return tempPWRPath;
 
-    return tempPWRPath;
+      removePartialDownload(tempPWRPath);
+      if (attempt >= PWR_INTEGRITY_ATTEMPTS)
+        throw new PwrIntegrityError(problem);
+      logger.warn(
+        `PWR integrity check failed (${problem}), retrying download (attempt ${attempt}/${PWR_INTEGRITY_ATTEMPTS})`,
+      );
+    }
   } catch (error) {
+    // Cancellation and a full disk must reach installGame so it can report them as such.
+    if (
+      isDownloadCancelled(error) ||
+      error instanceof InsufficientDiskSpaceError
+    ) {
+      throw error;
+    }
     logger.error(
       `Failed to download PWR for version ${version.build_name}:`,
       error,
     );
+    // A bad full patch is worth explaining; a bad delta just falls back to the full one.
+    if (error instanceof PwrIntegrityError && !isDelta) throw error;
     return null;
   }
 };
 
-const applyPWR = async (
+export const applyPWR = async (
   pwrPath: string,
   butlerPath: string,
   installDir: string,
-  win: BrowserWindow,
+  win: InstallEventTarget,
+  signal?: AbortSignal,
 ) => {
   logger.info(`Applying PWR patch from ${pwrPath} to ${installDir}`);
   const stagingDir = path.join(installDir, "staging-temp");
@@ -141,89 +223,398 @@ const applyPWR = async (
     percent: -1,
   });
 
-  return new Promise<string>((resolve, reject) => {
-    const butlerProcess = spawn(
-      butlerPath,
-      ["apply", "--json", "--staging-dir", stagingDir, pwrPath, installDir],
-      {
-        windowsHide: true,
-      },
-    ).on("error", (error) => {
-      logger.error(
-        "Butler process failed to start or encountered a critical error:",
-        error,
-      );
-      reject(error);
+  // Try to surface butler progress in the UI.
+  // Butler emits JSON lines when using --json; a non-zero exit throws a ButlerError.
+  await runButlerOrThrow(
+    butlerPath,
+    ["apply", "--json", "--staging-dir", stagingDir, pwrPath, installDir],
+    (obj) => {
+      const percent = parseButlerProgress(obj);
+      if (typeof percent !== "number") return;
+      win.webContents.send("install-progress", {
+        phase: "patching",
+        percent,
+      });
+    },
+    signal,
+  );
+
+  // Staging is scratch space for this apply only.
+  try {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  } catch {
+    // ignore
+  }
+
+  // Force a final UI update so it doesn't stay stuck on "Downloading...".
+  win.webContents.send("install-progress", {
+    phase: "patching",
+    percent: 100,
+  });
+
+  return installDir;
+};
+
+// A failed apply leaves a half-written tree. Remove it, or flag it when that isn't possible
+// (e.g. files locked on Windows) so it never counts as installed. A folder that existed before
+// the apply (a legacy install, a repair of an existing build) is only flagged, never removed.
+const rollbackFailedInstall = (
+  installDir: string,
+  error: unknown,
+  existedBefore: boolean,
+) => {
+  const reason = error instanceof Error ? error.message : String(error);
+  if (existedBefore) {
+    logger.warn(
+      `Apply into existing ${installDir} failed, marking it broken and keeping its files.`,
+    );
+    markInstallBroken(installDir, reason, true);
+    return;
+  }
+
+  try {
+    fs.rmSync(installDir, { recursive: true, force: true });
+    logger.info(`Rolled back failed install at ${installDir}`);
+  } catch (rmError) {
+    logger.warn(
+      `Could not remove failed install at ${installDir}, marking it broken:`,
+      rmError,
+    );
+    markInstallBroken(installDir, reason);
+  }
+};
+
+const assertBuildComplete = (installDir: string) => {
+  if (
+    !fs.existsSync(resolveClientPath(installDir)) ||
+    !fs.existsSync(resolveServerPath(installDir))
+  ) {
+    throw new Error("Client or server missing after applying the patch");
+  }
+};
+
+// Applies a full (from-empty) PWR, rolling the folder back if anything goes wrong.
+const applyFullPWR = async (
+  pwrPath: string,
+  butlerPath: string,
+  installDir: string,
+  win: InstallEventTarget,
+) => {
+  if (isInstallMarkedBroken(installDir) && !isBrokenInstallKept(installDir)) {
+    logger.info(`Clearing previously failed install at ${installDir}`);
+    fs.rmSync(installDir, { recursive: true, force: true });
+  }
+  const existedBefore = fs.existsSync(installDir);
+
+  try {
+    await applyPWR(pwrPath, butlerPath, installDir, win);
+    assertBuildComplete(installDir);
+    logger.info(`PWR patch applied successfully to ${installDir}`);
+  } catch (error) {
+    rollbackFailedInstall(installDir, error, existedBefore);
+    throw error;
+  }
+};
+
+/**
+ * Hands the full PWR for `version` to `use`, taking it from the PWR cache when possible.
+ * A fresh download is moved into the cache once `use` succeeds and deleted otherwise.
+ */
+export const withFullPWR = async <T>(
+  gameDir: string,
+  version: GameVersion,
+  win: InstallEventTarget,
+  use: (pwrPath: string) => Promise<T>,
+  downloadOptions?: PwrDownloadOptions,
+): Promise<T> => {
+  let pwrPath = getCachedPwr(version);
+  const fromCache = !!pwrPath;
+  if (pwrPath) {
+    // Cached patches were hashed when downloaded; only catch truncation or a foreign file here.
+    const problem = await checkPwrIntegrity(pwrPath, {
+      size: version.pwr_size,
     });
+    if (problem) {
+      logger.warn(
+        `Cached PWR ${pwrPath} is unusable (${problem}), dropping it.`,
+      );
+      removeCachedPwr(pwrPath);
+      pwrPath = null;
+    } else {
+      logger.info(`Using cached PWR ${pwrPath}`);
+      // Nothing to download, but the build still has to fit.
+      await downloadOptions?.onSize?.(fs.statSync(pwrPath).size);
+    }
+  }
 
-    // Try to surface butler progress in the UI.
-    // Butler emits JSON lines when using --json.
-    if (butlerProcess.stdout) {
-      const rl = readline.createInterface({
-        input: butlerProcess.stdout,
-        crlfDelay: Infinity,
-      });
-      rl.on("line", (line) => {
-        const trimmed = line.trim();
-        if (!trimmed) return;
-        try {
-          const obj = JSON.parse(trimmed);
-
-          // Common shapes seen across butler commands.
-          // We handle a few variants defensively.
-          const type = typeof obj?.type === "string" ? obj.type : "";
-          const isProgress =
-            type.toLowerCase().includes("progress") ||
-            typeof obj?.percentage === "number" ||
-            typeof obj?.percent === "number";
-
-          if (!isProgress) return;
-
-          let percent: number | undefined;
-          if (typeof obj.percentage === "number") percent = obj.percentage;
-          else if (typeof obj.percent === "number") percent = obj.percent;
-          else if (typeof obj.progress === "number") percent = obj.progress;
-
-          if (typeof percent !== "number" || Number.isNaN(percent)) return;
-          // Normalize 0..1 to 0..100
-          if (percent > 0 && percent <= 1) percent = percent * 100;
-          percent = Math.max(0, Math.min(100, percent));
+  if (!pwrPath) {
+    pwrPath = await downloadPWR(gameDir, version, win, 0, downloadOptions);
+  }
+  if (!pwrPath) throw new Error("Failed to download PWR");
 
-          win.webContents.send("install-progress", {
-            phase: "patching",
-            percent: Math.round(percent),
-          });
-        } catch {
-          // Not JSON, ignore
-        }
-      });
-      butlerProcess.on("close", () => {
-        rl.close();
-      });
+  let succeeded = false;
+  let cancelled = false;
+  try {
+    const result = await use(pwrPath);
+    succeeded = true;
+    return result;
+  } catch (error) {
+    cancelled = isButlerCancelled(error);
+    throw error;
+  } finally {
+    if (fromCache) {
+      // Don't keep offering a patch that just failed to apply; a cancelled apply proves nothing.
+      if (!succeeded && !cancelled) removeCachedPwr(pwrPath);
+    } else if (!succeeded || !storePwrInCache(version, pwrPath)) {
+      try {
+        if (fs.existsSync(pwrPath)) fs.unlinkSync(pwrPath);
+      } catch {
+        // ignore
+      }
     }
+  }
+};
 
-    butlerProcess.stderr.on("data", (data) => {
-      logger.error(`Butler stderr: ${data.toString().trim()}`);
-    });
+const installFullPWR = (
+  gameDir: string,
+  version: GameVersion,
+  butlerPath: string,
+  installDir: string,
+  win: InstallEventTarget,
+  space: BuildSpaceTarget,
+) =>
+  withFullPWR(
+    gameDir,
+    version,
+    win,
+    (pwrPath) => applyFullPWR(pwrPath, butlerPath, installDir, win),
+    { onSize: (pwrBytes) => ensureBuildSpace(space, pwrBytes) },
+  );
 
-    butlerProcess.on("close", (code) => {
-      logger.info(`Butler process exited with code ${code}`);
+const describeInstallError = (error: unknown): InstallErrorDetails => {
+  if (error instanceof InsufficientDiskSpaceError) {
+    return {
+      code: "disk-space",
+      requiredBytes: error.requiredBytes,
+      availableBytes: error.availableBytes,
+    };
+  }
+  if (error instanceof ButlerError) {
+    return {
+      code: "butler",
+      command: error.command,
+      exitCode: error.exitCode,
+      butlerErrors: error.butlerErrors,
+    };
+  }
+  return { code: "unknown" };
+};
 
-      // Force a final UI update so it doesn't stay stuck on "Downloading...".
-      win.webContents.send("install-progress", {
-        phase: "patching",
-        percent: 100,
-      });
+const reportInstallError = (
+  win: InstallEventTarget,
+  version: GameVersion,
+  error: unknown,
+) => {
+  if (isDownloadCancelled(error)) {
+    logger.info("Installation cancelled by user.");
+    win.webContents.send("install-cancelled", version);
+    return;
+  }
+
+  logger.error("Installation failed with error:", error);
+  win.webContents.send(
+    "install-error",
+    error instanceof Error ? error.message : "Unknown error",
+    describeInstallError(error),
+  );
+};
 
-      resolve(installDir);
+const findDeltaSource = (
+  gameDir: string,
+  version: GameVersion,
+  installDir: string,
+) => {
+  // Only the newest older build is worth trying; upstream publishes N -> N+1 patches.
+  const previous = listInstalledVersions(gameDir)
+    .filter(
+      (v) => v.type === version.type && v.build_index < version.build_index,
+    )
+    .sort((a, b) => b.build_index - a.build_index)[0];
+  if (!previous) return null;
+
+  const sourceDir = resolveBuildInstallDir(gameDir, {
+    ...version,
+    build_index: previous.build_index,
+    isLatest: false,
+  });
+  if (path.resolve(sourceDir) === path.resolve(installDir)) return null;
+
+  const manifest = readInstallManifest(sourceDir);
+  if (manifest?.build_index !== previous.build_index) return null;
+  if (!fs.existsSync(resolveServerPath(sourceDir))) return null;
+
+  if (isOnlinePatchActive(sourceDir)) {
+    logger.info(
+      `Build ${previous.build_index} has the online patch enabled, skipping delta update.`,
+    );
+    return null;
+  }
+
+  return { buildIndex: previous.build_index, dir: sourceDir };
+};
+
+const isMissingOrEmptyDir = (dir: string) => {
+  try {
+    return !fs.existsSync(dir) || fs.readdirSync(dir).length === 0;
+  } catch {
+    return false;
+  }
+};
+
+// Try to reach `version` from an already installed older build using the incremental PWR.
+// The older build is copied into the target slot and patched there, so it stays launchable
+// (same as retiring `latest`). Returns null whenever the caller should fall back to a full install.
+const tryDeltaInstall = async (
+  gameDir: string,
+  version: GameVersion,
+  installDir: string,
+  butlerPath: string,
+  win: InstallEventTarget,
+  space: BuildSpaceTarget,
+): Promise<DeltaInstallSummary | null> => {
+  const source = findDeltaSource(gameDir, version, installDir);
+  if (!source) return null;
+
+  // Unknown URL layout: we can't derive the incremental patch location.
+  if (buildDeltaPwrUrl(version.url, source.buildIndex) === version.url) {
+    return null;
+  }
+
+  if (!isMissingOrEmptyDir(installDir)) {
+    logger.info(
+      `Install directory ${installDir} is not empty, skipping delta update.`,
+    );
+    return null;
+  }
+
+  logger.info(
+    `Attempting delta update ${source.buildIndex} -> ${version.build_index} from ${source.dir}`,
+  );
+
+  const deltaPath = await downloadPWR(
+    gameDir,
+    version,
+    win,
+    source.buildIndex,
+    {
+      onSize: (pwrBytes) => ensureBuildSpace(space, pwrBytes),
+    },
+  );
+  if (!deltaPath) {
+    logger.warn("Delta PWR unavailable, falling back to full download.");
+    return null;
+  }
+
+  try {
+    fs.mkdirSync(path.dirname(installDir), { recursive: true });
+    fs.cpSync(source.dir, installDir, {
+      recursive: true,
+      filter: (src) => !DELTA_COPY_EXCLUDES.has(path.basename(src)),
     });
+
+    await applyPWR(deltaPath, butlerPath, installDir, win);
+    assertBuildComplete(installDir);
+
+    const deltaBytes = fs.statSync(deltaPath).size;
+    // Only ask the server when the feed doesn't already give the full PWR's size.
+    const fullBytes =
+      version.pwr_size ?? (await fetchContentLength(version.url));
+    const savedBytes =
+      typeof fullBytes === "number"
+        ? Math.max(0, fullBytes - deltaBytes)
+        : undefined;
+
+    logger.info(
+      `Delta update applied (${(deltaBytes / 1024 / 1024).toFixed(2)} MB` +
+        (typeof savedBytes === "number"
+          ? `, saved ${(savedBytes / 1024 / 1024).toFixed(2)} MB)`
+          : ")"),
+    );
+
+    return {
+      from: source.buildIndex,
+      to: version.build_index,
+      deltaBytes,
+      fullBytes,
+      savedBytes,
+    };
+  } catch (error) {
+    logger.error("Delta update failed, falling back to full download:", error);
+    // The folder was missing or empty before, so everything in it came from this attempt.
+    rollbackFailedInstall(installDir, error, false);
+    return null;
+  } finally {
+    try {
+      if (fs.existsSync(deltaPath)) fs.unlinkSync(deltaPath);
+    } catch {
+      // ignore
+    }
+  }
+};
+
+// Where a build and its download land, for disk space checks.
+export type BuildSpaceTarget = {
+  gameDir: string;
+  buildRoot: string;
+  // Size of a comparable installed build, when one exists.
+  knownBuildBytes?: number;
+};
+
+// Fails with a clear error instead of letting butler run the disk full halfway through.
+export const ensureBuildSpace = async (
+  { gameDir, buildRoot, knownBuildBytes }: BuildSpaceTarget,
+  pwrBytes: number | undefined,
+) => {
+  if (typeof pwrBytes !== "number") {
+    logger.warn("PWR size is unknown, skipping the disk space check.");
+    return;
+  }
+
+  const required = estimateRequiredSpace({ pwrBytes, knownBuildBytes });
+  if (typeof required === "number") await ensureDiskSpace(buildRoot, required);
+
+  if (buildRoot !== gameDir) {
+    // Downloads stay in the game directory when the build goes to another library.
+    const local = estimateRequiredSpace({ pwrBytes, knownBuildBytes: 0 });
+    if (typeof local === "number") await ensureDiskSpace(gameDir, local);
+  }
+};
+
+// Newest other installed build of the same type; a better size guess than expanding the PWR.
+const measureComparableBuild = async (
+  gameDir: string,
+  version: GameVersion,
+): Promise<number | undefined> => {
+  const comparable = listInstalledVersions(gameDir)
+    .filter(
+      (v) => v.type === version.type && v.build_index !== version.build_index,
+    )
+    .sort((a, b) => b.build_index - a.build_index)[0];
+  if (!comparable) return undefined;
+
+  const dir = resolveBuildInstallDir(gameDir, {
+    ...version,
+    build_index: comparable.build_index,
+    isLatest: comparable.isLatest,
   });
+  return (await getDirectorySize(dir)) || undefined;
 };
 
 export const installGame = async (
   gameDir: string,
   version: GameVersion,
-  win: BrowserWindow,
+  win: InstallEventTarget,
+  libraryDir?: string,
 ) => {
   logger.info(
     `Starting game installation for ${version.type} build ${version.build_name} in ${gameDir}`,
@@ -259,15 +650,40 @@ export const installGame = async (
       }
     }
 
-    const installDir = resolveInstallDir(gameDir, version);
+    // An installed build is updated where it is; a new one goes to the requested library.
+    // Only the game directory has a `latest` alias, see resolveBuildInstallDir.
+    const library = findBuildLibrary(gameDir, version);
+    const buildRoot = library?.path ?? libraryDir ?? gameDir;
+    const isPrimary = library
+      ? library.id === PRIMARY_LIBRARY_ID
+      : buildRoot === gameDir;
+    const installDir = resolveInstallDir(
+      buildRoot,
+      isPrimary ? version : { ...version, isLatest: false },
+    );
+    if (!isPrimary) logger.info(`Installing into library ${buildRoot}`);
 
     const { client, server, jre } = checkGameInstallation(gameDir, version);
 
     const installedManifest = readInstallManifest(installDir);
     const alreadyOnThisBuild =
       installedManifest?.build_index === version.build_index;
+    let deltaSummary: DeltaInstallSummary | null = null;
 
     fs.mkdirSync(gameDir, { recursive: true });
+    const needsPatch = !alreadyOnThisBuild || !client || !server;
+    const space: BuildSpaceTarget = {
+      gameDir,
+      buildRoot,
+      knownBuildBytes: needsPatch
+        ? await measureComparableBuild(gameDir, version)
+        : undefined,
+    };
+    // The feed may already know the PWR size, so fail before anything is downloaded.
+    // Otherwise each download checks once it knows its own size.
+    if (needsPatch && typeof version.pwr_size === "number") {
+      await ensureBuildSpace(space, version.pwr_size);
+    }
     win.webContents.send("install-started");
 
     if (!jre) {
@@ -286,21 +702,28 @@ export const installGame = async (
       const butlerPath = await installButler();
       if (!butlerPath) throw new Error("Failed to install butler");
 
-      const tempPWRPath = await downloadPWR(gameDir, version, win);
-      if (!tempPWRPath) throw new Error("Failed to download PWR");
-
-      const gameFinalDir = await applyPWR(
-        tempPWRPath,
-        butlerPath,
+      deltaSummary = await tryDeltaInstall(
+        gameDir,
+        version,
         installDir,
+        butlerPath,
         win,
+        space,
       );
-      if (!gameFinalDir) throw new Error("Failed to apply PWR");
-      logger.info(`PWR patch applied successfully to ${gameFinalDir}`);
 
-      fs.unlinkSync(tempPWRPath);
+      if (!deltaSummary) {
+        await installFullPWR(
+          gameDir,
+          version,
+          butlerPath,
+          installDir,
+          win,
+          space,
+        );
+      }
 
       // Record the installed build so future updates can detect when patching is needed.
+      // Only reached when the apply succeeded; failures were rolled back above.
       writeInstallManifest(installDir, version);
 
       // On Linux/macOS, downloaded binaries may lose the executable bit.
@@ -316,18 +739,14 @@ export const installGame = async (
         const butlerPath = await installButler();
         if (!butlerPath) throw new Error("Failed to install butler");
 
-        const tempPWRPath = await downloadPWR(gameDir, version, win);
-        if (!tempPWRPath) throw new Error("Failed to download PWR");
-
-        const gameFinalDir = await applyPWR(
-          tempPWRPath,
+        await installFullPWR(
+          gameDir,
+          version,
           butlerPath,
           installDir,
           win,
+          space,
         );
-        if (!gameFinalDir) throw new Error("Failed to apply PWR");
-        logger.info(`PWR patch re-applied successfully to ${gameFinalDir}`);
-        fs.unlinkSync(tempPWRPath);
 
         writeInstallManifest(installDir, version);
 
@@ -340,14 +759,129 @@ export const installGame = async (
 
     logger.info("Game installation process finished successfully.");
 
-    win.webContents.send("install-finished", version);
+    win.webContents.send("install-finished", version, deltaSummary);
     return true;
   } catch (error) {
-    logger.error("Installation failed with error:", error);
-    win.webContents.send(
-      "install-error",
-      error instanceof Error ? error.message : "Unknown error",
-    );
+    reportInstallError(win, version, error);
+    return false;
+  }
+};
+
+// "<type>/0/<build>.pwr" as laid out on the patch server, or at least "<build>.pwr" / "temp_<build>.pwr".
+export const inferBuildFromPwrPath = (
+  pwrPath: string,
+): { type?: VersionType; build_index?: number } => {
+  const normalized = pwrPath.replace(/\\/g, "/");
+  const full = normalized.match(/(release|pre-release)\/\d+\/(\d+)\.pwr$/i);
+  if (full) {
+    return {
+      type: full[1].toLowerCase() as VersionType,
+      build_index: Number(full[2]),
+    };
+  }
+  const plain = path.basename(normalized).match(/^(?:temp_)?(\d+)\.pwr$/i);
+  return plain ? { build_index: Number(plain[1]) } : {};
+};
+
+export const getLocalInstallVersion = (
+  request: LocalInstallRequest,
+): GameVersion => ({
+  url: pathToFileURL(request.pwrPath).href,
+  type: request.type,
+  build_index: request.build_index,
+  build_name: request.build_name?.trim() || `Build-${request.build_index}`,
+  isLatest: false,
+});
+
+/**
+ * Offline counterpart of installGame: applies a PWR (and optionally a JRE archive and butler)
+ * picked from disk. Nothing here touches the network.
+ */
+export const installGameFromFiles = async (
+  gameDir: string,
+  request: LocalInstallRequest,
+  win: InstallEventTarget,
+) => {
+  const version = getLocalInstallVersion(request);
+  logger.info(
+    `Starting local installation of ${version.type} build ${version.build_index} from ${request.pwrPath}`,
+  );
+
+  try {
+    if (
+      (version.type !== "release" && version.type !== "pre-release") ||
+      !Number.isInteger(version.build_index) ||
+      version.build_index <= 0
+    ) {
+      throw new Error("Invalid build type or number");
+    }
+    if (!fs.existsSync(request.pwrPath)) throw new Error("PWR file not found");
+    if (!hasPwrMagic(request.pwrPath)) {
+      throw new Error("The selected file is not a valid PWR patch");
+    }
+    if (request.jrePath && !fs.existsSync(request.jrePath)) {
+      throw new Error("JRE archive not found");
+    }
+
+    migrateLegacyChannelInstallIfNeeded(gameDir, version.type);
+    const installDir = resolveInstallDir(gameDir, version);
+    const existingDir = resolveExistingInstallDir(gameDir, version);
+    if (
+      readInstallManifest(existingDir)?.build_index === version.build_index &&
+      fs.existsSync(resolveClientPath(existingDir))
+    ) {
+      throw new Error("This build is already installed.");
+    }
+
+    const { jre } = checkGameInstallation(gameDir, version);
+    if (!jre && !request.jrePath) {
+      throw new Error("No Java runtime installed. Pick a JRE archive as well.");
+    }
+
+    fs.mkdirSync(gameDir, { recursive: true });
+    const required = estimateRequiredSpace({
+      pwrBytes: fs.statSync(request.pwrPath).size,
+      jreArchiveBytes: request.jrePath
+        ? fs.statSync(request.jrePath).size
+        : undefined,
+    });
+    if (typeof required === "number") await ensureDiskSpace(gameDir, required);
+
+    if (
+      request.butlerPath &&
+      !(await installButlerFromFile(request.butlerPath))
+    ) {
+      throw new Error("Failed to install butler from the selected file");
+    }
+    const butlerPath = getInstalledButlerPath();
+    if (!butlerPath) {
+      throw new Error(
+        "Butler is not installed. Pick the butler executable or its zip archive.",
+      );
+    }
+
+    win.webContents.send("install-started");
+
+    if (request.jrePath) {
+      const jrePath = await installJREFromArchive(
+        gameDir,
+        request.jrePath,
+        win,
+      );
+      if (!jrePath) throw new Error("Failed to install JRE from archive");
+    }
+
+    // Leftovers of an earlier failed attempt are cleared by applyFullPWR; other files are kept.
+    await applyFullPWR(request.pwrPath, butlerPath, installDir, win);
+
+    writeInstallManifest(installDir, version);
+    ensureClientExecutable(installDir);
+
+    logger.info("Local installation finished successfully.");
+    win.webContents.send("install-finished", version, null);
+    return true;
+  } catch (error) {
+    reportInstallError(win, version, error);
     return false;
   }
 };
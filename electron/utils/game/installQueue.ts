@@ -0,0 +1,222 @@
+import { BrowserWindow } from "electron";
+import fs from "node:fs";
+import {
+  getLocalInstallVersion,
+  installGame,
+  installGameFromFiles,
+} from "./install";
+import { pruneInstalledBuilds } from "./storage";
+import { getBundleVersion, importBundle } from "./bundle";
+import { logger } from "../logger";
+import { sendToRenderer } from "../ipc";
+import type { InstallEventTarget } from "./eventTarget";
+
+type InstallJob = InstallJobInfo & {
+  gameDir: string;
+  win: BrowserWindow;
+  run: (target: InstallEventTarget) => Promise<boolean>;
+  done: Promise<boolean>;
+  resolve: (ok: boolean) => void;
+};
+
+// Running job (if any) is always jobs[0]; everything after it is pending, in run order.
+const jobs: InstallJob[] = [];
+let pumping = false;
+
+export const getInstallJobId = (
+  version: Pick<GameVersion, "type" | "build_index">,
+) => `${version.type}:${version.build_index}`;
+
+const toInfo = (job: InstallJob): InstallJobInfo => ({
+  id: job.id,
+  version: job.version,
+  status: job.status,
+  queuedAt: job.queuedAt,
+});
+
+export const listInstallJobs = (): InstallJobInfo[] => jobs.map(toInfo);
+
+export const hasInstallJob = (
+  version: Pick<GameVersion, "type" | "build_index">,
+) => jobs.some((j) => j.id === getInstallJobId(version));
+
+const broadcastQueue = () => {
+  const snapshot = listInstallJobs();
+  for (const w of BrowserWindow.getAllWindows()) {
+    try {
+      sendToRenderer(w, "install-queue", snapshot);
+    } catch {
+      // Window may be closing.
+    }
+  }
+};
+
+// Tags install-progress payloads with the job id; other events pass through untouched.
+// A queued job can outlive the window that queued it; its events are dropped once it closes.
+const createJobTarget = (
+  win: BrowserWindow,
+  jobId: string,
+): InstallEventTarget => ({
+  webContents: {
+    send: (channel: string, ...args: unknown[]) => {
+      if (win.isDestroyed()) return;
+      const [payload, ...rest] = args;
+      if (
+        channel === "install-progress" &&
+        payload &&
+        typeof payload === "object"
+      ) {
+        win.webContents.send(channel, { ...payload, jobId }, ...rest);
+        return;
+      }
+      win.webContents.send(channel, ...args);
+    },
+  },
+});
+
+const pump = async () => {
+  if (pumping) return;
+  pumping = true;
+
+  try {
+    while (jobs.length) {
+      const job = jobs[0];
+      job.status = "running";
+      broadcastQueue();
+
+      logger.info(`Install queue: starting job ${job.id}`);
+      let ok = false;
+      try {
+        if (!fs.existsSync(job.gameDir)) {
+          fs.mkdirSync(job.gameDir, { recursive: true });
+        }
+        ok = await job.run(createJobTarget(job.win, job.id));
+      } catch (error) {
+        logger.error(`Install queue: job ${job.id} crashed:`, error);
+      }
+      logger.info(`Install queue: job ${job.id} finished (ok=${ok})`);
+
+      if (ok) {
+        try {
+          // Never prune the build just installed or anything still waiting in the queue.
+          const removed = await pruneInstalledBuilds(
+            job.gameDir,
+            jobs.map((j) => j.version),
+          );
+          if (removed.length && !job.win.isDestroyed()) {
+            sendToRenderer(job.win, "builds-pruned", removed);
+          }
+        } catch (error) {
+          logger.error("Install queue: retention cleanup failed:", error);
+        }
+      }
+
+      // Removed by identity: the queue may have been reordered while the job ran.
+      jobs.splice(jobs.indexOf(job), 1);
+      job.resolve(ok);
+      broadcastQueue();
+    }
+  } finally {
+    pumping = false;
+  }
+};
+
+const enqueueJob = (
+  gameDir: string,
+  version: GameVersion,
+  win: BrowserWindow,
+  run: InstallJob["run"],
+): Promise<boolean> => {
+  const id = getInstallJobId(version);
+  const existing = jobs.find((j) => j.id === id);
+  if (existing) {
+    logger.info(
+      `Install queue: ${id} already ${existing.status}, skipping duplicate`,
+    );
+    return existing.done;
+  }
+
+  let resolve!: (ok: boolean) => void;
+  const done = new Promise<boolean>((r) => {
+    resolve = r;
+  });
+
+  jobs.push({
+    id,
+    version,
+    status: "pending",
+    queuedAt: Date.now(),
+    gameDir,
+    win,
+    run,
+    done,
+    resolve,
+  });
+  logger.info(`Install queue: queued ${id} (${jobs.length} job(s))`);
+  broadcastQueue();
+
+  void pump();
+  return done;
+};
+
+/**
+ * Queues an install and resolves with its result once it has run.
+ * A request for a build that is already queued or running joins the existing job.
+ */
+export const enqueueInstall = (
+  gameDir: string,
+  version: GameVersion,
+  win: BrowserWindow,
+  libraryDir?: string,
+) =>
+  enqueueJob(gameDir, version, win, (target) =>
+    installGame(gameDir, version, target, libraryDir),
+  );
+
+// Same queue for offline installs, so they never race a download into the same folder.
+export const enqueueLocalInstall = (
+  gameDir: string,
+  request: LocalInstallRequest,
+  win: BrowserWindow,
+) =>
+  enqueueJob(gameDir, getLocalInstallVersion(request), win, (target) =>
+    installGameFromFiles(gameDir, request, target),
+  );
+
+export const enqueueBundleImport = (
+  gameDir: string,
+  archivePath: string,
+  info: BundleInfo,
+  win: BrowserWindow,
+) =>
+  enqueueJob(gameDir, getBundleVersion(info), win, (target) =>
+    importBundle(gameDir, archivePath, target),
+  );
+
+// Moves a pending job to `toIndex` among the pending jobs. The running job can't be moved.
+export const moveInstallJob = (id: string, toIndex: number): boolean => {
+  const from = jobs.findIndex((j) => j.id === id);
+  if (from === -1 || jobs[from].status !== "pending") return false;
+
+  const firstPending = jobs[0]?.status === "running" ? 1 : 0;
+  const pendingCount = jobs.length - firstPending;
+  const target =
+    firstPending + Math.max(0, Math.min(pendingCount - 1, Math.floor(toIndex)));
+
+  const [job] = jobs.splice(from, 1);
+  jobs.splice(target, 0, job);
+  broadcastQueue();
+  return true;
+};
+
+// Drops a pending job. Running jobs are stopped through "install-cancel" instead.
+export const removeInstallJob = (id: string): boolean => {
+  const idx = jobs.findIndex((j) => j.id === id);
+  if (idx === -1 || jobs[idx].status !== "pending") return false;
+
+  const [job] = jobs.splice(idx, 1);
+  job.resolve(false);
+  logger.info(`Install queue: removed ${id}`);
+  broadcastQueue();
+  return true;
+};
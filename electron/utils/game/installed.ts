@@ -7,14 +7,8 @@ import {
   migrateLegacyChannelInstallIfNeeded,
   resolveClientPath,
 } from "./paths";
-import { readInstallManifest } from "./manifest";
-
-export type InstalledBuildInfo = {
-  type: GameVersion["type"];
-  build_index: number;
-  build_name?: string;
-  isLatest?: boolean;
-};
+import { isInstallMarkedBroken, readInstallManifest } from "./manifest";
+import { getLibraryRoots } from "./libraries";
 
 const parseBuildIndex = (dirName: string): number | null => {
   const m = dirName.match(/^build-(\d+)$/);
@@ -34,6 +28,8 @@ const listBuildDirs = (channelDir: string): number[] => {
 };
 
 const hasClientExecutable = (installDir: string): boolean => {
+  // A failed install may have left the client behind; it still isn't usable.
+  if (isInstallMarkedBroken(installDir)) return false;
   try {
     return fs.existsSync(resolveClientPath(installDir));
   } catch {
@@ -41,7 +37,7 @@ const hasClientExecutable = (installDir: string): boolean => {
   }
 };
 
-export const listInstalledVersions = (baseDir: string): InstalledBuildInfo[] => {
+const listInstalledVersionsIn = (baseDir: string): InstalledBuildInfo[] => {
   try {
     migrateLegacyChannelInstallIfNeeded(baseDir, "release");
     migrateLegacyChannelInstallIfNeeded(baseDir, "pre-release");
@@ -112,3 +108,19 @@ export const listInstalledVersions = (baseDir: string): InstalledBuildInfo[] =>
     return [];
   }
 };
+
+// Every library's builds. A build present in several libraries is reported once,
+// from the first library that has it, which is also where launch and patching look.
+export const listInstalledVersions = (gameDir: string): InstalledBuildInfo[] => {
+  const seen = new Set<string>();
+  const out: InstalledBuildInfo[] = [];
+  for (const library of getLibraryRoots(gameDir)) {
+    for (const item of listInstalledVersionsIn(library.path)) {
+      const key = `${item.type}:${item.build_index}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.push({ ...item, libraryId: library.id });
+    }
+  }
+  return out;
+};
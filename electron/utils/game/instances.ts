@@ -0,0 +1,239 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { logger } from "../logger";
+import { parseBuildRef } from "./ipcInput";
+
+const REGISTRY_FILENAME = "instances.json";
+const INSTANCES_DIRNAME = "instances";
+const MAX_NAME_LENGTH = 64;
+const MAX_EXTRA_ARGS = 32;
+const MAX_ARG_LENGTH = 256;
+
+// Set by launchGame itself; an instance can't override them.
+const RESERVED_ARGS = new Set([
+  "--app-dir",
+  "--user-dir",
+  "--java-exec",
+  "--auth-mode",
+  "--uuid",
+  "--name",
+]);
+
+type StoredInstance = Omit<GameInstance, "userDir">;
+
+type InstanceResult = IpcResult & { instance?: GameInstance };
+
+const getRegistryPath = () => path.join(META_DIRECTORY, REGISTRY_FILENAME);
+
+const getInstanceDir = (gameDir: string, id: string) =>
+  path.join(gameDir, INSTANCES_DIRNAME, id);
+
+export const getInstanceUserDir = (gameDir: string, id: string) =>
+  path.join(getInstanceDir(gameDir, id), "UserData");
+
+const readRegistry = (): StoredInstance[] => {
+  try {
+    const filePath = getRegistryPath();
+    if (!fs.existsSync(filePath)) return [];
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return Array.isArray(raw?.instances) ? raw.instances : [];
+  } catch (error) {
+    logger.warn("Could not read the instance registry:", error);
+    return [];
+  }
+};
+
+const writeRegistry = (instances: StoredInstance[]) => {
+  fs.mkdirSync(META_DIRECTORY, { recursive: true });
+  fs.writeFileSync(
+    getRegistryPath(),
+    JSON.stringify({ instances }, null, 2),
+    "utf-8",
+  );
+};
+
+const withUserDir = (gameDir: string, instance: StoredInstance) => ({
+  ...instance,
+  userDir: getInstanceUserDir(gameDir, instance.id),
+});
+
+export const listInstances = (gameDir: string): GameInstance[] =>
+  readRegistry().map((i) => withUserDir(gameDir, i));
+
+export const getInstance = (gameDir: string, id: string) =>
+  listInstances(gameDir).find((i) => i.id === id) ?? null;
+
+const readName = (raw: unknown, others: StoredInstance[]) => {
+  const name = typeof raw === "string" ? raw.trim() : "";
+  if (!name) throw new Error("Give the instance a name.");
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Keep the name under ${MAX_NAME_LENGTH} characters.`);
+  }
+  if (others.some((i) => i.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error("An instance with this name already exists.");
+  }
+  return name;
+};
+
+const readLaunchOptions = (raw: unknown): InstanceLaunchOptions => {
+  const options = (raw ?? {}) as Partial<
+    Record<keyof InstanceLaunchOptions, unknown>
+  >;
+
+  const uuid =
+    typeof options.customUUID === "string" ? options.customUUID.trim() : "";
+
+  const extraArgs = options.extraArgs ?? [];
+  if (
+    !Array.isArray(extraArgs) ||
+    extraArgs.length > MAX_EXTRA_ARGS ||
+    !extraArgs.every(
+      (a) => typeof a === "string" && a.length && a.length <= MAX_ARG_LENGTH,
+    )
+  ) {
+    throw new Error("Invalid launch arguments.");
+  }
+  const reserved = extraArgs.find((a: string) =>
+    RESERVED_ARGS.has(a.split("=")[0]),
+  );
+  if (reserved) {
+    throw new Error(`${reserved} is set by the launcher and can't be changed.`);
+  }
+
+  return { customUUID: uuid || null, extraArgs };
+};
+
+// Validates what the renderer sent for a new or edited instance; throws a user-facing message.
+const readInput = (
+  raw: unknown,
+  others: StoredInstance[],
+): GameInstanceInput => {
+  const input = (raw ?? {}) as Partial<
+    Record<keyof GameInstanceInput, unknown>
+  >;
+  const build = parseBuildRef(input.build, "instances");
+  if (!build) throw new Error("Pick a build for this instance.");
+  return {
+    name: readName(input.name, others),
+    build,
+    launchOptions: readLaunchOptions(input.launchOptions),
+  };
+};
+
+const fail = (error: unknown): InstanceResult => ({
+  ok: false,
+  error: error instanceof Error ? error.message : "Unknown error",
+});
+
+export const createInstance = (
+  gameDir: string,
+  raw: unknown,
+): InstanceResult => {
+  try {
+    const instances = readRegistry();
+    const instance: StoredInstance = {
+      id: crypto.randomUUID(),
+      ...readInput(raw, instances),
+      createdAt: Date.now(),
+    };
+    fs.mkdirSync(getInstanceUserDir(gameDir, instance.id), {
+      recursive: true,
+    });
+    writeRegistry([...instances, instance]);
+    logger.info(`Created instance "${instance.name}" (${instance.id})`);
+    return { ok: true, error: null, instance: withUserDir(gameDir, instance) };
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const updateInstance = (
+  gameDir: string,
+  id: string,
+  raw: unknown,
+): InstanceResult => {
+  try {
+    const instances = readRegistry();
+    const existing = instances.find((i) => i.id === id);
+    if (!existing) throw new Error("Unknown instance.");
+    const updated: StoredInstance = {
+      ...existing,
+      ...readInput(
+        raw,
+        instances.filter((i) => i.id !== id),
+      ),
+    };
+    writeRegistry(instances.map((i) => (i.id === id ? updated : i)));
+    return { ok: true, error: null, instance: withUserDir(gameDir, updated) };
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+// Copies the instance, UserData included, under a new name.
+export const cloneInstance = async (
+  gameDir: string,
+  id: string,
+  rawName: unknown,
+): Promise<InstanceResult> => {
+  const instances = readRegistry();
+  const source = instances.find((i) => i.id === id);
+  if (!source) return { ok: false, error: "Unknown instance." };
+
+  let clone: StoredInstance | null = null;
+  try {
+    clone = {
+      ...source,
+      id: crypto.randomUUID(),
+      name: readName(rawName, instances),
+      createdAt: Date.now(),
+      lastPlayedAt: undefined,
+    };
+    const from = getInstanceUserDir(gameDir, source.id);
+    const to = getInstanceUserDir(gameDir, clone.id);
+    if (fs.existsSync(from)) {
+      await fs.promises.cp(from, to, { recursive: true });
+    } else {
+      fs.mkdirSync(to, { recursive: true });
+    }
+    writeRegistry([...instances, clone]);
+    logger.info(`Cloned instance "${source.name}" as "${clone.name}"`);
+    return { ok: true, error: null, instance: withUserDir(gameDir, clone) };
+  } catch (error) {
+    if (clone) {
+      fs.rmSync(getInstanceDir(gameDir, clone.id), {
+        recursive: true,
+        force: true,
+      });
+    }
+    return fail(error);
+  }
+};
+
+// Removes the instance and its UserData. The build itself is shared and stays installed.
+export const deleteInstance = (gameDir: string, id: string): IpcResult => {
+  const instances = readRegistry();
+  const instance = instances.find((i) => i.id === id);
+  if (!instance) return { ok: false, error: "Unknown instance." };
+  try {
+    fs.rmSync(getInstanceDir(gameDir, id), { recursive: true, force: true });
+  } catch (error) {
+    logger.error(`Could not delete instance folder for ${id}:`, error);
+    return fail(error);
+  }
+  writeRegistry(instances.filter((i) => i.id !== id));
+  logger.info(`Deleted instance "${instance.name}" (${id})`);
+  return { ok: true, error: null };
+};
+
+export const markInstancePlayed = (id: string) => {
+  const instances = readRegistry();
+  if (!instances.some((i) => i.id === id)) return;
+  writeRegistry(
+    instances.map((i) =>
+      i.id === id ? { ...i, lastPlayedAt: Date.now() } : i,
+    ),
+  );
+};
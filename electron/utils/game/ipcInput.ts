@@ -0,0 +1,124 @@
+import path from "node:path";
+import { logger } from "../logger";
+import { getVersionCatalogue } from "./versionCatalogue";
+import { buildPwrUrl } from "./versions";
+
+// Structural checks for the build descriptions the renderer sends with IPC requests.
+// Everything here returns a fresh object built from known fields, or null after logging.
+
+type BuildRef = Pick<GameVersion, "type" | "build_index" | "build_name">;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isVersionType = (value: unknown): value is VersionType =>
+  value === "release" || value === "pre-release";
+
+const isBuildIndex = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" ? value : undefined;
+
+const reject = (channel: string, what: string) => {
+  logger.warn(`Rejected ${channel} request: invalid ${what}`);
+  return null;
+};
+
+export const parseBuildRef = (
+  raw: unknown,
+  channel: string,
+): BuildRef | null => {
+  if (
+    !isRecord(raw) ||
+    !isVersionType(raw.type) ||
+    !isBuildIndex(raw.build_index)
+  ) {
+    return reject(channel, "build");
+  }
+  const name = optionalString(raw.build_name)?.trim();
+  return {
+    type: raw.type,
+    build_index: raw.build_index,
+    build_name: name || `Build-${raw.build_index}`,
+  };
+};
+
+const findCatalogueVersion = (ref: BuildRef) => {
+  const catalogue = getVersionCatalogue();
+  return (
+    ref.type === "release" ? catalogue.release : catalogue.preRelease
+  ).find((v) => v.build_index === ref.build_index);
+};
+
+/**
+ * Validates a `GameVersion` from the renderer. Builds the catalogue knows are taken from the
+ * catalogue as-is; for anything else (old or locally installed builds) the download URL is
+ * rebuilt here and only well-formed optional fields are kept. Online-patch data is never
+ * taken from the renderer: main would download and run whatever it points at.
+ */
+export const parseGameVersion = (
+  raw: unknown,
+  channel: string,
+): GameVersion | null => {
+  const ref = parseBuildRef(raw, channel);
+  if (!ref || !isRecord(raw)) return null;
+
+  const installed = raw.installed === true ? true : undefined;
+  const known = findCatalogueVersion(ref);
+  if (known) return { ...known, installed };
+
+  const pwr_sha256 = optionalString(raw.pwr_sha256);
+
+  return {
+    url: buildPwrUrl(ref.type, ref.build_index),
+    type: ref.type,
+    build_index: ref.build_index,
+    build_name: ref.build_name,
+    isLatest: raw.isLatest === true,
+    pwr_size: isBuildIndex(raw.pwr_size) ? raw.pwr_size : undefined,
+    pwr_sha256:
+      pwr_sha256 && /^[0-9a-f]{64}$/i.test(pwr_sha256) ? pwr_sha256 : undefined,
+    installed,
+  };
+};
+
+// Online-patch requests only accept builds the catalogue knows, as only it has their patch data.
+export const parseCatalogueVersion = (
+  raw: unknown,
+  channel: string,
+): GameVersion | null => {
+  const version = parseGameVersion(raw, channel);
+  if (!version) return null;
+  return findCatalogueVersion(version) ? version : reject(channel, "build");
+};
+
+// Local files are picked by the user, so any absolute path is acceptable here.
+const optionalAbsolutePath = (value: unknown) =>
+  typeof value === "string" && path.isAbsolute(value) ? value : undefined;
+
+export const parseLocalInstallRequest = (
+  raw: unknown,
+  channel: string,
+): LocalInstallRequest | null => {
+  const ref = parseBuildRef(raw, channel);
+  if (!ref || !isRecord(raw)) return null;
+
+  const pwrPath = optionalAbsolutePath(raw.pwrPath);
+  if (!pwrPath) return reject(channel, "PWR path");
+  if (
+    (raw.jrePath !== undefined && !optionalAbsolutePath(raw.jrePath)) ||
+    (raw.butlerPath !== undefined && !optionalAbsolutePath(raw.butlerPath))
+  ) {
+    return reject(channel, "runtime path");
+  }
+
+  return {
+    pwrPath,
+    type: ref.type,
+    build_index: ref.build_index,
+    build_name: optionalString(raw.build_name),
+    jrePath: optionalAbsolutePath(raw.jrePath),
+    butlerPath: optionalAbsolutePath(raw.butlerPath),
+  };
+};
@@ -1,90 +1,136 @@
-import { BrowserWindow } from "electron";
 import path from "node:path";
 import fs from "node:fs";
-import stream from "node:stream";
-import { pipeline } from "node:stream/promises";
 import crypto from "node:crypto";
 import extract from "extract-zip";
 import * as tar from "tar";
+import { META_DIRECTORY } from "../const";
 import { logger } from "../logger";
-
-type ArchObj = {
-  url: string;
-  sha256: string;
-};
-
-type JRE = {
-  version: string;
-  download_url: {
-    linux: {
-      amd64: ArchObj;
-    };
-    darwin: {
-      arm64: ArchObj;
-    };
-    windows: {
-      amd64: ArchObj;
-    };
-  };
-};
+import {
+  logSchemaIssues,
+  validateJreManifest,
+  type JreAsset,
+  type JreManifest,
+} from "../feedSchemas";
+import type { InstallEventTarget } from "./eventTarget";
+import {
+  ensureDiskSpace,
+  estimateRequiredSpace,
+  InsufficientDiskSpaceError,
+} from "./diskSpace";
+import {
+  downloadFile,
+  fetchJson,
+  hasPartialDownload,
+  isDownloadCancelled,
+} from "../download";
 
 const JRE_URL = "https://launcher.hytale.com/version/release/jre.json";
+// Last manifest that passed validation, used when the live one is unreachable or malformed.
+const JRE_MANIFEST_CACHE = "jre-manifest.json";
 
-export const installJRE = async (gameDir: string, win: BrowserWindow) => {
-  const os = process.platform;
+const readCachedJreManifest = (): JreManifest | null => {
+  try {
+    const filePath = path.join(META_DIRECTORY, JRE_MANIFEST_CACHE);
+    if (!fs.existsSync(filePath)) return null;
+    const result = validateJreManifest(
+      JSON.parse(fs.readFileSync(filePath, "utf-8")),
+    );
+    return result.ok ? result.value : null;
+  } catch {
+    return null;
+  }
+};
 
+const fetchJreManifest = async (): Promise<JreManifest | null> => {
   try {
     logger.info(`Fetching JRE manifest from ${JRE_URL}`);
-    const response = await fetch(JRE_URL);
-    if (!response.ok) throw new Error("Failed to fetch JRE");
-    const jre: JRE = await response.json();
+    const result = validateJreManifest(await fetchJson(JRE_URL));
+    logSchemaIssues("jre.json", result.issues);
+    if (result.ok) {
+      try {
+        fs.mkdirSync(META_DIRECTORY, { recursive: true });
+        fs.writeFileSync(
+          path.join(META_DIRECTORY, JRE_MANIFEST_CACHE),
+          JSON.stringify(result.value, null, 2),
+          "utf-8",
+        );
+      } catch {
+        // ignore
+      }
+      return result.value;
+    }
+  } catch (error) {
+    logger.warn("Could not fetch the JRE manifest:", error);
+  }
 
-    let downloadUrl: string | null = null;
-    let downloadHash: string | null = null;
-    let jreCompressedPath: string | null = null;
-    let platformKey: string = "";
+  const cached = readCachedJreManifest();
+  if (cached) logger.info("Using the cached JRE manifest.");
+  return cached;
+};
 
-    if (os === "win32") {
+const getPlatformJre = (
+  jre: JreManifest,
+): { platformKey: string; asset: JreAsset } | null => {
+  let platformKey: string;
+  let asset: JreAsset | undefined;
+  switch (process.platform) {
+    case "win32":
       platformKey = "windows/amd64";
-      jreCompressedPath = path.join(
-        gameDir,
-        jre.download_url.windows.amd64.url.split("/").pop()!,
-      );
-
-      downloadUrl = jre.download_url.windows.amd64.url;
-      downloadHash = jre.download_url.windows.amd64.sha256;
-    } else if (os === "linux") {
+      asset = jre.download_url.windows?.amd64;
+      break;
+    case "linux":
       platformKey = "linux/amd64";
-      jreCompressedPath = path.join(
-        gameDir,
-        jre.download_url.linux.amd64.url.split("/").pop()!,
-      );
-
-      downloadUrl = jre.download_url.linux.amd64.url;
-      downloadHash = jre.download_url.linux.amd64.sha256;
-    } else if (os === "darwin") {
+      asset = jre.download_url.linux?.amd64;
+      break;
+    case "darwin":
       platformKey = "darwin/arm64";
-      jreCompressedPath = path.join(
-        gameDir,
-        jre.download_url.darwin.arm64.url.split("/").pop()!,
-      );
+      asset = jre.download_url.darwin?.arm64;
+      break;
+    default:
+      return null;
+  }
+  return asset ? { platformKey, asset } : null;
+};
 
-      downloadUrl = jre.download_url.darwin.arm64.url;
-      downloadHash = jre.download_url.darwin.arm64.sha256;
-    }
+// The archive and its extracted copy both have to fit next to each other.
+const ensureJreSpace = async (gameDir: string, archiveBytes?: number) => {
+  const required = estimateRequiredSpace({ jreArchiveBytes: archiveBytes });
+  if (typeof required !== "number") {
+    logger.warn("JRE size is unknown, skipping the disk space check.");
+    return;
+  }
+  await ensureDiskSpace(gameDir, required);
+};
 
-    if (!downloadUrl || !downloadHash || !jreCompressedPath)
-      throw new Error(`Failed to find JRE for platform: ${os}`);
+export const installJRE = async (gameDir: string, win: InstallEventTarget) => {
+  const os = process.platform;
+
+  try {
+    const jre = await fetchJreManifest();
+    if (!jre) throw new Error("Failed to fetch JRE");
+
+    const platform = getPlatformJre(jre);
+    if (!platform) throw new Error(`Failed to find JRE for platform: ${os}`);
+
+    const { platformKey } = platform;
+    const downloadUrl = platform.asset.url;
+    const downloadHash = platform.asset.sha256;
+    const jreCompressedPath = path.join(gameDir, downloadUrl.split("/").pop()!);
 
     logger.info(`Selected JRE for ${platformKey}: ${downloadUrl}`);
 
-    if (fs.existsSync(jreCompressedPath)) {
+    // A partial archive from an interrupted download is resumed below instead of verified.
+    if (
+      fs.existsSync(jreCompressedPath) &&
+      !hasPartialDownload(jreCompressedPath)
+    ) {
       logger.info(
         `JRE archive already exists at ${jreCompressedPath}, verifying hash...`,
       );
       const verifyResult = await verifyJRE(jreCompressedPath, downloadHash);
       if (verifyResult) {
         logger.info("Existing JRE archive verified successfully.");
+        await ensureJreSpace(gameDir, fs.statSync(jreCompressedPath).size);
         // JRE is already downloaded and verified
         const extractResult = await extractJRE(jreCompressedPath, gameDir, win);
         if (!extractResult) throw new Error("Failed to extract verified JRE");
@@ -95,48 +141,23 @@ export const installJRE = async (gameDir: string, win: BrowserWindow) => {
     }
 
     logger.info(`Downloading JRE from ${downloadUrl}`);
-    const resFile = await fetch(downloadUrl);
-    if (!resFile.ok)
-      throw new Error(`Failed to download JRE: ${resFile.statusText}`);
-    const contentLength = resFile.headers.get("content-length");
-    const totalLength = contentLength ? parseInt(contentLength, 10) : undefined;
-    let downloadedLength = 0;
-
-    logger.info(
-      `JRE size: ${totalLength ? (totalLength / 1024 / 1024).toFixed(2) + " MB" : "unknown"}`,
-    );
-
-    win.webContents.send("install-progress", {
-      phase: "jre-download",
-      percent: typeof totalLength === "number" && totalLength > 0 ? 0 : -1,
-      total: totalLength,
-      current: 0,
-    });
-
-    const progressStream = new stream.PassThrough();
-    progressStream.on("data", (chunk) => {
-      downloadedLength += chunk.length;
-
-      const percent =
-        typeof totalLength === "number" && totalLength > 0
-          ? Math.round(
-              (downloadedLength / totalLength) * (os === "win32" ? 80 : 100),
-            )
-          : -1;
-
-      win.webContents.send("install-progress", {
-        phase: "jre-download",
-        percent,
-        total: totalLength,
-        current: downloadedLength,
-      });
-    });
-
-    await pipeline(
-      // @ts-ignore
-      stream.Readable.fromWeb(resFile.body),
-      progressStream,
-      fs.createWriteStream(jreCompressedPath),
+    const result = await downloadFile(
+      downloadUrl,
+      jreCompressedPath,
+      (current, total) => {
+        const percent =
+          typeof total === "number" && total > 0
+            ? Math.round((current / total) * (os === "win32" ? 80 : 100))
+            : -1;
+
+        win.webContents.send("install-progress", {
+          phase: "jre-download",
+          percent,
+          total,
+          current,
+        });
+      },
+      { onSize: (total) => ensureJreSpace(gameDir, total) },
     );
 
     logger.info(`JRE download completed: ${jreCompressedPath}`);
@@ -144,8 +165,8 @@ export const installJRE = async (gameDir: string, win: BrowserWindow) => {
     win.webContents.send("install-progress", {
       phase: "jre-download",
       percent: 100,
-      total: totalLength,
-      current: downloadedLength,
+      total: result.total,
+      current: result.downloaded,
     });
 
     const verifyResult = await verifyJRE(jreCompressedPath, downloadHash);
@@ -157,11 +178,45 @@ export const installJRE = async (gameDir: string, win: BrowserWindow) => {
 
     return extractResult;
   } catch (error) {
+    if (
+      isDownloadCancelled(error) ||
+      error instanceof InsufficientDiskSpaceError
+    ) {
+      throw error;
+    }
     logger.error("Failed to install JRE:", error);
     return null;
   }
 };
 
+/**
+ * Installs the JRE from an archive picked by the user (.zip or .tar.gz), without the network.
+ * The archive is copied first because extraction deletes it afterwards.
+ */
+export const installJREFromArchive = async (
+  gameDir: string,
+  archivePath: string,
+  win: InstallEventTarget,
+) => {
+  try {
+    const name = path.basename(archivePath);
+    if (!/\.(zip|tar\.gz)$/.test(name)) {
+      throw new Error("JRE archive must be a .zip or .tar.gz file");
+    }
+
+    const localCopy = path.join(gameDir, name);
+    if (path.resolve(localCopy) !== path.resolve(archivePath)) {
+      logger.info(`Copying JRE archive ${archivePath} to ${localCopy}`);
+      fs.copyFileSync(archivePath, localCopy);
+    }
+
+    return await extractJRE(localCopy, gameDir, win);
+  } catch (error) {
+    logger.error("Failed to install JRE from archive:", error);
+    return null;
+  }
+};
+
 export const verifyJRE = async (jrePath: string, downloadHash: string) => {
   const hash = crypto.createHash("sha256");
   const fileStream = fs.createReadStream(jrePath);
@@ -177,7 +232,7 @@ export const verifyJRE = async (jrePath: string, downloadHash: string) => {
 export const extractJRE = async (
   jreCompressedPath: string,
   gameDir: string,
-  win: BrowserWindow,
+  win: InstallEventTarget,
 ) => {
   try {
     const jreDir = path.join(gameDir, "jre");
@@ -4,8 +4,10 @@ import { join, dirname } from "path";
 import { spawn } from "child_process";
 import fs from "fs";
 import { genUUID } from "./uuid";
-import { installGame } from "./install";
+import { enqueueInstall } from "./installQueue";
 import { logger } from "../logger";
+import { sendToRenderer } from "../ipc";
+import { applyModSet, restoreModsFolder } from "./modProfiles";
 
 const ensureExecutable = (filePath: string) => {
   if (process.platform === "win32") return;
@@ -43,11 +45,14 @@ export const launchGame = async (
       signal: NodeJS.Signals | null;
     }) => void;
   },
+  // Set when launching an instance: its own UserData and extra client arguments.
+  // `mods` comes from a mod profile: exactly these mods are enabled until the game exits.
+  options?: { userDir?: string; extraArgs?: string[]; mods?: string[] },
 ) => {
   if (retryCount > 1) {
     const msg = "Failed to launch game (max retries reached)";
     logger.error(msg);
-    win.webContents.send("launch-error", msg);
+    sendToRenderer(win, "launch-error", msg);
     return;
   }
 
@@ -62,11 +67,11 @@ export const launchGame = async (
       server,
       jre,
     });
-    const installResult = await installGame(baseDir, version, win);
+    const installResult = await enqueueInstall(baseDir, version, win);
     if (!installResult) {
       const msg = "Game installation failed";
       logger.error(msg);
-      win.webContents.send("launch-error", msg);
+      sendToRenderer(win, "launch-error", msg);
       return;
     }
 
@@ -75,7 +80,7 @@ export const launchGame = async (
     if (!client || !server || !jre) {
       const msg = "Game installation incomplete (missing files after install)";
       logger.error(msg, { client, server, jre });
-      win.webContents.send("launch-error", msg);
+      sendToRenderer(win, "launch-error", msg);
       return;
     }
     logger.info("Game installation successful and verified.");
@@ -83,7 +88,7 @@ export const launchGame = async (
     logger.info("Game installation verified.");
   }
 
-  const userDir = join(baseDir, "UserData");
+  const userDir = options?.userDir ?? join(baseDir, "UserData");
   if (!fs.existsSync(userDir)) {
     logger.info(`Creating UserData directory at ${userDir}`);
     fs.mkdirSync(userDir, { recursive: true });
@@ -130,6 +135,7 @@ export const launchGame = async (
     finalUuid,
     "--name",
     username,
+    ...(options?.extraArgs ?? []),
   ];
 
   logger.info("Launch arguments:", args);
@@ -138,9 +144,11 @@ export const launchGame = async (
     logger.info(`Spawning client (attempt ${attempt + 1})...`);
     try {
       const env = { ...process.env };
-      
+
       if (isWaylandSession()) {
-        console.log("Wayland session detected, setting SDL_VIDEODRIVER=wayland");
+        console.log(
+          "Wayland session detected, setting SDL_VIDEODRIVER=wayland",
+        );
         env.SDL_VIDEODRIVER = "wayland";
       }
 
@@ -162,7 +170,7 @@ export const launchGame = async (
       child.on("spawn", () => {
         logger.info("Game process spawned successfully.");
         callbacks?.onGameSpawned?.();
-        win.webContents.send("launched");
+        sendToRenderer(win, "launched");
       });
 
       child.on("error", (error: NodeJS.ErrnoException) => {
@@ -178,7 +186,8 @@ export const launchGame = async (
         }
 
         logger.error(`Error launching game: ${error.message}`, error);
-        win.webContents.send("launch-error", error.message);
+        restoreModsFolder(userDir);
+        sendToRenderer(win, "launch-error", error.message);
       });
 
       let finished = false;
@@ -196,9 +205,10 @@ export const launchGame = async (
           );
         }
 
+        restoreModsFolder(userDir);
         callbacks?.onGameExited?.({ code, signal });
         try {
-          win.webContents.send("launch-finished", { code, signal });
+          sendToRenderer(win, "launch-finished", { code, signal });
         } catch {
           // Window/app may already be closing.
         }
@@ -210,10 +220,21 @@ export const launchGame = async (
     } catch (error) {
       const msg = error instanceof Error ? error.message : "Unknown error";
       logger.error(`Error launching game (catch): ${msg}`, error);
-      win.webContents.send("launch-error", msg);
+      restoreModsFolder(userDir);
+      sendToRenderer(win, "launch-error", msg);
     }
   };
 
+  try {
+    if (options?.mods) applyModSet(userDir, options.mods);
+    else restoreModsFolder(userDir);
+  } catch (error) {
+    logger.error("Could not prepare the Mods folder:", error);
+    restoreModsFolder(userDir);
+    sendToRenderer(win, "launch-error", "Could not prepare the mod profile");
+    return;
+  }
+
   // Best-effort: ensure executable bit before the first spawn.
   ensureExecutable(client);
   spawnClient(0);
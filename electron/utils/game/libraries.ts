@@ -0,0 +1,186 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { logger } from "../logger";
+import { isPathInside } from "./gameDirectory";
+import { readInstallManifest } from "./manifest";
+import {
+  getLatestDir,
+  getPreReleaseBuildDir,
+  getReleaseBuildDir,
+  resolveExistingInstallDir,
+} from "./paths";
+
+const SETTINGS_FILENAME = "game-libraries.json";
+
+// The game directory itself. It also holds the JRE and UserData, so it can't be removed.
+export const PRIMARY_LIBRARY_ID = "primary";
+
+type StoredLibrary = { id: string; name: string; path: string };
+
+type BuildRef = Pick<GameVersion, "type" | "build_index">;
+
+const getSettingsPath = () => path.join(META_DIRECTORY, SETTINGS_FILENAME);
+
+const readStoredLibraries = (): StoredLibrary[] => {
+  try {
+    const filePath = getSettingsPath();
+    if (!fs.existsSync(filePath)) return [];
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    if (!Array.isArray(raw?.libraries)) return [];
+    return raw.libraries.filter(
+      (l: Partial<StoredLibrary>) =>
+        typeof l?.id === "string" &&
+        typeof l.name === "string" &&
+        typeof l.path === "string" &&
+        path.isAbsolute(l.path),
+    );
+  } catch (error) {
+    logger.warn("Could not read game libraries:", error);
+    return [];
+  }
+};
+
+const writeStoredLibraries = (libraries: StoredLibrary[]) => {
+  fs.mkdirSync(META_DIRECTORY, { recursive: true });
+  fs.writeFileSync(
+    getSettingsPath(),
+    JSON.stringify({ libraries }, null, 2),
+    "utf-8",
+  );
+};
+
+const isAvailable = (dir: string) => {
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+export const listLibraries = (gameDir: string): GameLibrary[] => [
+  {
+    id: PRIMARY_LIBRARY_ID,
+    name: "Game directory",
+    path: gameDir,
+    isPrimary: true,
+    available: true,
+  },
+  ...readStoredLibraries().map((l) => ({
+    ...l,
+    isPrimary: false,
+    available: isAvailable(l.path),
+  })),
+];
+
+// Libraries that can be searched right now, primary first.
+export const getLibraryRoots = (gameDir: string) =>
+  listLibraries(gameDir)
+    .filter((l) => l.available)
+    .map((l) => ({ id: l.id, path: l.path }));
+
+export const getLibraryPath = (gameDir: string, id: string) => {
+  const library = listLibraries(gameDir).find((l) => l.id === id);
+  return library?.available ? library.path : null;
+};
+
+const hasBuild = (root: string, build: BuildRef) => {
+  if (
+    build.type === "release" &&
+    readInstallManifest(getLatestDir(root))?.build_index === build.build_index
+  ) {
+    return true;
+  }
+  const buildDir =
+    build.type === "release"
+      ? getReleaseBuildDir(root, build.build_index)
+      : getPreReleaseBuildDir(root, build.build_index);
+  return fs.existsSync(buildDir);
+};
+
+// The library holding `build`, or null when no library has it.
+export const findBuildLibrary = (gameDir: string, build: BuildRef) => {
+  try {
+    return (
+      getLibraryRoots(gameDir).find((l) => hasBuild(l.path, build)) ?? null
+    );
+  } catch {
+    return null;
+  }
+};
+
+// Where to look for (or put) `build`: its library if installed, otherwise the game directory.
+export const resolveBuildRoot = (gameDir: string, build: BuildRef) =>
+  findBuildLibrary(gameDir, build)?.path ?? gameDir;
+
+// Install folder of `version`, whichever library it is in. Only the game directory has a
+// `latest` alias; other libraries keep every release under release/build-N.
+export const resolveBuildInstallDir = (
+  gameDir: string,
+  version: GameVersion,
+) => {
+  const library = findBuildLibrary(gameDir, version);
+  if (!library || library.id === PRIMARY_LIBRARY_ID) {
+    return resolveExistingInstallDir(gameDir, version);
+  }
+  return resolveExistingInstallDir(library.path, {
+    ...version,
+    isLatest: false,
+  });
+};
+
+export const addLibrary = (
+  gameDir: string,
+  dir: string,
+): IpcResult & { library?: GameLibrary } => {
+  if (!path.isAbsolute(dir)) {
+    return { ok: false, error: "The library must be an absolute path." };
+  }
+  const target = path.resolve(dir);
+  const overlapping = listLibraries(gameDir).find(
+    (l) => isPathInside(l.path, target) || isPathInside(target, l.path),
+  );
+  if (overlapping) {
+    return {
+      ok: false,
+      error: `This folder overlaps the "${overlapping.name}" library.`,
+    };
+  }
+
+  try {
+    if (fs.existsSync(target) && !fs.statSync(target).isDirectory()) {
+      return { ok: false, error: "The library path is not a directory." };
+    }
+    fs.mkdirSync(target, { recursive: true });
+    const probe = path.join(target, `.butter-write-test-${process.pid}`);
+    fs.writeFileSync(probe, "");
+    fs.rmSync(probe, { force: true });
+  } catch (error) {
+    logger.error(`Could not use ${target} as a game library:`, error);
+    return { ok: false, error: "This folder is not writable." };
+  }
+
+  const stored: StoredLibrary = {
+    id: crypto.randomUUID(),
+    name: path.basename(target) || target,
+    path: target,
+  };
+  writeStoredLibraries([...readStoredLibraries(), stored]);
+  logger.info(`Added game library ${stored.path}`);
+  return {
+    ok: true,
+    error: null,
+    library: { ...stored, isPrimary: false, available: true },
+  };
+};
+
+// Forgets a library. Its builds stay on disk and show up again if the folder is re-added.
+export const removeLibrary = (id: string): IpcResult => {
+  const libraries = readStoredLibraries();
+  const library = libraries.find((l) => l.id === id);
+  if (!library) return { ok: false, error: "Unknown library." };
+  writeStoredLibraries(libraries.filter((l) => l.id !== id));
+  logger.info(`Removed game library ${library.path}`);
+  return { ok: true, error: null };
+};
@@ -2,6 +2,8 @@ import fs from "fs";
 import path from "path";
 
 export const INSTALLED_MANIFEST_FILENAME = ".butter-installed.json";
+// Left in a build folder whose install failed and couldn't be cleaned up.
+export const BROKEN_MARKER_FILENAME = ".butter-broken.json";
 
 export type InstalledManifest = {
   build_index: number;
@@ -38,8 +40,58 @@ export const writeInstallManifest = (
       updated_at: new Date().toISOString(),
     };
     fs.writeFileSync(manifestPath, JSON.stringify(payload, null, 2), "utf-8");
+
+    // A manifest is only written after a successful install, so any earlier failure is resolved.
+    const markerPath = path.join(installDir, BROKEN_MARKER_FILENAME);
+    if (fs.existsSync(markerPath)) fs.unlinkSync(markerPath);
     return true;
   } catch {
     return false;
   }
 };
+
+export const isInstallMarkedBroken = (installDir: string): boolean => {
+  try {
+    return fs.existsSync(path.join(installDir, BROKEN_MARKER_FILENAME));
+  } catch {
+    return false;
+  }
+};
+
+// True when the failed apply went into a folder that already held a build; its files are kept.
+export const isBrokenInstallKept = (installDir: string): boolean => {
+  try {
+    const raw = fs.readFileSync(path.join(installDir, BROKEN_MARKER_FILENAME), "utf-8");
+    return JSON.parse(raw)?.keep_files === true;
+  } catch {
+    return false;
+  }
+};
+
+// Drops the manifest and flags the folder so it is never mistaken for a working build.
+export const markInstallBroken = (
+  installDir: string,
+  reason: string,
+  keepFiles = false,
+) => {
+  try {
+    if (!fs.existsSync(installDir)) return;
+    const manifestPath = path.join(installDir, INSTALLED_MANIFEST_FILENAME);
+    if (fs.existsSync(manifestPath)) fs.unlinkSync(manifestPath);
+    fs.writeFileSync(
+      path.join(installDir, BROKEN_MARKER_FILENAME),
+      JSON.stringify(
+        {
+          reason,
+          keep_files: keepFiles || undefined,
+          marked_at: new Date().toISOString(),
+        },
+        null,
+        2,
+      ),
+      "utf-8",
+    );
+  } catch {
+    // ignore
+  }
+};
@@ -0,0 +1,258 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { logger } from "../logger";
+import {
+  getDisabledModsDir,
+  getModsDir,
+  isModFileName,
+  listModFiles,
+  setModEnabled,
+} from "./mods";
+
+const SETTINGS_FILENAME = "mod-profiles.json";
+// What each UserData's Mods folder held before a profile launch, until it is put back.
+const RESTORE_FILENAME = "mod-profile-restore.json";
+const MAX_NAME_LENGTH = 64;
+const MAX_PROFILE_MODS = 1000;
+
+// Built in: launch with every mod disabled.
+export const VANILLA_PROFILE_ID = "vanilla";
+
+type StoredSettings = {
+  profiles: ModProfile[];
+  // UserData location id -> profile used for its launches. Missing = the Mods folder as is.
+  active: Record<string, string>;
+};
+
+type ProfileResult = IpcResult & { profile?: ModProfile };
+
+const getSettingsPath = () => path.join(META_DIRECTORY, SETTINGS_FILENAME);
+const getRestorePath = () => path.join(META_DIRECTORY, RESTORE_FILENAME);
+
+const readJson = <T>(filePath: string, fallback: T): T => {
+  try {
+    if (!fs.existsSync(filePath)) return fallback;
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch (error) {
+    logger.warn(`Could not read ${filePath}:`, error);
+    return fallback;
+  }
+};
+
+const writeJson = (filePath: string, value: unknown) => {
+  fs.mkdirSync(META_DIRECTORY, { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2), "utf-8");
+};
+
+const readSettings = (): StoredSettings => {
+  const raw = readJson<Partial<StoredSettings>>(getSettingsPath(), {});
+  return {
+    profiles: Array.isArray(raw.profiles) ? raw.profiles : [],
+    active:
+      raw.active && typeof raw.active === "object" ? { ...raw.active } : {},
+  };
+};
+
+const writeSettings = (settings: StoredSettings) =>
+  writeJson(getSettingsPath(), settings);
+
+export const listModProfiles = (locationId: string): ModProfileList => {
+  const { profiles, active } = readSettings();
+  return {
+    profiles: profiles.filter((p) => p.locationId === locationId),
+    activeId: active[locationId] ?? null,
+  };
+};
+
+const readName = (raw: unknown, others: ModProfile[]) => {
+  const name = typeof raw === "string" ? raw.trim() : "";
+  if (!name) throw new Error("Give the profile a name.");
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Keep the name under ${MAX_NAME_LENGTH} characters.`);
+  }
+  if (others.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error("A profile with this name already exists.");
+  }
+  return name;
+};
+
+const readMods = (raw: unknown) => {
+  if (
+    !Array.isArray(raw) ||
+    raw.length > MAX_PROFILE_MODS ||
+    !raw.every(
+      (m) =>
+        typeof m === "string" && m === path.basename(m) && isModFileName(m),
+    )
+  ) {
+    throw new Error("Invalid mod list.");
+  }
+  return [...new Set(raw as string[])];
+};
+
+const fail = (error: unknown): ProfileResult => ({
+  ok: false,
+  error: error instanceof Error ? error.message : "Unknown error",
+});
+
+export const createModProfile = (
+  locationId: string,
+  rawName: unknown,
+  rawMods: unknown,
+): ProfileResult => {
+  try {
+    const settings = readSettings();
+    const profile: ModProfile = {
+      id: crypto.randomUUID(),
+      locationId,
+      name: readName(
+        rawName,
+        settings.profiles.filter((p) => p.locationId === locationId),
+      ),
+      mods: readMods(rawMods),
+    };
+    writeSettings({ ...settings, profiles: [...settings.profiles, profile] });
+    logger.info(`Created mod profile "${profile.name}" for ${locationId}`);
+    return { ok: true, error: null, profile };
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const updateModProfile = (
+  id: string,
+  rawMods: unknown,
+): ProfileResult => {
+  try {
+    const settings = readSettings();
+    const existing = settings.profiles.find((p) => p.id === id);
+    if (!existing) throw new Error("Unknown profile.");
+    const profile = { ...existing, mods: readMods(rawMods) };
+    writeSettings({
+      ...settings,
+      profiles: settings.profiles.map((p) => (p.id === id ? profile : p)),
+    });
+    return { ok: true, error: null, profile };
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+export const deleteModProfile = (id: string): ProfileResult => {
+  const settings = readSettings();
+  const profile = settings.profiles.find((p) => p.id === id);
+  if (!profile) return { ok: false, error: "Unknown profile." };
+  const active = { ...settings.active };
+  if (active[profile.locationId] === id) delete active[profile.locationId];
+  writeSettings({
+    profiles: settings.profiles.filter((p) => p.id !== id),
+    active,
+  });
+  logger.info(`Deleted mod profile "${profile.name}"`);
+  return { ok: true, error: null, profile };
+};
+
+// Drops every profile of a UserData location, e.g. when its instance is deleted.
+export const deleteLocationModProfiles = (locationId: string) => {
+  const settings = readSettings();
+  const active = { ...settings.active };
+  delete active[locationId];
+  writeSettings({
+    profiles: settings.profiles.filter((p) => p.locationId !== locationId),
+    active,
+  });
+};
+
+// `id` null goes back to launching with the Mods folder as it is.
+export const selectModProfile = (
+  locationId: string,
+  id: string | null,
+): IpcResult => {
+  const settings = readSettings();
+  if (
+    id !== null &&
+    id !== VANILLA_PROFILE_ID &&
+    !settings.profiles.some((p) => p.id === id && p.locationId === locationId)
+  ) {
+    return { ok: false, error: "Unknown profile." };
+  }
+  const active = { ...settings.active };
+  if (id === null) delete active[locationId];
+  else active[locationId] = id;
+  writeSettings({ ...settings, active });
+  return { ok: true, error: null };
+};
+
+// Mod files the next launch of `locationId` should run with, or null to leave Mods alone.
+export const getActiveModSet = (locationId: string): string[] | null => {
+  const { profiles, activeId } = listModProfiles(locationId);
+  if (!activeId) return null;
+  if (activeId === VANILLA_PROFILE_ID) return [];
+  const profile = profiles.find((p) => p.id === activeId);
+  if (!profile) {
+    logger.warn(`Active mod profile ${activeId} is gone; using Mods as is.`);
+    return null;
+  }
+  return profile.mods;
+};
+
+// Moves mods between Mods and DisabledMods until exactly `enabled` (as far as present) is in Mods.
+const syncModsFolder = (userDir: string, enabled: Set<string>) => {
+  let ok = true;
+  const moves = [
+    ...listModFiles(getModsDir(userDir))
+      .filter((f) => !enabled.has(f))
+      .map((f) => [f, false] as const),
+    ...listModFiles(getDisabledModsDir(userDir))
+      .filter((f) => enabled.has(f))
+      .map((f) => [f, true] as const),
+  ];
+  for (const [fileName, enable] of moves) {
+    const result = setModEnabled(userDir, fileName, enable);
+    if (!result.ok) {
+      logger.warn(`Could not switch mod ${fileName}: ${result.error}`);
+      ok = false;
+    }
+  }
+  return ok;
+};
+
+/**
+ * Puts the Mods folder back the way it was before a profile launch. Runs after the game
+ * exits and, in case the launcher was closed meanwhile, before the next launch.
+ */
+export const restoreModsFolder = (userDir: string) => {
+  const pending = readJson<Record<string, string[]>>(getRestorePath(), {});
+  const enabledBefore = pending[userDir];
+  if (!Array.isArray(enabledBefore)) return;
+
+  logger.info(`Restoring the Mods folder of ${userDir}`);
+  // Keep the record if something couldn't move, so the next launch tries again.
+  if (!syncModsFolder(userDir, new Set(enabledBefore))) return;
+  delete pending[userDir];
+  writeJson(getRestorePath(), pending);
+};
+
+// Enables exactly `mods` in `userDir` for one launch, remembering what to restore afterwards.
+export const applyModSet = (userDir: string, mods: string[]) => {
+  restoreModsFolder(userDir);
+
+  const pending = readJson<Record<string, string[]>>(getRestorePath(), {});
+  if (!pending[userDir]) {
+    pending[userDir] = listModFiles(getModsDir(userDir));
+    writeJson(getRestorePath(), pending);
+  }
+
+  const available = new Set([
+    ...listModFiles(getModsDir(userDir)),
+    ...listModFiles(getDisabledModsDir(userDir)),
+  ]);
+  const missing = mods.filter((m) => !available.has(m));
+  if (missing.length) {
+    logger.warn(`Mod profile lists missing mods: ${missing.join(", ")}`);
+  }
+  syncModsFolder(userDir, new Set(mods));
+  logger.info(`Launching ${userDir} with ${mods.length} profile mod(s)`);
+};
@@ -0,0 +1,243 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import * as tar from "tar";
+import { logger } from "../logger";
+import {
+  getDisabledModsDir,
+  getModsDir,
+  isModFileName,
+  listMods,
+} from "./mods";
+
+// Archive layout: butterpack.json at the root, mods/ with the mod files, and config/ with the
+// chosen top-level UserData entries.
+const MODPACK_INFO_FILENAME = "butterpack.json";
+const MODPACK_FORMAT = 1;
+const MODS_ENTRY = "mods";
+const CONFIG_ENTRY = "config";
+
+// UserData entries that never travel as config: worlds and the mod folders themselves.
+const NON_CONFIG_ENTRIES = new Set(["saves", "worlds", "mods", "disabledmods"]);
+
+type ModpackExportOptions = {
+  name: string;
+  build: ModpackInfo["build"];
+  mods: string[];
+  config: string[];
+};
+
+const sha256File = (filePath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    const input = fs.createReadStream(filePath);
+    input.on("error", reject);
+    input.on("data", (chunk) => hash.update(chunk));
+    input.on("end", () => resolve(hash.digest("hex")));
+  });
+};
+
+const isPlainName = (name: unknown): name is string =>
+  typeof name === "string" &&
+  name === path.basename(name) &&
+  name !== "." &&
+  name !== "..";
+
+const isConfigName = (name: unknown): name is string =>
+  isPlainName(name) && !NON_CONFIG_ENTRIES.has(name.toLowerCase());
+
+const isValidInfo = (info: Partial<ModpackInfo> | null): info is ModpackInfo =>
+  !!info &&
+  info.format === MODPACK_FORMAT &&
+  typeof info.name === "string" &&
+  (info.build === null ||
+    ((info.build?.type === "release" || info.build?.type === "pre-release") &&
+      Number.isInteger(info.build?.build_index))) &&
+  Array.isArray(info.mods) &&
+  info.mods.every(
+    (m) =>
+      isPlainName(m?.fileName) &&
+      isModFileName(m.fileName) &&
+      /^[0-9a-f]{64}$/.test(m.sha256),
+  ) &&
+  Array.isArray(info.config) &&
+  info.config.every(isConfigName);
+
+const findModFile = (userDir: string, fileName: string) =>
+  [getModsDir(userDir), getDisabledModsDir(userDir)]
+    .map((dir) => path.join(dir, fileName))
+    .find((filePath) => fs.existsSync(filePath)) ?? null;
+
+/**
+ * Packs `options.mods` (enabled or not) and the chosen config entries of `userDir` into a
+ * gzipped tar at `outPath`, with a manifest listing every mod's SHA-256.
+ */
+export const exportModpack = async (
+  gameDir: string,
+  userDir: string,
+  options: ModpackExportOptions,
+  outPath: string,
+): Promise<IpcResult> => {
+  const stagingDir = path.join(gameDir, `modpack-export-temp-${Date.now()}`);
+  try {
+    const name = options.name.trim();
+    if (!name) throw new Error("Give the modpack a name.");
+    if (!options.mods.length && !options.config.length) {
+      throw new Error("There is nothing to export.");
+    }
+
+    const described = new Map(
+      (await listMods(userDir)).map((m) => [m.fileName, m]),
+    );
+    const modsDir = path.join(stagingDir, MODS_ENTRY);
+    const configDir = path.join(stagingDir, CONFIG_ENTRY);
+    fs.mkdirSync(modsDir, { recursive: true });
+    fs.mkdirSync(configDir, { recursive: true });
+
+    const mods: ModpackInfo["mods"] = [];
+    for (const fileName of options.mods) {
+      const source = isPlainName(fileName)
+        ? findModFile(userDir, fileName)
+        : null;
+      if (!source) throw new Error(`Mod not found: ${fileName}`);
+      fs.copyFileSync(source, path.join(modsDir, fileName));
+      const mod = described.get(fileName);
+      mods.push({
+        fileName,
+        sha256: await sha256File(source),
+        bytes: fs.statSync(source).size,
+        name: mod?.name,
+        version: mod?.version,
+      });
+    }
+
+    for (const entry of options.config) {
+      const source = path.join(userDir, entry);
+      if (!isConfigName(entry) || !fs.existsSync(source)) {
+        throw new Error(`Config entry not found: ${entry}`);
+      }
+      fs.cpSync(source, path.join(configDir, entry), { recursive: true });
+    }
+
+    const info: ModpackInfo = {
+      format: MODPACK_FORMAT,
+      name,
+      build: options.build,
+      mods,
+      config: options.config,
+      created_at: new Date().toISOString(),
+    };
+    fs.writeFileSync(
+      path.join(stagingDir, MODPACK_INFO_FILENAME),
+      JSON.stringify(info, null, 2),
+      "utf-8",
+    );
+
+    await tar.c(
+      { gzip: true, file: outPath, cwd: stagingDir, portable: true },
+      [MODPACK_INFO_FILENAME, MODS_ENTRY, CONFIG_ENTRY],
+    );
+    logger.info(
+      `Modpack "${name}" with ${mods.length} mod(s) written to ${outPath}`,
+    );
+    return { ok: true, error: null };
+  } catch (error) {
+    logger.error("Modpack export failed:", error);
+    fs.rmSync(outPath, { force: true });
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { ok: false, error: message };
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+};
+
+// Reads butterpack.json without unpacking the rest of the archive.
+export const readModpackInfo = async (
+  archivePath: string,
+): Promise<ModpackInfo | null> => {
+  try {
+    let raw = "";
+    await tar.t({
+      file: archivePath,
+      filter: (entryPath) => entryPath === MODPACK_INFO_FILENAME,
+      onReadEntry: (entry) => {
+        entry.on("data", (chunk: Buffer) => {
+          raw += chunk.toString("utf-8");
+        });
+      },
+    });
+    const info = JSON.parse(raw) as Partial<ModpackInfo>;
+    return isValidInfo(info) ? info : null;
+  } catch (error) {
+    logger.warn(`Could not read modpack info from ${archivePath}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Unpacks a modpack into `userDir`: its mods go into Mods (replacing mods with the same file
+ * name) and its config entries overwrite the ones in UserData. Every mod is checked against
+ * the manifest's hash before anything is touched.
+ */
+export const importModpack = async (
+  gameDir: string,
+  userDir: string,
+  archivePath: string,
+): Promise<IpcResult & { imported?: number }> => {
+  const extractDir = path.join(gameDir, `modpack-import-temp-${Date.now()}`);
+  try {
+    const info = await readModpackInfo(archivePath);
+    if (!info) throw new Error("Not a valid modpack.");
+
+    fs.mkdirSync(extractDir, { recursive: true });
+    // Plain files and folders only; links could point anywhere.
+    await tar.x({
+      file: archivePath,
+      cwd: extractDir,
+      filter: (_, entry) =>
+        "type" in entry &&
+        (entry.type === "File" || entry.type === "Directory"),
+    });
+
+    for (const mod of info.mods) {
+      const filePath = path.join(extractDir, MODS_ENTRY, mod.fileName);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`The modpack is missing ${mod.fileName}.`);
+      }
+      if ((await sha256File(filePath)) !== mod.sha256) {
+        throw new Error(`${mod.fileName} doesn't match the modpack's hash.`);
+      }
+    }
+
+    const modsDir = getModsDir(userDir);
+    const disabledDir = getDisabledModsDir(userDir);
+    fs.mkdirSync(modsDir, { recursive: true });
+    for (const mod of info.mods) {
+      fs.copyFileSync(
+        path.join(extractDir, MODS_ENTRY, mod.fileName),
+        path.join(modsDir, mod.fileName),
+      );
+      fs.rmSync(path.join(disabledDir, mod.fileName), { force: true });
+    }
+
+    for (const entry of info.config) {
+      const source = path.join(extractDir, CONFIG_ENTRY, entry);
+      if (!fs.existsSync(source)) continue;
+      fs.cpSync(source, path.join(userDir, entry), {
+        recursive: true,
+        force: true,
+      });
+    }
+
+    logger.info(
+      `Imported modpack "${info.name}" (${info.mods.length} mod(s)) into ${userDir}`,
+    );
+    return { ok: true, error: null, imported: info.mods.length };
+  } catch (error) {
+    logger.error("Modpack import failed:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { ok: false, error: message };
+  } finally {
+    fs.rmSync(extractDir, { recursive: true, force: true });
+  }
+};
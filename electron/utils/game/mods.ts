@@ -0,0 +1,241 @@
+import fs from "node:fs";
+import path from "node:path";
+import { logger } from "../logger";
+import { readZipDirectory, readZipEntry } from "./zip";
+
+export const MODS_DIRNAME = "Mods";
+// Disabled mods are parked next to Mods, where the game doesn't look.
+export const DISABLED_MODS_DIRNAME = "DisabledMods";
+
+const MOD_EXTENSIONS = new Set([".jar", ".zip"]);
+const MANIFEST_NAME = "manifest.json";
+const MAX_MANIFEST_SIZE = 1024 * 1024;
+
+type ModMetadata = Pick<
+  InstalledMod,
+  "name" | "version" | "authors" | "description"
+>;
+
+type ModResult = IpcResult & { mod?: InstalledMod };
+
+export const getModsDir = (userDir: string) => path.join(userDir, MODS_DIRNAME);
+
+export const getDisabledModsDir = (userDir: string) =>
+  path.join(userDir, DISABLED_MODS_DIRNAME);
+
+export const isModFileName = (name: string) =>
+  MOD_EXTENSIONS.has(path.extname(name).toLowerCase());
+
+const readString = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+// Hytale manifests use PascalCase keys; accept camelCase too.
+const pick = (raw: Record<string, unknown>, key: string) =>
+  raw[key] ?? raw[key.charAt(0).toLowerCase() + key.slice(1)];
+
+const parseManifest = (raw: unknown): ModMetadata => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("manifest.json is not a JSON object.");
+  }
+  const manifest = raw as Record<string, unknown>;
+  const authors = pick(manifest, "Authors");
+  return {
+    name: readString(pick(manifest, "Name")),
+    version: readString(pick(manifest, "Version")),
+    description: readString(pick(manifest, "Description")),
+    authors: Array.isArray(authors)
+      ? authors
+          .map((a) =>
+            a && typeof a === "object"
+              ? readString(pick(a as Record<string, unknown>, "Name"))
+              : readString(a),
+          )
+          .filter((a): a is string => !!a)
+      : undefined,
+  };
+};
+
+// Reads the mod's root manifest.json; throws when the file isn't a mod archive.
+const readModMetadata = async (filePath: string): Promise<ModMetadata> => {
+  let entries;
+  try {
+    entries = await readZipDirectory(filePath);
+  } catch {
+    throw new Error("This file is not a valid archive.");
+  }
+  const manifest = entries.find((e) => e.name.toLowerCase() === MANIFEST_NAME);
+  if (!manifest) {
+    throw new Error("The archive has no manifest.json, so it isn't a mod.");
+  }
+  if (
+    manifest.size > MAX_MANIFEST_SIZE ||
+    manifest.compressedSize > MAX_MANIFEST_SIZE
+  ) {
+    throw new Error("The mod's manifest.json is too large.");
+  }
+  const text = (
+    await readZipEntry(filePath, manifest, MAX_MANIFEST_SIZE)
+  ).toString("utf-8");
+  try {
+    return parseManifest(JSON.parse(text.replace(/^\uFEFF/, "")));
+  } catch (error) {
+    throw new Error(
+      error instanceof SyntaxError
+        ? "The mod's manifest.json is not valid JSON."
+        : (error as Error).message,
+    );
+  }
+};
+
+const describeMod = async (
+  dir: string,
+  fileName: string,
+  enabled: boolean,
+): Promise<InstalledMod> => {
+  const filePath = path.join(dir, fileName);
+  const mod: InstalledMod = {
+    fileName,
+    enabled,
+    bytes: fs.statSync(filePath).size,
+  };
+  try {
+    return { ...mod, ...(await readModMetadata(filePath)) };
+  } catch (error) {
+    logger.warn(`Could not read metadata of ${filePath}:`, error);
+    return mod;
+  }
+};
+
+export const listModFiles = (dir: string) => {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((d) => d.isFile() && isModFileName(d.name))
+    .map((d) => d.name);
+};
+
+export const listMods = async (userDir: string): Promise<InstalledMod[]> => {
+  const mods: InstalledMod[] = [];
+  for (const [dir, enabled] of [
+    [getModsDir(userDir), true],
+    [getDisabledModsDir(userDir), false],
+  ] as const) {
+    for (const fileName of listModFiles(dir)) {
+      mods.push(await describeMod(dir, fileName, enabled));
+    }
+  }
+  return mods.sort((a, b) =>
+    (a.name ?? a.fileName).localeCompare(b.name ?? b.fileName),
+  );
+};
+
+// `fileName` comes from the renderer: it must be a bare mod file name, nothing path-like.
+const isSafeFileName = (fileName: unknown): fileName is string =>
+  typeof fileName === "string" &&
+  fileName === path.basename(fileName) &&
+  fileName !== "." &&
+  fileName !== ".." &&
+  isModFileName(fileName);
+
+const locateMod = (userDir: string, fileName: unknown) => {
+  if (!isSafeFileName(fileName)) return null;
+  for (const [dir, enabled] of [
+    [getModsDir(userDir), true],
+    [getDisabledModsDir(userDir), false],
+  ] as const) {
+    const filePath = path.join(dir, fileName);
+    if (fs.existsSync(filePath)) return { filePath, enabled };
+  }
+  return null;
+};
+
+const fail = (error: unknown): ModResult => ({
+  ok: false,
+  error: error instanceof Error ? error.message : "Unknown error",
+});
+
+// Enables or disables a mod by moving it between Mods and DisabledMods.
+export const setModEnabled = (
+  userDir: string,
+  fileName: unknown,
+  enabled: boolean,
+): IpcResult => {
+  const mod = locateMod(userDir, fileName);
+  if (!mod) return { ok: false, error: "Unknown mod." };
+  if (mod.enabled === enabled) return { ok: true, error: null };
+
+  const targetDir = enabled ? getModsDir(userDir) : getDisabledModsDir(userDir);
+  const target = path.join(targetDir, fileName as string);
+  if (fs.existsSync(target)) {
+    return {
+      ok: false,
+      error: `Both Mods and ${DISABLED_MODS_DIRNAME} have ${fileName}; remove one first.`,
+    };
+  }
+  try {
+    fs.mkdirSync(targetDir, { recursive: true });
+    fs.renameSync(mod.filePath, target);
+    logger.info(`${enabled ? "Enabled" : "Disabled"} mod ${fileName}`);
+    return { ok: true, error: null };
+  } catch (error) {
+    logger.error(`Could not move mod ${fileName}:`, error);
+    return fail(error);
+  }
+};
+
+export const deleteMod = (userDir: string, fileName: unknown): IpcResult => {
+  const mod = locateMod(userDir, fileName);
+  if (!mod) return { ok: false, error: "Unknown mod." };
+  try {
+    fs.rmSync(mod.filePath, { force: true });
+    logger.info(`Deleted mod ${fileName}`);
+    return { ok: true, error: null };
+  } catch (error) {
+    logger.error(`Could not delete mod ${fileName}:`, error);
+    return fail(error);
+  }
+};
+
+/**
+ * Copies a user-picked file into Mods after checking it is a mod archive with a manifest.
+ * A mod with the same file name is replaced, whether it was enabled or not.
+ */
+export const importMod = async (
+  userDir: string,
+  sourcePath: string,
+): Promise<ModResult> => {
+  const fileName = path.basename(sourcePath);
+  try {
+    if (!isModFileName(fileName)) {
+      throw new Error("Only .jar and .zip mods are supported.");
+    }
+    if (!fs.statSync(sourcePath).isFile()) {
+      throw new Error("Not a file.");
+    }
+    await readModMetadata(sourcePath);
+
+    const modsDir = getModsDir(userDir);
+    fs.mkdirSync(modsDir, { recursive: true });
+    const staged = path.join(modsDir, `${fileName}.import-${process.pid}`);
+    try {
+      await fs.promises.copyFile(sourcePath, staged);
+      fs.renameSync(staged, path.join(modsDir, fileName));
+    } catch (error) {
+      fs.rmSync(staged, { force: true });
+      throw error;
+    }
+    fs.rmSync(path.join(getDisabledModsDir(userDir), fileName), {
+      force: true,
+    });
+
+    logger.info(`Imported mod ${fileName} from ${sourcePath}`);
+    return {
+      ok: true,
+      error: null,
+      mod: await describeMod(modsDir, fileName, true),
+    };
+  } catch (error) {
+    logger.warn(`Rejected mod import ${sourcePath}:`, error);
+    return fail(error);
+  }
+};
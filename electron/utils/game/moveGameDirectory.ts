@@ -0,0 +1,251 @@
+import fs from "node:fs";
+import path from "node:path";
+import { logger } from "../logger";
+import { getDirectorySize } from "./diskUsage";
+import { ensureDiskSpace } from "./diskSpace";
+import type { InstallEventTarget } from "./eventTarget";
+import {
+  getDefaultGameDirectory,
+  getGameDirectory,
+  isPathInside,
+  normalizePath,
+  setGameDirectoryMoving,
+  writeGameDirectorySetting,
+} from "./gameDirectory";
+import { listLibraries } from "./libraries";
+
+const PROGRESS_INTERVAL_MS = 200;
+
+type MovedEntry = { from: string; to: string; copied: boolean };
+
+// Device of `dir`, or of its nearest existing parent.
+const getDevice = (dir: string) => {
+  let current = path.resolve(dir);
+  while (!fs.existsSync(current)) {
+    const parent = path.dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+  try {
+    return fs.statSync(current).dev;
+  } catch {
+    return null;
+  }
+};
+
+// Returns why `target` can't become the game directory, or null if it can.
+export const validateGameDirTarget = (
+  target: string,
+  moveFiles: boolean,
+): string | null => {
+  if (!path.isAbsolute(target))
+    return "The directory must be an absolute path.";
+
+  const current = getGameDirectory();
+  if (normalizePath(target) === normalizePath(current)) {
+    return "This already is the game directory.";
+  }
+  if (isPathInside(current, target) || isPathInside(target, current)) {
+    return "The new directory can't be inside the current one or contain it.";
+  }
+  // The game directory is the primary library; same no-overlap rule as addLibrary.
+  const overlapping = listLibraries(current).find(
+    (l) =>
+      !l.isPrimary &&
+      (isPathInside(l.path, target) || isPathInside(target, l.path)),
+  );
+  if (overlapping) {
+    return `The new directory overlaps the "${overlapping.name}" library.`;
+  }
+
+  if (fs.existsSync(target)) {
+    if (!fs.statSync(target).isDirectory()) {
+      return "The destination is not a directory.";
+    }
+    if (moveFiles && fs.readdirSync(target).length) {
+      return "Pick an empty directory to move the game files into.";
+    }
+  }
+  return null;
+};
+
+const ensureWritable = (dir: string) => {
+  fs.mkdirSync(dir, { recursive: true });
+  const probe = path.join(dir, `.butter-write-test-${process.pid}`);
+  fs.writeFileSync(probe, "");
+  fs.rmSync(probe, { force: true });
+};
+
+const copyTree = async (
+  from: string,
+  to: string,
+  onBytes: (bytes: number) => void,
+) => {
+  const stat = await fs.promises.lstat(from);
+  if (stat.isSymbolicLink()) {
+    await fs.promises.symlink(await fs.promises.readlink(from), to);
+    return;
+  }
+  if (stat.isDirectory()) {
+    await fs.promises.mkdir(to, { recursive: true });
+    for (const name of await fs.promises.readdir(from)) {
+      await copyTree(path.join(from, name), path.join(to, name), onBytes);
+    }
+    return;
+  }
+  await fs.promises.copyFile(from, to, fs.constants.COPYFILE_EXCL);
+  onBytes(stat.size);
+};
+
+// Puts everything back where it was; used when a move fails halfway.
+const rollback = (moved: MovedEntry[], partial: string | null) => {
+  if (partial) fs.rmSync(partial, { recursive: true, force: true });
+  for (const entry of [...moved].reverse()) {
+    try {
+      if (entry.copied) {
+        // The source is still intact; drop the copy.
+        fs.rmSync(entry.to, { recursive: true, force: true });
+      } else {
+        fs.renameSync(entry.to, entry.from);
+      }
+    } catch (error) {
+      logger.error(`Could not roll back ${entry.to}:`, error);
+    }
+  }
+};
+
+/**
+ * Moves every top-level entry of `from` (builds, jre, UserData, ...) into `to`.
+ * Same-volume entries are renamed; others are copied first and only deleted once everything
+ * made it across and `commit` (saving the new location) succeeded, so a failure at any point
+ * leaves the original directory usable.
+ */
+const moveContents = async (
+  from: string,
+  to: string,
+  win: InstallEventTarget,
+  commit: () => void,
+) => {
+  const names = fs.readdirSync(from);
+  const sizes = await Promise.all(
+    names.map(async (name) => {
+      const entryPath = path.join(from, name);
+      return fs.statSync(entryPath).isDirectory()
+        ? getDirectorySize(entryPath)
+        : fs.statSync(entryPath).size;
+    }),
+  );
+  const total = sizes.reduce((sum, n) => sum + n, 0);
+
+  if (getDevice(from) !== getDevice(to)) {
+    await ensureDiskSpace(to, total);
+  }
+
+  let current = 0;
+  let lastSent = 0;
+  const report = (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastSent < PROGRESS_INTERVAL_MS) return;
+    lastSent = now;
+    win.webContents.send("game-dir-progress", {
+      phase: "game-dir-move",
+      percent: total > 0 ? Math.round((current / total) * 100) : -1,
+      total,
+      current,
+    });
+  };
+  report(true);
+
+  const moved: MovedEntry[] = [];
+  let partial: string | null = null;
+  try {
+    for (let i = 0; i < names.length; i++) {
+      const entry = {
+        from: path.join(from, names[i]),
+        to: path.join(to, names[i]),
+      };
+      try {
+        fs.renameSync(entry.from, entry.to);
+        moved.push({ ...entry, copied: false });
+        current += sizes[i];
+        report();
+        continue;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+      }
+
+      partial = entry.to;
+      await copyTree(entry.from, entry.to, (bytes) => {
+        current += bytes;
+        report();
+      });
+      partial = null;
+      moved.push({ ...entry, copied: true });
+    }
+    commit();
+  } catch (error) {
+    logger.error("Moving the game directory failed, rolling back:", error);
+    rollback(moved, partial);
+    throw error;
+  }
+
+  // Everything is in place; only now drop the copied originals.
+  for (const entry of moved) {
+    if (!entry.copied) continue;
+    try {
+      fs.rmSync(entry.from, { recursive: true, force: true });
+    } catch (error) {
+      logger.warn(`Could not remove ${entry.from} after copying it:`, error);
+    }
+  }
+  try {
+    fs.rmdirSync(from);
+  } catch {
+    // Not empty (something new appeared) or in use; harmless.
+  }
+  report(true);
+};
+
+/**
+ * Switches the game to `target` (null = the default location), optionally taking the existing
+ * files along. The setting is saved once the files are in place but before any original is
+ * deleted; if saving fails, the move is rolled back.
+ */
+export const changeGameDirectory = async (
+  target: string | null,
+  moveFiles: boolean,
+  win: InstallEventTarget,
+): Promise<IpcResult & { path?: string }> => {
+  const destination = path.resolve(target ?? getDefaultGameDirectory());
+  const invalid = validateGameDirTarget(destination, moveFiles);
+  if (invalid) return { ok: false, error: invalid };
+
+  const current = getGameDirectory();
+  const existedBefore = fs.existsSync(destination);
+  const saveSetting = () =>
+    writeGameDirectorySetting(target === null ? null : destination);
+  setGameDirectoryMoving(true);
+  try {
+    ensureWritable(destination);
+    if (moveFiles && fs.existsSync(current)) {
+      logger.info(`Moving game directory from ${current} to ${destination}`);
+      await moveContents(current, destination, win, saveSetting);
+    } else {
+      saveSetting();
+    }
+    logger.info(`Game directory set to ${destination}`);
+    return { ok: true, error: null, path: destination };
+  } catch (error) {
+    if (!existedBefore) {
+      try {
+        fs.rmdirSync(destination);
+      } catch {
+        // Not empty; leave it.
+      }
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { ok: false, error: message };
+  } finally {
+    setGameDirectoryMoving(false);
+  }
+};
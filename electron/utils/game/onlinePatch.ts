@@ -3,8 +3,9 @@ import path from "path";
 import crypto from "node:crypto";
 import stream from "node:stream";
 import { promisify } from "util";
-import { BrowserWindow } from "electron";
-import { migrateLegacyChannelInstallIfNeeded, resolveClientPath, resolveExistingInstallDir } from "./paths";
+import type { InstallEventTarget } from "./eventTarget";
+import { resolveBuildInstallDir } from "./libraries";
+import { migrateLegacyChannelInstallIfNeeded, resolveClientPath } from "./paths";
 
 const pipeline = promisify(stream.pipeline);
 
@@ -38,7 +39,7 @@ const sha256File = (filePath: string): Promise<string> => {
 
 const getClientPath = (gameDir: string, version: GameVersion) => {
   migrateLegacyChannelInstallIfNeeded(gameDir, version.type);
-  const installDir = resolveExistingInstallDir(gameDir, version);
+  const installDir = resolveBuildInstallDir(gameDir, version);
   return resolveClientPath(installDir);
 };
 
@@ -143,7 +144,7 @@ const writePatchState = (statePath: string, next: PatchStateFile) => {
 const downloadFileWithProgress = async (
   url: string,
   outPath: string,
-  win: BrowserWindow,
+  win: InstallEventTarget,
   progressChannel: "install-progress" | "online-patch-progress" | "online-unpatch-progress",
   phase: "online-patch" | "online-unpatch" = "online-patch",
 ) => {
@@ -216,15 +217,21 @@ const downloadFileWithProgress = async (
   });
 };
 
+// True when the install's active client is the swapped online-patch binary.
+// Such installs can't be used as a base for butler patches (the exe differs from upstream).
+export const isOnlinePatchActive = (installDir: string): boolean => {
+  try {
+    const { statePath } = getPatchPaths(resolveClientPath(installDir));
+    return !!readPatchState(statePath)?.enabled;
+  } catch {
+    return false;
+  }
+};
+
 export const getOnlinePatchState = (
   gameDir: string,
   version: GameVersion,
-): {
-  supported: boolean;
-  available: boolean;
-  enabled: boolean;
-  downloaded: boolean;
-} => {
+): OnlinePatchState => {
   const supported = process.platform === "win32";
   const available = !!(version.patch_url && version.patch_hash);
   if (!supported || !available) return { supported, available, enabled: false, downloaded: false };
@@ -283,14 +290,7 @@ export const getOnlinePatchState = (
 export const getOnlinePatchHealth = async (
   gameDir: string,
   version: GameVersion,
-): Promise<{
-  supported: boolean;
-  available: boolean;
-  enabled: boolean;
-  clientIsPatched: boolean;
-  needsFixClient: boolean;
-  patchOutdated: boolean;
-}> => {
+): Promise<OnlinePatchHealth> => {
   const supported = process.platform === "win32";
   const available = !!(version.patch_url && version.patch_hash);
   if (!supported || !available) {
@@ -362,7 +362,7 @@ export const getOnlinePatchHealth = async (
 export const fixClientToUnpatched = async (
   gameDir: string,
   version: GameVersion,
-  win: BrowserWindow,
+  win: InstallEventTarget,
   progressChannel: "online-unpatch-progress" = "online-unpatch-progress",
 ): Promise<"fixed" | "not-needed" | "skipped"> => {
   if (process.platform !== "win32") return "skipped";
@@ -446,7 +446,7 @@ export const fixClientToUnpatched = async (
 export const enableOnlinePatch = async (
   gameDir: string,
   version: GameVersion,
-  win: BrowserWindow,
+  win: InstallEventTarget,
   progressChannel: "install-progress" | "online-patch-progress" = "online-patch-progress",
 ): Promise<"enabled" | "already-enabled" | "skipped"> => {
   if (process.platform !== "win32") return "skipped";
@@ -588,7 +588,7 @@ export const enableOnlinePatch = async (
 export const disableOnlinePatch = async (
   gameDir: string,
   version: GameVersion,
-  win: BrowserWindow,
+  win: InstallEventTarget,
   progressChannel: "online-unpatch-progress" = "online-unpatch-progress",
 ): Promise<"disabled" | "already-disabled" | "skipped"> => {
   if (process.platform !== "win32") return "skipped";
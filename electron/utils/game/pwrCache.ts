@@ -0,0 +1,182 @@
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { logger } from "../logger";
+
+const SETTINGS_FILENAME = "pwr-cache.json";
+const CACHE_DIRNAME = "pwr-cache";
+
+export const DEFAULT_PWR_CACHE_SETTINGS: PwrCacheSettings = {
+  enabled: false,
+  maxSizeGB: 10,
+};
+
+const GB = 1024 * 1024 * 1024;
+
+const getSettingsPath = () => path.join(META_DIRECTORY, SETTINGS_FILENAME);
+const getCacheDir = () => path.join(META_DIRECTORY, CACHE_DIRNAME);
+
+const normalizeSettings = (raw: unknown): PwrCacheSettings => {
+  const s = (raw ?? {}) as Partial<PwrCacheSettings>;
+  const max = typeof s.maxSizeGB === "number" ? s.maxSizeGB : NaN;
+  return {
+    enabled: s.enabled === true,
+    maxSizeGB: Number.isFinite(max)
+      ? Math.min(500, Math.max(1, Math.round(max)))
+      : DEFAULT_PWR_CACHE_SETTINGS.maxSizeGB,
+  };
+};
+
+export const readPwrCacheSettings = (): PwrCacheSettings => {
+  try {
+    const filePath = getSettingsPath();
+    if (!fs.existsSync(filePath)) return { ...DEFAULT_PWR_CACHE_SETTINGS };
+    return normalizeSettings(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+  } catch {
+    return { ...DEFAULT_PWR_CACHE_SETTINGS };
+  }
+};
+
+// Full patch URLs look like .../<os>/<arch>/<type>/0/<build>.pwr; that tuple is the cache key.
+const getCacheFileName = (version: GameVersion) => {
+  const match = version.url.match(
+    /\/([^/]+)\/([^/]+)\/(release|pre-release)\/0\/(\d+)\.pwr$/,
+  );
+  if (!match || match[3] !== version.type) return null;
+  if (Number(match[4]) !== version.build_index) return null;
+  return `${match[1]}-${match[2]}-${match[3]}-${match[4]}.pwr`;
+};
+
+type CacheEntry = { path: string; size: number; lastUsed: number };
+
+const listEntries = (): CacheEntry[] => {
+  const dir = getCacheDir();
+  if (!fs.existsSync(dir)) return [];
+  const entries: CacheEntry[] = [];
+  for (const name of fs.readdirSync(dir)) {
+    if (!name.endsWith(".pwr")) continue;
+    try {
+      const p = path.join(dir, name);
+      const st = fs.statSync(p);
+      if (st.isFile()) {
+        entries.push({ path: p, size: st.size, lastUsed: st.mtimeMs });
+      }
+    } catch {
+      // ignore
+    }
+  }
+  return entries;
+};
+
+// Drops least recently used patches until the cache fits in `maxBytes`.
+const evictPwrCache = (maxBytes: number) => {
+  const entries = listEntries().sort((a, b) => a.lastUsed - b.lastUsed);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries) {
+    if (total <= maxBytes) break;
+    try {
+      fs.unlinkSync(entry.path);
+      total -= entry.size;
+      logger.info(`PWR cache: evicted ${path.basename(entry.path)}`);
+    } catch (error) {
+      logger.warn(`PWR cache: could not evict ${entry.path}:`, error);
+    }
+  }
+};
+
+export const writePwrCacheSettings = (settings: unknown): PwrCacheSettings => {
+  const normalized = normalizeSettings(settings);
+  fs.mkdirSync(META_DIRECTORY, { recursive: true });
+  fs.writeFileSync(
+    getSettingsPath(),
+    JSON.stringify(normalized, null, 2),
+    "utf-8",
+  );
+  // A smaller cap applies right away.
+  evictPwrCache(normalized.maxSizeGB * GB);
+  return normalized;
+};
+
+/**
+ * Path of the cached full patch for `version`, or null on a miss or when caching is off.
+ * A hit counts as a use for LRU purposes.
+ */
+export const getCachedPwr = (version: GameVersion): string | null => {
+  if (!readPwrCacheSettings().enabled) return null;
+  const name = getCacheFileName(version);
+  if (!name) return null;
+
+  const cachedPath = path.join(getCacheDir(), name);
+  if (!fs.existsSync(cachedPath)) return null;
+  try {
+    const now = new Date();
+    fs.utimesSync(cachedPath, now, now);
+  } catch {
+    // ignore
+  }
+  return cachedPath;
+};
+
+export const removeCachedPwr = (cachedPath: string) => {
+  try {
+    if (fs.existsSync(cachedPath)) fs.unlinkSync(cachedPath);
+  } catch {
+    // ignore
+  }
+};
+
+/**
+ * Moves a downloaded full patch into the cache. Returns false when caching is off or the file
+ * could not be stored; the caller still owns `pwrPath` in that case.
+ */
+export const storePwrInCache = (version: GameVersion, pwrPath: string) => {
+  const settings = readPwrCacheSettings();
+  if (!settings.enabled) return false;
+  const name = getCacheFileName(version);
+  if (!name) return false;
+
+  const maxBytes = settings.maxSizeGB * GB;
+  try {
+    const size = fs.statSync(pwrPath).size;
+    if (size > maxBytes) return false;
+
+    const cacheDir = getCacheDir();
+    fs.mkdirSync(cacheDir, { recursive: true });
+    const target = path.join(cacheDir, name);
+    try {
+      fs.renameSync(pwrPath, target);
+    } catch {
+      // Cross-device fallback
+      fs.copyFileSync(pwrPath, target);
+      fs.unlinkSync(pwrPath);
+    }
+    logger.info(`PWR cache: stored ${name}`);
+    evictPwrCache(maxBytes);
+    return true;
+  } catch (error) {
+    logger.warn(`PWR cache: could not store ${pwrPath}:`, error);
+    return false;
+  }
+};
+
+export const getPwrCacheStatus = (): PwrCacheStatus => {
+  const entries = listEntries();
+  return {
+    settings: readPwrCacheSettings(),
+    entries: entries.length,
+    sizeBytes: entries.reduce((sum, e) => sum + e.size, 0),
+  };
+};
+
+export const clearPwrCache = () => {
+  let removed = 0;
+  for (const entry of listEntries()) {
+    try {
+      fs.unlinkSync(entry.path);
+      removed++;
+    } catch (error) {
+      logger.warn(`PWR cache: could not remove ${entry.path}:`, error);
+    }
+  }
+  return removed;
+};
@@ -0,0 +1,81 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import { logger } from "../logger";
+
+// Wharf patches start with the little-endian int32 0x0FEF5F00.
+const PWR_MAGIC = Buffer.from([0x00, 0x5f, 0xef, 0x0f]);
+
+export type PwrExpectation = {
+  // Size in bytes, from the versions feed or the server's content-length.
+  size?: number;
+  sha256?: string;
+};
+
+export class PwrIntegrityError extends Error {
+  constructor(reason: string) {
+    super(`Downloaded patch failed the integrity check: ${reason}`);
+    this.name = "PwrIntegrityError";
+  }
+}
+
+export const hasPwrMagic = (pwrPath: string) => {
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(pwrPath, "r");
+    const header = Buffer.alloc(PWR_MAGIC.length);
+    const read = fs.readSync(fd, header, 0, header.length, 0);
+    return read === header.length && header.equals(PWR_MAGIC);
+  } catch {
+    return false;
+  } finally {
+    if (fd !== null) fs.closeSync(fd);
+  }
+};
+
+const hashFile = async (
+  filePath: string,
+  onProgress?: (current: number, total: number) => void,
+) => {
+  const total = fs.statSync(filePath).size;
+  const hash = crypto.createHash("sha256");
+  let current = 0;
+  const fileStream = fs.createReadStream(filePath);
+  fileStream.on("data", (chunk) => {
+    hash.update(chunk);
+    current += chunk.length;
+    onProgress?.(current, total);
+  });
+  await new Promise((resolve, reject) => {
+    fileStream.on("end", () => resolve(true));
+    fileStream.on("error", reject);
+  });
+  return hash.digest("hex");
+};
+
+/**
+ * Checks a PWR on disk against whatever is known about it.
+ * Returns null when it looks intact, otherwise a short reason.
+ */
+export const checkPwrIntegrity = async (
+  pwrPath: string,
+  expected: PwrExpectation,
+  onHashProgress?: (current: number, total: number) => void,
+): Promise<string | null> => {
+  if (!fs.existsSync(pwrPath)) return "file is missing";
+
+  const size = fs.statSync(pwrPath).size;
+  if (typeof expected.size === "number" && size !== expected.size) {
+    return `size mismatch (${size} of ${expected.size} bytes)`;
+  }
+  if (!hasPwrMagic(pwrPath)) return "not a PWR file (bad header)";
+
+  if (expected.sha256) {
+    const fileHash = await hashFile(pwrPath, onHashProgress);
+    if (fileHash.toLowerCase() !== expected.sha256.toLowerCase()) {
+      return "sha256 mismatch";
+    }
+    logger.info(`PWR hash verified for ${pwrPath}`);
+  }
+
+  return null;
+};
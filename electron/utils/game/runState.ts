@@ -0,0 +1,19 @@
+// Which build the launched game process belongs to, so disk cleanup never touches it.
+let runningBuild: Pick<GameVersion, "type" | "build_index"> | null = null;
+
+export const setRunningBuild = (
+  build: Pick<GameVersion, "type" | "build_index"> | null,
+) => {
+  runningBuild = build
+    ? { type: build.type, build_index: build.build_index }
+    : null;
+};
+
+export const isBuildRunning = (
+  build: Pick<GameVersion, "type" | "build_index">,
+) =>
+  !!runningBuild &&
+  runningBuild.type === build.type &&
+  runningBuild.build_index === build.build_index;
+
+export const isAnyBuildRunning = () => !!runningBuild;
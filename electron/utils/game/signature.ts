@@ -0,0 +1,68 @@
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { logger } from "../logger";
+import {
+  isButlerCancelled,
+  parseButlerProgress,
+  runButlerOrThrow,
+} from "./butler";
+import type { InstallEventTarget } from "./eventTarget";
+
+// Butler signatures of known-good builds, used later by "Verify files".
+export const getBuildSignaturePath = (
+  version: Pick<GameVersion, "type" | "build_index">,
+) =>
+  path.join(
+    META_DIRECTORY,
+    "signatures",
+    version.type,
+    `build-${version.build_index}.sig`,
+  );
+
+export const cacheBuildSignature = async (
+  butlerPath: string,
+  buildDir: string,
+  version: Pick<GameVersion, "type" | "build_index">,
+  win: InstallEventTarget,
+  signal?: AbortSignal,
+): Promise<string | null> => {
+  const sigPath = getBuildSignaturePath(version);
+  try {
+    fs.mkdirSync(path.dirname(sigPath), { recursive: true });
+    logger.info(`Signing ${buildDir} into ${sigPath}`);
+
+    win.webContents.send("install-progress", {
+      phase: "signing",
+      percent: -1,
+    });
+
+    await runButlerOrThrow(
+      butlerPath,
+      ["sign", "--json", buildDir, sigPath],
+      (obj) => {
+        const percent = parseButlerProgress(obj);
+        if (typeof percent !== "number") return;
+        win.webContents.send("install-progress", {
+          phase: "signing",
+          percent,
+        });
+      },
+      signal,
+    );
+
+    return sigPath;
+  } catch (error) {
+    if (!isButlerCancelled(error)) {
+      logger.warn("Failed to cache build signature:", error);
+    }
+    try {
+      if (fs.existsSync(sigPath)) fs.unlinkSync(sigPath);
+    } catch {
+      // ignore
+    }
+    // A cancel is not a signing failure; let the caller report it as such.
+    if (isButlerCancelled(error)) throw error;
+    return null;
+  }
+};
@@ -0,0 +1,232 @@
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { logger } from "../logger";
+import { getDirectorySize } from "./diskUsage";
+import { isBuildRunning } from "./runState";
+import { isBuildCheckRunning } from "./verify";
+import {
+  getLatestDir,
+  getPreReleaseChannelDir,
+  getReleaseChannelDir,
+} from "./paths";
+import { listInstalledVersions } from "./installed";
+import { listInstances } from "./instances";
+import { getLibraryRoots } from "./libraries";
+import { listInstalledBuildsWithSize, uninstallBuild } from "./uninstall";
+
+const RETENTION_FILENAME = "retention.json";
+const STAGING_DIRNAME = "staging-temp";
+const ONLINE_PATCH_DIRNAME = ".butter-online-patch";
+const DOWNLOAD_META_SUFFIX = ".download.json";
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  enabled: false,
+  keepReleases: 2,
+  keepPreReleases: 1,
+};
+
+const getRetentionPath = () => path.join(META_DIRECTORY, RETENTION_FILENAME);
+
+const clampKeep = (value: unknown, fallback: number) => {
+  const n = typeof value === "number" ? Math.floor(value) : NaN;
+  return Number.isFinite(n) ? Math.min(50, Math.max(1, n)) : fallback;
+};
+
+const normalizePolicy = (raw: unknown): RetentionPolicy => {
+  const p = (raw ?? {}) as Partial<RetentionPolicy>;
+  return {
+    enabled: p.enabled === true,
+    keepReleases: clampKeep(
+      p.keepReleases,
+      DEFAULT_RETENTION_POLICY.keepReleases,
+    ),
+    keepPreReleases: clampKeep(
+      p.keepPreReleases,
+      DEFAULT_RETENTION_POLICY.keepPreReleases,
+    ),
+  };
+};
+
+export const readRetentionPolicy = (): RetentionPolicy => {
+  try {
+    const filePath = getRetentionPath();
+    if (!fs.existsSync(filePath)) return { ...DEFAULT_RETENTION_POLICY };
+    return normalizePolicy(JSON.parse(fs.readFileSync(filePath, "utf-8")));
+  } catch {
+    return { ...DEFAULT_RETENTION_POLICY };
+  }
+};
+
+export const writeRetentionPolicy = (policy: unknown): RetentionPolicy => {
+  const normalized = normalizePolicy(policy);
+  fs.mkdirSync(META_DIRECTORY, { recursive: true });
+  fs.writeFileSync(
+    getRetentionPath(),
+    JSON.stringify(normalized, null, 2),
+    "utf-8",
+  );
+  return normalized;
+};
+
+// Leftovers in the game directory root: PWR/JRE downloads (and their resume sidecars), repair and import scratch dirs.
+const listTempEntries = (gameDir: string) => {
+  if (!fs.existsSync(gameDir)) return [];
+  const entries = fs.readdirSync(gameDir, { withFileTypes: true });
+  const names = new Set<string>();
+  for (const d of entries) {
+    if (
+      d.isDirectory() &&
+      (d.name.startsWith("repair-temp-") ||
+        d.name.startsWith("bundle-import-temp-"))
+    ) {
+      names.add(d.name);
+    }
+    if (!d.isFile()) continue;
+    if (/^temp_.*\.pwr$/.test(d.name)) names.add(d.name);
+    if (d.name.endsWith(DOWNLOAD_META_SUFFIX)) {
+      names.add(d.name);
+      // The partial file the sidecar describes (e.g. an interrupted JRE archive).
+      names.add(d.name.slice(0, -DOWNLOAD_META_SUFFIX.length));
+    }
+  }
+  return [...names]
+    .map((name) => path.join(gameDir, name))
+    .filter((p) => fs.existsSync(p));
+};
+
+// Every build folder in every library, whether or not it is a complete install.
+const listBuildFolders = (gameDir: string) => {
+  const dirs: string[] = [];
+  for (const { path: root } of getLibraryRoots(gameDir)) {
+    for (const channelDir of [
+      getReleaseChannelDir(root),
+      getPreReleaseChannelDir(root),
+    ]) {
+      if (!fs.existsSync(channelDir)) continue;
+      for (const d of fs.readdirSync(channelDir, { withFileTypes: true })) {
+        if (d.isDirectory() && /^build-\d+$/.test(d.name)) {
+          dirs.push(path.join(channelDir, d.name));
+        }
+      }
+    }
+    const latestDir = getLatestDir(root);
+    if (fs.existsSync(latestDir)) dirs.push(latestDir);
+  }
+  return dirs;
+};
+
+const getPathSize = async (target: string) => {
+  try {
+    const st = await fs.promises.lstat(target);
+    if (st.isDirectory()) return getDirectorySize(target);
+    return st.isFile() ? st.size : 0;
+  } catch {
+    return 0;
+  }
+};
+
+export const getStorageUsage = async (
+  gameDir: string,
+): Promise<StorageUsage> => {
+  const builds = await listInstalledBuildsWithSize(gameDir);
+  const jreBytes = await getDirectorySize(path.join(gameDir, "jre"));
+  const userDataBytes = await getDirectorySize(path.join(gameDir, "UserData"));
+
+  let tempBytes = 0;
+  for (const entry of listTempEntries(gameDir)) {
+    tempBytes += await getPathSize(entry);
+  }
+
+  let stagingBytes = 0;
+  let onlinePatchBytes = 0;
+  for (const dir of listBuildFolders(gameDir)) {
+    stagingBytes += await getDirectorySize(path.join(dir, STAGING_DIRNAME));
+    onlinePatchBytes += await getDirectorySize(
+      path.join(dir, "Client", ONLINE_PATCH_DIRNAME),
+    );
+  }
+
+  const buildsBytes = builds.reduce((sum, b) => sum + b.sizeBytes, 0);
+
+  return {
+    builds,
+    jreBytes,
+    userDataBytes,
+    tempBytes,
+    stagingBytes,
+    onlinePatchBytes,
+    totalBytes: buildsBytes + jreBytes + userDataBytes + tempBytes,
+  };
+};
+
+/**
+ * Deletes leftover downloads and staging folders. Only call this while no install is running,
+ * since in-flight downloads and applies live in the same places.
+ */
+export const cleanTemporaryFiles = (gameDir: string) => {
+  let removed = 0;
+  const targets = [
+    ...listTempEntries(gameDir),
+    ...listBuildFolders(gameDir).map((dir) => path.join(dir, STAGING_DIRNAME)),
+  ];
+  for (const target of targets) {
+    try {
+      if (!fs.existsSync(target)) continue;
+      fs.rmSync(target, { recursive: true, force: true });
+      removed++;
+    } catch (error) {
+      logger.warn(`Failed to remove ${target}:`, error);
+    }
+  }
+  return removed;
+};
+
+/**
+ * Applies the retention policy: keeps the newest N builds per channel and uninstalls the rest.
+ * `protect` lists builds that must survive regardless (just installed, queued, ...); the running
+ * build, any build being verified or repaired and every build an instance is pinned to are
+ * always kept.
+ */
+export const pruneInstalledBuilds = async (
+  gameDir: string,
+  protect: Array<Pick<GameVersion, "type" | "build_index">> = [],
+): Promise<InstalledBuildInfo[]> => {
+  const policy = readRetentionPolicy();
+  if (!policy.enabled) return [];
+
+  const pinned = listInstances(gameDir).map((i) => i.build);
+  const isProtected = (b: Pick<GameVersion, "type" | "build_index">) =>
+    isBuildRunning(b) ||
+    isBuildCheckRunning(b) ||
+    [...protect, ...pinned].some(
+      (p) => p.type === b.type && p.build_index === b.build_index,
+    );
+
+  const builds = listInstalledVersions(gameDir);
+  const removed: InstalledBuildInfo[] = [];
+
+  for (const type of ["release", "pre-release"] as const) {
+    const keep =
+      type === "release" ? policy.keepReleases : policy.keepPreReleases;
+    const candidates = builds
+      .filter((b) => b.type === type)
+      .sort((a, b) => b.build_index - a.build_index)
+      .slice(keep);
+
+    for (const build of candidates) {
+      if (isProtected(build)) continue;
+      const result = uninstallBuild(gameDir, build);
+      if (result.ok) {
+        logger.info(`Retention: removed ${type} build ${build.build_index}`);
+        removed.push(build);
+      } else {
+        logger.warn(
+          `Retention: could not remove ${type} build ${build.build_index}: ${result.error}`,
+        );
+      }
+    }
+  }
+
+  return removed;
+};
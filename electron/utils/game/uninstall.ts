@@ -0,0 +1,122 @@
+import fs from "node:fs";
+import path from "node:path";
+import { logger } from "../logger";
+import { getDirectorySize } from "./diskUsage";
+import { listInstalledVersions } from "./installed";
+import { resolveBuildRoot } from "./libraries";
+import { INSTALLED_MANIFEST_FILENAME, readInstallManifest } from "./manifest";
+import {
+  getLatestDir,
+  getPreReleaseBuildDir,
+  getReleaseBuildDir,
+  migrateLegacyChannelInstallIfNeeded,
+} from "./paths";
+import { getBuildSignaturePath } from "./signature";
+
+type BuildRef = Pick<GameVersion, "type" | "build_index">;
+
+const isBuildRef = (value: unknown): value is BuildRef => {
+  const v = value as BuildRef | null;
+  return (
+    !!v &&
+    (v.type === "release" || v.type === "pre-release") &&
+    Number.isInteger(v.build_index) &&
+    v.build_index > 0
+  );
+};
+
+// Every directory holding this build: its channel folder and, for releases, the `latest` alias.
+const getBuildDirs = (gameDir: string, build: BuildRef) => {
+  const dirs: string[] = [];
+  const root = resolveBuildRoot(gameDir, build);
+
+  if (build.type === "release") {
+    const latestDir = getLatestDir(root);
+    if (readInstallManifest(latestDir)?.build_index === build.build_index) {
+      dirs.push(latestDir);
+    }
+  }
+
+  const buildDir =
+    build.type === "release"
+      ? getReleaseBuildDir(root, build.build_index)
+      : getPreReleaseBuildDir(root, build.build_index);
+  if (fs.existsSync(buildDir)) dirs.push(buildDir);
+
+  return dirs;
+};
+
+export const listInstalledBuildsWithSize = async (
+  gameDir: string,
+): Promise<InstalledBuildEntry[]> => {
+  const out: InstalledBuildEntry[] = [];
+  for (const build of listInstalledVersions(gameDir)) {
+    let sizeBytes = 0;
+    for (const dir of getBuildDirs(gameDir, build)) {
+      sizeBytes += await getDirectorySize(dir);
+    }
+    out.push({
+      type: build.type,
+      build_index: build.build_index,
+      build_name: build.build_name,
+      isLatest: build.isLatest,
+      libraryId: build.libraryId,
+      sizeBytes,
+    });
+  }
+  return out.sort((a, b) =>
+    a.type === b.type
+      ? b.build_index - a.build_index
+      : a.type === "release"
+        ? -1
+        : 1,
+  );
+};
+
+/**
+ * Deletes an installed build from disk, including a `latest` alias that points at it.
+ * The caller is responsible for making sure the build is not running or being installed.
+ */
+export const uninstallBuild = (
+  gameDir: string,
+  build: BuildRef,
+): { ok: boolean; error: string | null } => {
+  if (!isBuildRef(build)) return { ok: false, error: "Invalid build" };
+
+  try {
+    migrateLegacyChannelInstallIfNeeded(gameDir, build.type);
+
+    const dirs = getBuildDirs(gameDir, build);
+    if (!dirs.length)
+      return { ok: false, error: "This build is not installed." };
+
+    for (const dir of dirs) {
+      logger.info(
+        `Uninstalling ${build.type} build ${build.build_index} from ${dir}`,
+      );
+
+      // Drop the manifest first: if the delete is interrupted (locked files on Windows),
+      // a half-removed folder must not keep claiming to be this build.
+      const manifestPath = path.join(dir, INSTALLED_MANIFEST_FILENAME);
+      if (fs.existsSync(manifestPath)) fs.unlinkSync(manifestPath);
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    try {
+      const sigPath = getBuildSignaturePath(build);
+      if (fs.existsSync(sigPath)) fs.unlinkSync(sigPath);
+    } catch {
+      // ignore
+    }
+
+    return { ok: true, error: null };
+  } catch (e) {
+    logger.error(
+      `Failed to uninstall ${build.type} build ${build.build_index}:`,
+      e,
+    );
+    const message = e instanceof Error ? e.message : "Unknown error";
+    return { ok: false, error: message };
+  }
+};
@@ -0,0 +1,258 @@
+import fs from "node:fs";
+import path from "node:path";
+import { logger } from "../logger";
+import { getDirectorySize } from "./diskUsage";
+import { ensureDiskSpace } from "./diskSpace";
+import type { InstallEventTarget } from "./eventTarget";
+import { listInstances } from "./instances";
+
+export const SHARED_USERDATA_ID = "shared";
+const SNAPSHOT_PREFIX = "snapshot:";
+const SNAPSHOTS_DIRNAME = "UserData-snapshots";
+const PROGRESS_INTERVAL_MS = 200;
+
+type MigrationFile = { relative: string; size: number };
+
+type ParsedRequest = {
+  source: UserDataLocation;
+  // null = a new snapshot folder.
+  target: UserDataLocation | null;
+  entries: string[];
+};
+
+const listSnapshots = (gameDir: string): UserDataLocation[] => {
+  const dir = path.join(gameDir, SNAPSHOTS_DIRNAME);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((d) => d.isDirectory())
+    .map((d) => ({
+      id: `${SNAPSHOT_PREFIX}${d.name}`,
+      name: `Snapshot ${d.name}`,
+      path: path.join(dir, d.name),
+      kind: "snapshot" as const,
+    }))
+    .sort((a, b) => b.name.localeCompare(a.name));
+};
+
+// Every UserData folder the launcher knows: the shared one, each instance's, and snapshots.
+export const listUserDataLocations = (gameDir: string): UserDataLocation[] => [
+  {
+    id: SHARED_USERDATA_ID,
+    name: "Shared UserData",
+    path: path.join(gameDir, "UserData"),
+    kind: "shared",
+  },
+  ...listInstances(gameDir).map((i) => ({
+    id: i.id,
+    name: i.name,
+    path: i.userDir,
+    kind: "instance" as const,
+  })),
+  ...listSnapshots(gameDir),
+];
+
+export const findUserDataLocation = (gameDir: string, id: unknown) =>
+  typeof id === "string"
+    ? (listUserDataLocations(gameDir).find((l) => l.id === id) ?? null)
+    : null;
+
+const classifyEntry = (
+  name: string,
+  isDirectory: boolean,
+): UserDataEntryKind => {
+  const lower = name.toLowerCase();
+  if (lower === "saves" || lower === "worlds") return "worlds";
+  if (lower === "mods" || lower === "disabledmods") return "mods";
+  if (!isDirectory || lower === "config" || lower === "settings") {
+    return "config";
+  }
+  return "other";
+};
+
+// Regular files under `dir` (or `dir` itself when it is a file). Symlinks are skipped.
+const walkFiles = async (
+  dir: string,
+  relative: string,
+  onFile: (file: MigrationFile) => void,
+) => {
+  const stat = await fs.promises.lstat(dir);
+  if (stat.isFile()) {
+    onFile({ relative, size: stat.size });
+    return;
+  }
+  if (!stat.isDirectory()) return;
+  for (const name of await fs.promises.readdir(dir)) {
+    await walkFiles(path.join(dir, name), path.join(relative, name), onFile);
+  }
+};
+
+export const listUserDataEntries = async (
+  gameDir: string,
+  sourceId: unknown,
+): Promise<UserDataEntry[]> => {
+  const source = findUserDataLocation(gameDir, sourceId);
+  if (!source || !fs.existsSync(source.path)) return [];
+
+  const out: UserDataEntry[] = [];
+  for (const d of fs.readdirSync(source.path, { withFileTypes: true })) {
+    if (!d.isDirectory() && !d.isFile()) continue;
+    const isDirectory = d.isDirectory();
+    const entryPath = path.join(source.path, d.name);
+    out.push({
+      name: d.name,
+      kind: classifyEntry(d.name, isDirectory),
+      isDirectory,
+      bytes: isDirectory
+        ? await getDirectorySize(entryPath)
+        : fs.statSync(entryPath).size,
+    });
+  }
+  return out.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const parseRequest = (gameDir: string, raw: unknown): ParsedRequest => {
+  const request = (raw ?? {}) as Partial<
+    Record<keyof UserDataMigrationRequest, unknown>
+  >;
+  const source = findUserDataLocation(gameDir, request.sourceId);
+  if (!source || !fs.existsSync(source.path)) {
+    throw new Error("Pick the UserData to copy from.");
+  }
+
+  let target: UserDataLocation | null = null;
+  if (request.targetId !== null) {
+    target = findUserDataLocation(gameDir, request.targetId);
+    if (!target || target.kind === "snapshot") {
+      throw new Error("Pick where to copy the UserData to.");
+    }
+    if (target.id === source.id) {
+      throw new Error("The source and the target are the same.");
+    }
+  }
+
+  // Only top-level names that exist in the source; nothing that could climb out of it.
+  const available = new Set(fs.readdirSync(source.path));
+  const entries = request.entries;
+  if (
+    !Array.isArray(entries) ||
+    !entries.length ||
+    !entries.every((e) => typeof e === "string" && available.has(e))
+  ) {
+    throw new Error("Pick at least one thing to copy.");
+  }
+
+  return { source, target, entries: [...new Set(entries as string[])] };
+};
+
+const collectFiles = async (sourceDir: string, entries: string[]) => {
+  const files: MigrationFile[] = [];
+  for (const entry of entries) {
+    await walkFiles(path.join(sourceDir, entry), entry, (file) =>
+      files.push(file),
+    );
+  }
+  return files;
+};
+
+const createSnapshotPath = (gameDir: string, source: UserDataLocation) => {
+  const slug =
+    source.name
+      .replace(/[^a-zA-Z0-9_-]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .toLowerCase() || "userdata";
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+  return path.join(gameDir, SNAPSHOTS_DIRNAME, `${slug}-${stamp}`);
+};
+
+const fail = (error: unknown) => ({
+  ok: false,
+  error: error instanceof Error ? error.message : "Unknown error",
+});
+
+// Dry run: what a migration would copy and which files in the target it would overwrite.
+export const planUserDataMigration = async (
+  gameDir: string,
+  raw: unknown,
+): Promise<IpcResult & { plan?: UserDataMigrationPlan }> => {
+  try {
+    const { source, target, entries } = parseRequest(gameDir, raw);
+    const files = await collectFiles(source.path, entries);
+    const targetPath = target?.path ?? createSnapshotPath(gameDir, source);
+    const conflicts = target
+      ? files
+          .filter((f) => fs.existsSync(path.join(targetPath, f.relative)))
+          .map((f) => f.relative)
+      : [];
+    return {
+      ok: true,
+      error: null,
+      plan: {
+        files: files.length,
+        bytes: files.reduce((sum, f) => sum + f.size, 0),
+        conflicts,
+        targetPath,
+      },
+    };
+  } catch (error) {
+    return fail(error);
+  }
+};
+
+/**
+ * Copies the chosen top-level entries of one UserData folder into another, overwriting what
+ * is already there, or into a new timestamped snapshot. The source is never modified.
+ */
+export const migrateUserData = async (
+  gameDir: string,
+  raw: unknown,
+  win: InstallEventTarget,
+): Promise<IpcResult & { path?: string; copied?: number }> => {
+  let snapshotPath: string | null = null;
+  try {
+    const { source, target, entries } = parseRequest(gameDir, raw);
+    const files = await collectFiles(source.path, entries);
+    const targetPath = target?.path ?? createSnapshotPath(gameDir, source);
+    if (!target) snapshotPath = targetPath;
+
+    const total = files.reduce((sum, f) => sum + f.size, 0);
+    let current = 0;
+    let lastSent = 0;
+    const report = (force = false) => {
+      const now = Date.now();
+      if (!force && now - lastSent < PROGRESS_INTERVAL_MS) return;
+      lastSent = now;
+      win.webContents.send("userdata-progress", {
+        phase: "userdata-copy",
+        percent: total > 0 ? Math.round((current / total) * 100) : -1,
+        total,
+        current,
+      });
+    };
+
+    logger.info(
+      `Copying ${entries.join(", ")} from ${source.path} to ${targetPath}`,
+    );
+    fs.mkdirSync(targetPath, { recursive: true });
+    await ensureDiskSpace(targetPath, total);
+    report(true);
+    for (const file of files) {
+      const to = path.join(targetPath, file.relative);
+      await fs.promises.mkdir(path.dirname(to), { recursive: true });
+      await fs.promises.copyFile(path.join(source.path, file.relative), to);
+      current += file.size;
+      report();
+    }
+    report(true);
+
+    logger.info(`Copied ${files.length} UserData file(s) to ${targetPath}`);
+    return { ok: true, error: null, path: targetPath, copied: files.length };
+  } catch (error) {
+    logger.error("UserData migration failed:", error);
+    // A half-written snapshot is useless; a partially updated target is left as is.
+    if (snapshotPath) {
+      fs.rmSync(snapshotPath, { recursive: true, force: true });
+    }
+    return fail(error);
+  }
+};
@@ -0,0 +1,288 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import { logger } from "../logger";
+import { isDownloadCancelled } from "../download";
+import {
+  installButler,
+  isButlerCancelled,
+  parseButlerProgress,
+  runButler,
+} from "./butler";
+import { getDirectorySize } from "./diskUsage";
+import type { InstallEventTarget } from "./eventTarget";
+import { applyPWR, ensureBuildSpace, withFullPWR } from "./install";
+import { getInstallJobId } from "./installQueue";
+import { resolveBuildInstallDir } from "./libraries";
+import { isOnlinePatchActive } from "./onlinePatch";
+import { migrateLegacyChannelInstallIfNeeded } from "./paths";
+import { cacheBuildSignature, getBuildSignaturePath } from "./signature";
+
+// Cap what we keep from butler's log so a badly damaged build doesn't flood IPC.
+const MAX_REPORTED_ISSUES = 200;
+
+// Verify and repair run beside the install queue, so their downloads get their own temp file
+// and abort signal: "install-cancel" leaves them alone and they never share a file with an install.
+const activeChecks = new Map<string, AbortController>();
+const CHECK_PWR_PREFIX = "temp_check";
+
+export const isBuildCheckRunning = (
+  version?: Pick<GameVersion, "type" | "build_index">,
+) =>
+  version ? activeChecks.has(getInstallJobId(version)) : activeChecks.size > 0;
+
+export const cancelBuildChecks = () => {
+  for (const controller of activeChecks.values()) controller.abort();
+};
+
+// One check per build at a time; it owns the build's scratch directory until it finishes.
+const runBuildCheck = async <T>(
+  gameDir: string,
+  version: GameVersion,
+  check: (scratchDir: string, signal: AbortSignal) => Promise<T>,
+): Promise<T> => {
+  const id = getInstallJobId(version);
+  if (activeChecks.has(id)) {
+    throw new Error("This build is already being checked.");
+  }
+  const controller = new AbortController();
+  activeChecks.set(id, controller);
+  const scratchDir = path.join(
+    gameDir,
+    `repair-temp-${version.type}-${version.build_index}`,
+  );
+  try {
+    return await check(scratchDir, controller.signal);
+  } finally {
+    activeChecks.delete(id);
+    try {
+      fs.rmSync(scratchDir, { recursive: true, force: true });
+    } catch {
+      // ignore
+    }
+  }
+};
+
+const describeCheckError = (error: unknown) =>
+  isDownloadCancelled(error) || isButlerCancelled(error)
+    ? "Cancelled."
+    : error instanceof Error
+      ? error.message
+      : "Unknown error";
+
+const sha256File = (filePath: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    const input = fs.createReadStream(filePath);
+    input.on("error", reject);
+    input.on("data", (chunk) => hash.update(chunk));
+    input.on("end", () => resolve(hash.digest("hex")));
+  });
+};
+
+// Relative paths of every regular file under `root`.
+const listFiles = (root: string, rel = ""): string[] => {
+  const out: string[] = [];
+  const entries = fs.readdirSync(path.join(root, rel), { withFileTypes: true });
+  for (const entry of entries) {
+    const entryRel = path.join(rel, entry.name);
+    if (entry.isDirectory()) out.push(...listFiles(root, entryRel));
+    else if (entry.isFile()) out.push(entryRel);
+  }
+  return out;
+};
+
+const filesDiffer = async (expected: string, actual: string) => {
+  try {
+    if (!fs.existsSync(actual)) return true;
+    if (fs.statSync(expected).size !== fs.statSync(actual).size) return true;
+    return (await sha256File(expected)) !== (await sha256File(actual));
+  } catch {
+    return true;
+  }
+};
+
+const resolveVerifiableInstallDir = (gameDir: string, version: GameVersion) => {
+  migrateLegacyChannelInstallIfNeeded(gameDir, version.type);
+  const installDir = resolveBuildInstallDir(gameDir, version);
+  if (!fs.existsSync(installDir)) {
+    throw new Error("This build is not installed.");
+  }
+  // The swapped client would always show up as corrupt (and repair would silently unpatch it).
+  if (isOnlinePatchActive(installDir)) {
+    throw new Error("Disable the online patch before verifying files.");
+  }
+  return installDir;
+};
+
+// Rebuilds the build from its full PWR into `scratchDir` and caches the signature of that copy.
+// Returns the signature path, or null when signing failed.
+const buildPristineCopy = async (
+  gameDir: string,
+  version: GameVersion,
+  installDir: string,
+  butlerPath: string,
+  scratchDir: string,
+  win: InstallEventTarget,
+  signal: AbortSignal,
+) => {
+  fs.rmSync(scratchDir, { recursive: true, force: true });
+  // The copy lands next to the install, so the installed build is the best size guess for it.
+  const knownBuildBytes = (await getDirectorySize(installDir)) || undefined;
+  await withFullPWR(
+    gameDir,
+    version,
+    win,
+    (pwrPath) => applyPWR(pwrPath, butlerPath, scratchDir, win, signal),
+    {
+      tempPrefix: CHECK_PWR_PREFIX,
+      signal,
+      onSize: (pwrBytes) =>
+        ensureBuildSpace(
+          { gameDir, buildRoot: gameDir, knownBuildBytes },
+          pwrBytes,
+        ),
+    },
+  );
+  return cacheBuildSignature(butlerPath, scratchDir, version, win, signal);
+};
+
+/**
+ * Checks the install against the build's cached signature. The first check of a build has no
+ * signature yet: it rebuilds a pristine copy from the full PWR once and signs that, so installs
+ * don't pay for indexing a build nobody verifies.
+ */
+export const verifyBuild = async (
+  gameDir: string,
+  version: GameVersion,
+  win: InstallEventTarget,
+): Promise<BuildVerifyResult> => {
+  try {
+    return await runBuildCheck(gameDir, version, async (scratchDir, signal) => {
+      const installDir = resolveVerifiableInstallDir(gameDir, version);
+
+      const butlerPath = await installButler();
+      if (!butlerPath) throw new Error("Failed to install butler");
+
+      let sigPath = getBuildSignaturePath(version);
+      if (!fs.existsSync(sigPath)) {
+        logger.info(
+          `No cached signature for ${version.type} ${version.build_index}, building one`,
+        );
+        const created = await buildPristineCopy(
+          gameDir,
+          version,
+          installDir,
+          butlerPath,
+          scratchDir,
+          win,
+          signal,
+        );
+        if (!created) throw new Error("Could not index the build's files.");
+        sigPath = created;
+      }
+
+      logger.info(`Verifying ${installDir} against ${sigPath}`);
+      win.webContents.send("install-progress", { phase: "verify", percent: 0 });
+
+      const messages: string[] = [];
+      const { code } = await runButler(
+        butlerPath,
+        ["verify", "--json", sigPath, installDir],
+        (obj) => {
+          const percent = parseButlerProgress(obj);
+          if (typeof percent === "number") {
+            win.webContents.send("install-progress", {
+              phase: "verify",
+              percent,
+            });
+            return;
+          }
+          if (
+            obj.type === "log" &&
+            typeof obj.message === "string" &&
+            obj.level !== "debug" &&
+            messages.length < MAX_REPORTED_ISSUES
+          ) {
+            messages.push(obj.message);
+          }
+        },
+        signal,
+      );
+
+      win.webContents.send("install-progress", {
+        phase: "verify",
+        percent: 100,
+      });
+
+      // Butler exits non-zero when it finds wounds; its log lines describe them.
+      if (code === 0) return { status: "ok", issues: [] };
+      logger.warn(`Verification found problems in ${installDir}:`, messages);
+      return { status: "damaged", issues: messages };
+    });
+  } catch (error) {
+    logger.error("Build verification failed:", error);
+    return { status: "error", issues: [], error: describeCheckError(error) };
+  }
+};
+
+/**
+ * Rebuilds a pristine copy of the build from its full PWR in a scratch directory, then copies
+ * only the files that are missing or differ into the install. The pristine copy is also signed,
+ * so a later "Verify files" doesn't have to rebuild it again.
+ */
+export const repairBuild = async (
+  gameDir: string,
+  version: GameVersion,
+  win: InstallEventTarget,
+): Promise<BuildRepairResult> => {
+  try {
+    return await runBuildCheck(gameDir, version, async (scratchDir, signal) => {
+      const installDir = resolveVerifiableInstallDir(gameDir, version);
+
+      const butlerPath = await installButler();
+      if (!butlerPath) throw new Error("Failed to install butler");
+
+      await buildPristineCopy(
+        gameDir,
+        version,
+        installDir,
+        butlerPath,
+        scratchDir,
+        win,
+        signal,
+      );
+
+      const files = listFiles(scratchDir);
+      const repaired: string[] = [];
+
+      for (let i = 0; i < files.length; i++) {
+        const rel = files[i];
+        const expected = path.join(scratchDir, rel);
+        const actual = path.join(installDir, rel);
+
+        if (await filesDiffer(expected, actual)) {
+          fs.mkdirSync(path.dirname(actual), { recursive: true });
+          fs.copyFileSync(expected, actual);
+          repaired.push(rel.split(path.sep).join("/"));
+        }
+
+        win.webContents.send("install-progress", {
+          phase: "repair",
+          percent: Math.round(((i + 1) / files.length) * 100),
+          total: files.length,
+          current: i + 1,
+        });
+      }
+
+      logger.info(
+        `Repair of ${installDir} finished, ${repaired.length} file(s) replaced.`,
+        repaired,
+      );
+      return { ok: true, repaired };
+    });
+  } catch (error) {
+    logger.error("Build repair failed:", error);
+    return { ok: false, repaired: [], error: describeCheckError(error) };
+  }
+};
@@ -0,0 +1,134 @@
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { fetchJson } from "../download";
+import { logger } from "../logger";
+import { logSchemaIssues, validateVersionDetails } from "../feedSchemas";
+import { discoverGameVersions } from "./versions";
+
+const CATALOGUE_FILENAME = "version-catalogue.json";
+
+type CatalogueListener = (catalogue: VersionCatalogue) => void;
+
+const EMPTY_CATALOGUE: VersionCatalogue = {
+  details: null,
+  release: [],
+  preRelease: [],
+  updatedAt: null,
+};
+
+const listeners = new Set<CatalogueListener>();
+let current: VersionCatalogue | null = null;
+let inFlight: Promise<VersionCatalogue> | null = null;
+
+const getCataloguePath = () => path.join(META_DIRECTORY, CATALOGUE_FILENAME);
+
+const parseStoredDetails = (raw: unknown) => {
+  if (!raw) return null;
+  const result = validateVersionDetails(raw);
+  return result.ok ? result.value : null;
+};
+
+const readCatalogueFile = (): VersionCatalogue => {
+  try {
+    const filePath = getCataloguePath();
+    if (!fs.existsSync(filePath)) return { ...EMPTY_CATALOGUE };
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return {
+      details: parseStoredDetails(raw?.details),
+      release: Array.isArray(raw?.release) ? raw.release : [],
+      preRelease: Array.isArray(raw?.preRelease) ? raw.preRelease : [],
+      updatedAt: typeof raw?.updatedAt === "string" ? raw.updatedAt : null,
+    };
+  } catch (error) {
+    logger.warn("Could not read the version catalogue:", error);
+    return { ...EMPTY_CATALOGUE };
+  }
+};
+
+const writeCatalogueFile = (catalogue: VersionCatalogue) => {
+  try {
+    fs.mkdirSync(META_DIRECTORY, { recursive: true });
+    fs.writeFileSync(getCataloguePath(), JSON.stringify(catalogue), "utf-8");
+  } catch (error) {
+    logger.warn("Could not write the version catalogue:", error);
+  }
+};
+
+// Last known catalogue, without touching the network.
+export const getVersionCatalogue = (): VersionCatalogue => {
+  if (!current) current = readCatalogueFile();
+  return current;
+};
+
+export const onVersionCatalogueChanged = (listener: CatalogueListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const fetchVersionDetails = async (): Promise<VersionDetailsRoot | null> => {
+  const url = import.meta.env.VITE_REQUEST_VERSIONS_DETAILS_URL;
+  if (!url) return null;
+  try {
+    const result = validateVersionDetails(await fetchJson(url));
+    logSchemaIssues("versions feed", result.issues);
+    // Unusable as a whole: the caller falls back to the stored copy.
+    return result.ok ? result.value : null;
+  } catch (error) {
+    logger.warn("Could not fetch the versions feed:", error);
+    return null;
+  }
+};
+
+/**
+ * Re-fetches the versions feed, re-discovers both channels and stores the result.
+ * Listeners are told only when something actually changed. Concurrent callers share one run.
+ */
+export const refreshVersionCatalogue = (
+  refresh = false,
+): Promise<VersionCatalogue> => {
+  if (inFlight) return inFlight;
+
+  inFlight = (async () => {
+    const previous = getVersionCatalogue();
+    // Offline or feed down: the last good copy is better than scanning blind.
+    const details = (await fetchVersionDetails()) ?? previous.details;
+    const lists = await discoverGameVersions(details, refresh);
+
+    // An empty result usually means we're offline; keep what we had.
+    const release = lists.release.length ? lists.release : previous.release;
+    const preRelease = lists.preRelease.length
+      ? lists.preRelease
+      : previous.preRelease;
+
+    const changed =
+      JSON.stringify([details, release, preRelease]) !==
+      JSON.stringify([previous.details, previous.release, previous.preRelease]);
+
+    const next: VersionCatalogue = {
+      details,
+      release,
+      preRelease,
+      updatedAt: new Date().toISOString(),
+    };
+    current = next;
+    writeCatalogueFile(next);
+
+    if (changed) {
+      for (const listener of listeners) {
+        try {
+          listener(next);
+        } catch (error) {
+          logger.warn("Version catalogue listener failed:", error);
+        }
+      }
+    }
+    return next;
+  })().finally(() => {
+    inFlight = null;
+  });
+
+  return inFlight;
+};
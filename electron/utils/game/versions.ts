@@ -0,0 +1,295 @@
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "../const";
+import { logger } from "../logger";
+
+const BASE_URL = "https://game-patches.hytale.com/patches";
+
+const PROBE_CACHE_FILENAME = "pwr-probe-cache.json";
+
+// Builds that have existed for a while don't disappear; re-check them rarely.
+const EXISTS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Missing and recent builds change often (new uploads, pulled builds).
+const VOLATILE_TTL_MS = 60 * 60 * 1000;
+// The newest N known builds of a channel count as recent.
+const RECENT_BUILDS = 3;
+
+const PROBE_CONCURRENCY = 8;
+const HEAD_TIMEOUT_MS = 10_000;
+const MAX_PROBE_BEYOND_LATEST = 100;
+// Without the details feed we have to scan from build 1.
+const MAX_PROBE_FROM_START = 500;
+
+type ProbeEntry = { exists: boolean; checkedAt: number };
+type ProbeCache = Record<string, ProbeEntry>;
+
+const getPlatformSegments = () => {
+  const os =
+    process.platform === "win32"
+      ? "windows"
+      : process.platform === "linux"
+        ? "linux"
+        : process.platform;
+  // Hytale patch endpoints currently only provide darwin/arm64.
+  const arch = os === "darwin" ? "arm64" : "amd64";
+  return { os, arch };
+};
+
+export const buildPwrUrl = (versionType: VersionType, buildIndex: number) => {
+  const { os, arch } = getPlatformSegments();
+  return `${BASE_URL}/${os}/${arch}/${versionType}/0/${buildIndex}.pwr`;
+};
+
+const readJsonFile = <T>(fileName: string): T | null => {
+  try {
+    const filePath = path.join(META_DIRECTORY, fileName);
+    if (!fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+};
+
+const writeJsonFile = (fileName: string, data: unknown) => {
+  try {
+    fs.mkdirSync(META_DIRECTORY, { recursive: true });
+    fs.writeFileSync(
+      path.join(META_DIRECTORY, fileName),
+      JSON.stringify(data),
+      "utf-8",
+    );
+  } catch (error) {
+    logger.warn(`Could not write ${fileName}:`, error);
+  }
+};
+
+// Runs `fn` over `items` with at most `limit` calls in flight, keeping result order.
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+};
+
+// null when the request itself failed (offline, timeout): that says nothing about the build.
+const headExists = async (url: string): Promise<boolean | null> => {
+  try {
+    const response = await fetch(url, {
+      method: "HEAD",
+      signal: AbortSignal.timeout(HEAD_TIMEOUT_MS),
+    });
+    return response.status === 200;
+  } catch {
+    return null;
+  }
+};
+
+// Single-build check for the renderer; the URL is always built here, never taken from it.
+export const checkPwrExists = async (
+  versionType: VersionType,
+  buildIndex: number,
+) => (await headExists(buildPwrUrl(versionType, buildIndex))) === true;
+
+/**
+ * Answers "does this PWR exist" for many builds at once, from the probe cache where the entry
+ * is still fresh and with bounded parallel HEAD requests otherwise.
+ */
+const createProber = (refresh: boolean) => {
+  const cache = readJsonFile<ProbeCache>(PROBE_CACHE_FILENAME) ?? {};
+  let dirty = false;
+
+  const isFresh = (entry: ProbeEntry | undefined, recent: boolean) => {
+    if (!entry) return false;
+    // A manual refresh only re-checks what can actually change.
+    if (refresh && (recent || !entry.exists)) return false;
+    const ttl = entry.exists && !recent ? EXISTS_TTL_MS : VOLATILE_TTL_MS;
+    return Date.now() - entry.checkedAt < ttl;
+  };
+
+  const probe = async (
+    versionType: VersionType,
+    ids: number[],
+    recentFrom: number = Infinity,
+  ): Promise<boolean[]> =>
+    mapWithConcurrency(ids, PROBE_CONCURRENCY, async (id) => {
+      const url = buildPwrUrl(versionType, id);
+      const cached = cache[url];
+      if (isFresh(cached, id >= recentFrom)) return cached.exists;
+
+      const exists = await headExists(url);
+      // Unreachable: fall back to the stale answer rather than forgetting the build.
+      if (exists === null) return cached?.exists ?? false;
+      cache[url] = { exists, checkedAt: Date.now() };
+      dirty = true;
+      return exists;
+    });
+
+  // Walks upwards from `start` in parallel batches until the first missing build.
+  const probeConsecutive = async (
+    versionType: VersionType,
+    start: number,
+    max: number,
+  ): Promise<number[]> => {
+    const found: number[] = [];
+    for (let from = start; from < start + max; from += PROBE_CONCURRENCY) {
+      const batch = Array.from(
+        { length: Math.min(PROBE_CONCURRENCY, start + max - from) },
+        (_, i) => from + i,
+      );
+      // Everything past the last known build is new by definition.
+      const results = await probe(versionType, batch, start);
+      for (let i = 0; i < batch.length; i++) {
+        if (!results[i]) return found;
+        found.push(batch[i]);
+      }
+    }
+    return found;
+  };
+
+  const save = () => {
+    if (dirty) writeJsonFile(PROBE_CACHE_FILENAME, cache);
+  };
+
+  return { probe, probeConsecutive, save };
+};
+
+const toGameVersion = (
+  versionType: VersionType,
+  buildIndex: number,
+  entry?: VersionDetails,
+): GameVersion => {
+  const listedName = entry?.name;
+  const build_name =
+    typeof listedName === "string" && listedName.trim().length > 0
+      ? listedName
+      : `Build-${buildIndex}`;
+
+  const patch_url = typeof entry?.url === "string" ? entry.url : undefined;
+  const original_url =
+    typeof entry?.original === "string" ? entry.original : undefined;
+  const patch_hash = typeof entry?.hash === "string" ? entry.hash : undefined;
+  const patch_note =
+    typeof entry?.patch_note === "string" ? entry.patch_note : undefined;
+  const hasPatch = !!patch_url && !!patch_hash;
+
+  const pwr_size =
+    typeof entry?.pwr_size === "number" && entry.pwr_size > 0
+      ? entry.pwr_size
+      : undefined;
+  const pwr_sha256 =
+    typeof entry?.pwr_sha256 === "string" &&
+    /^[0-9a-f]{64}$/i.test(entry.pwr_sha256)
+      ? entry.pwr_sha256
+      : undefined;
+
+  return {
+    url: buildPwrUrl(versionType, buildIndex),
+    type: versionType,
+    build_index: buildIndex,
+    build_name,
+    isLatest: false,
+    patch_url: hasPatch ? patch_url : undefined,
+    patch_hash: hasPatch ? patch_hash : undefined,
+    original_url: hasPatch ? original_url : undefined,
+    patch_note: hasPatch ? patch_note : undefined,
+    pwr_size,
+    pwr_sha256,
+  };
+};
+
+const discoverChannel = async (
+  versionType: VersionType,
+  details: VersionDetailsRoot | null,
+  prober: ReturnType<typeof createProber>,
+): Promise<GameVersion[]> => {
+  let ids: number[];
+  const namesMap = details
+    ? versionType === "release"
+      ? details.versions
+      : details.pre_releases
+    : undefined;
+
+  if (!details) {
+    // Feed unavailable/incompatible (maintenance, schema change, ...): scan from build 1
+    // so new users still see installable builds.
+    ids = await prober.probeConsecutive(versionType, 1, MAX_PROBE_FROM_START);
+  } else {
+    const latestId =
+      versionType === "release"
+        ? details.latest_release_id
+        : details.latest_prerelease_id;
+
+    const listed = Object.keys(namesMap || {})
+      .map((k) => parseInt(k, 10))
+      .filter((n) => Number.isFinite(n) && n > 0);
+    if (typeof latestId === "number" && latestId > 0) listed.push(latestId);
+    const candidates = Array.from(new Set(listed)).sort((a, b) => a - b);
+
+    const recentFrom =
+      candidates[Math.max(0, candidates.length - RECENT_BUILDS)] ?? Infinity;
+    const exists = await prober.probe(versionType, candidates, recentFrom);
+    const existing = candidates.filter((_, i) => exists[i]);
+
+    // Catch builds published before the feed is updated.
+    const extras =
+      typeof latestId === "number" && latestId > 0
+        ? await prober.probeConsecutive(
+            versionType,
+            latestId + 1,
+            MAX_PROBE_BEYOND_LATEST,
+          )
+        : [];
+    ids = Array.from(new Set([...existing, ...extras]));
+  }
+
+  const versions = ids.map((id) =>
+    toGameVersion(versionType, id, namesMap?.[id.toString()]),
+  );
+
+  // Mark the actual latest build based on what exists (includes builds beyond the feed).
+  if (versions.length) {
+    const actualLatest = Math.max(...versions.map((v) => v.build_index));
+    for (const v of versions) v.isLatest = v.build_index === actualLatest;
+  }
+
+  // Newest first in UI.
+  versions.sort((a, b) => b.build_index - a.build_index);
+  return versions;
+};
+
+/**
+ * Finds the available builds of both channels from the (already validated) details feed.
+ * `refresh` re-probes recent and missing builds even if their cache entries are still fresh.
+ */
+export const discoverGameVersions = async (
+  details: VersionDetailsRoot | null,
+  refresh = false,
+): Promise<GameVersionLists> => {
+  const startedAt = Date.now();
+  const prober = createProber(refresh);
+  try {
+    const [release, preRelease] = await Promise.all([
+      discoverChannel("release", details, prober),
+      discoverChannel("pre-release", details, prober),
+    ]);
+    logger.info(
+      `Version discovery finished in ${Date.now() - startedAt} ms ` +
+        `(${release.length} releases, ${preRelease.length} pre-releases)`,
+    );
+    return { release, preRelease };
+  } finally {
+    prober.save();
+  }
+};
@@ -0,0 +1,127 @@
+import fs from "node:fs";
+import zlib from "node:zlib";
+
+// Just enough of the ZIP format to list an archive and read small entries (mod manifests)
+// without unpacking it. ZIP64 and encrypted archives are not supported.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+};
+
+const readAt = async (
+  file: fs.promises.FileHandle,
+  position: number,
+  length: number,
+) => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  if (bytesRead !== length) throw new Error("Unexpected end of archive.");
+  return buffer;
+};
+
+const findEndOfCentralDirectory = async (
+  file: fs.promises.FileHandle,
+  fileSize: number,
+) => {
+  const tailSize = Math.min(fileSize, EOCD_MIN_SIZE + MAX_COMMENT_SIZE);
+  const tail = await readAt(file, fileSize - tailSize, tailSize);
+  for (let i = tail.length - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      return {
+        entries: tail.readUInt16LE(i + 10),
+        size: tail.readUInt32LE(i + 12),
+        offset: tail.readUInt32LE(i + 16),
+      };
+    }
+  }
+  return null;
+};
+
+// Lists the entries of the archive at `filePath`; throws if it isn't a readable ZIP.
+export const readZipDirectory = async (
+  filePath: string,
+): Promise<ZipEntry[]> => {
+  const file = await fs.promises.open(filePath, "r");
+  try {
+    const { size: fileSize } = await file.stat();
+    const eocd =
+      fileSize >= EOCD_MIN_SIZE
+        ? await findEndOfCentralDirectory(file, fileSize)
+        : null;
+    if (!eocd || eocd.offset + eocd.size > fileSize) {
+      throw new Error("Not a ZIP archive.");
+    }
+
+    const directory = await readAt(file, eocd.offset, eocd.size);
+    const entries: ZipEntry[] = [];
+    let pos = 0;
+    for (let i = 0; i < eocd.entries; i++) {
+      if (
+        pos + 46 > directory.length ||
+        directory.readUInt32LE(pos) !== CENTRAL_SIGNATURE
+      ) {
+        throw new Error("Corrupt ZIP central directory.");
+      }
+      const nameLength = directory.readUInt16LE(pos + 28);
+      const extraLength = directory.readUInt16LE(pos + 30);
+      const commentLength = directory.readUInt16LE(pos + 32);
+      entries.push({
+        method: directory.readUInt16LE(pos + 10),
+        compressedSize: directory.readUInt32LE(pos + 20),
+        size: directory.readUInt32LE(pos + 24),
+        localHeaderOffset: directory.readUInt32LE(pos + 42),
+        name: directory.toString("utf-8", pos + 46, pos + 46 + nameLength),
+      });
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await file.close();
+  }
+};
+
+// Reads and inflates one entry returned by readZipDirectory. Sizes come from the archive itself,
+// so entries above `maxSize` (compressed or not) are rejected before anything is allocated.
+export const readZipEntry = async (
+  filePath: string,
+  entry: ZipEntry,
+  maxSize: number,
+): Promise<Buffer> => {
+  if (entry.compressedSize > maxSize || entry.size > maxSize) {
+    throw new Error(`ZIP entry is too large: ${entry.name}`);
+  }
+  const file = await fs.promises.open(filePath, "r");
+  try {
+    const header = await readAt(file, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+    }
+    const dataOffset =
+      entry.localHeaderOffset +
+      30 +
+      header.readUInt16LE(26) +
+      header.readUInt16LE(28);
+    const data = await readAt(file, dataOffset, entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) return data;
+    if (entry.method === METHOD_DEFLATE) {
+      return zlib.inflateRawSync(data, { maxOutputLength: entry.size || 1 });
+    }
+    throw new Error(`Unsupported compression in ZIP entry: ${entry.name}`);
+  } finally {
+    await file.close();
+  }
+};
@@ -0,0 +1,39 @@
+import { ipcMain, type IpcMainEvent, type IpcMainInvokeEvent } from "electron";
+
+// Typed registration against the channel maps in ipc-contract.d.ts. Handlers that validate
+// renderer input can still declare their parameters as `unknown`.
+
+export const handle = <C extends IpcInvokeChannel>(
+  channel: C,
+  listener: (
+    event: IpcMainInvokeEvent,
+    ...args: IpcInvokeArgs<C>
+  ) => IpcInvokeResult<C> | Promise<IpcInvokeResult<C>>,
+) => {
+  ipcMain.handle(channel, listener);
+};
+
+export const on = <C extends IpcSendChannel>(
+  channel: C,
+  listener: (event: IpcMainEvent, ...args: IpcSendChannels[C]) => void,
+) => {
+  ipcMain.on(channel, listener);
+};
+
+// Anything main can push renderer events through: a BrowserWindow, or a wrapper around one.
+export type RendererEventTarget = {
+  webContents: {
+    send<C extends IpcEventChannel>(
+      channel: C,
+      ...args: IpcEventChannels[C]
+    ): void;
+  };
+};
+
+export const sendToRenderer = <C extends IpcEventChannel>(
+  target: RendererEventTarget,
+  channel: C,
+  ...args: IpcEventChannels[C]
+) => {
+  target.webContents.send(channel, ...args);
+};
@@ -0,0 +1,49 @@
+import fs from "node:fs";
+import path from "node:path";
+import { META_DIRECTORY } from "./const";
+import { fetchJson } from "./download";
+import { logger } from "./logger";
+import { logSchemaIssues, validateNewsFeed } from "./feedSchemas";
+
+const NEWS_URL =
+  import.meta.env.VITE_NEWS_URL ||
+  "https://updates.butterlauncher.tech/news.json";
+const NEWS_CACHE_FILENAME = "news.json";
+
+const getCachePath = () => path.join(META_DIRECTORY, NEWS_CACHE_FILENAME);
+
+const readCachedNews = (): NewsFeed | null => {
+  try {
+    if (!fs.existsSync(getCachePath())) return null;
+    const result = validateNewsFeed(
+      JSON.parse(fs.readFileSync(getCachePath(), "utf-8")),
+    );
+    return result.ok ? result.value : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The launcher news feed, validated. Falls back to the last good copy when the feed is
+ * unreachable or malformed, and to null when there is none.
+ */
+export const getNewsFeed = async (): Promise<NewsFeed | null> => {
+  try {
+    const result = validateNewsFeed(await fetchJson(NEWS_URL));
+    logSchemaIssues("news feed", result.issues);
+    if (result.ok) {
+      try {
+        fs.mkdirSync(META_DIRECTORY, { recursive: true });
+        fs.writeFileSync(getCachePath(), JSON.stringify(result.value), "utf-8");
+      } catch {
+        // ignore
+      }
+      return result.value;
+    }
+  } catch (error) {
+    logger.warn("Could not fetch the news feed:", error);
+  }
+
+  return readCachedNews();
+};
@@ -2,10 +2,10 @@ import React from "react";
 
 const DragBar: React.FC = () => {
   const handleMinimize = () => {
-    window.ipcRenderer.send("minimize-window");
+    window.ipc.send("minimize-window");
   };
   const handleClose = () => {
-    window.ipcRenderer.send("close-window");
+    window.ipc.send("close-window");
   };
 
   return (
@@ -0,0 +1,359 @@
+import React, { useEffect, useState } from "react";
+import {
+  IconCopy,
+  IconFolderOpen,
+  IconPencil,
+  IconTrash,
+  IconX,
+} from "@tabler/icons-react";
+import { useGameContext } from "../hooks/gameContext";
+import UserDataMigrationModal from "./UserDataMigrationModal";
+
+type BuildOption = Pick<GameVersion, "type" | "build_index" | "build_name">;
+
+type Draft = {
+  // null while creating a new instance.
+  id: string | null;
+  name: string;
+  buildKey: string;
+  customUUID: string;
+  extraArgs: string;
+};
+
+const buildKey = (b: Pick<GameVersion, "type" | "build_index">) =>
+  `${b.type}:${b.build_index}`;
+
+const buildLabel = (b: BuildOption) =>
+  `${b.type === "release" ? "Release" : "Pre-release"} ${
+    b.build_name?.trim() || `Build-${b.build_index}`
+  }`;
+
+const copyName = (name: string, instances: GameInstance[]) => {
+  const taken = new Set(instances.map((i) => i.name.toLowerCase()));
+  let candidate = `${name} (copy)`;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (copy ${n})`;
+  }
+  return candidate;
+};
+
+const InstanceManagerModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+}> = ({ open, onClose }) => {
+  const { gameDir, instances, selectedInstanceId, setSelectedInstanceId } =
+    useGameContext();
+  const [builds, setBuilds] = useState<BuildOption[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [migrationOpen, setMigrationOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open || !gameDir) return;
+    setDraft(null);
+    void (async () => {
+      const [catalogue, installed] = await Promise.all([
+        window.ipc.invoke("versions:catalogue"),
+        window.ipc.invoke("list-installed-versions", gameDir),
+      ]);
+      // Installed builds the catalogue no longer lists (old or installed from file) count too.
+      const byKey = new Map<string, BuildOption>();
+      for (const v of [
+        ...catalogue.release,
+        ...catalogue.preRelease,
+        ...installed,
+      ]) {
+        if (!byKey.has(buildKey(v))) {
+          byKey.set(buildKey(v), {
+            type: v.type,
+            build_index: v.build_index,
+            build_name: v.build_name ?? "",
+          });
+        }
+      }
+      setBuilds(
+        [...byKey.values()].sort((a, b) =>
+          a.type === b.type
+            ? b.build_index - a.build_index
+            : a.type === "release"
+              ? -1
+              : 1,
+        ),
+      );
+    })();
+  }, [open, gameDir]);
+
+  if (!open) return null;
+
+  const startCreate = () =>
+    setDraft({
+      id: null,
+      name: "",
+      buildKey: builds[0] ? buildKey(builds[0]) : "",
+      customUUID: "",
+      extraArgs: "",
+    });
+
+  const startEdit = (instance: GameInstance) =>
+    setDraft({
+      id: instance.id,
+      name: instance.name,
+      buildKey: buildKey(instance.build),
+      customUUID: instance.launchOptions.customUUID ?? "",
+      extraArgs: instance.launchOptions.extraArgs.join(" "),
+    });
+
+  const save = async () => {
+    if (!draft) return;
+    const build =
+      builds.find((b) => buildKey(b) === draft.buildKey) ??
+      instances.find((i) => buildKey(i.build) === draft.buildKey)?.build;
+    if (!build) return;
+
+    const input: GameInstanceInput = {
+      name: draft.name,
+      build,
+      launchOptions: {
+        customUUID: draft.customUUID.trim() || null,
+        extraArgs: draft.extraArgs.trim().split(/\s+/).filter(Boolean),
+      },
+    };
+    setBusy(true);
+    try {
+      const result = draft.id
+        ? await window.ipc.invoke("instances:update", draft.id, input)
+        : await window.ipc.invoke("instances:create", input);
+      if (!result.ok) {
+        alert(`Could not save the instance: ${result.error}`);
+        return;
+      }
+      if (!draft.id && result.instance) {
+        setSelectedInstanceId(result.instance.id);
+      }
+      setDraft(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const clone = async (instance: GameInstance) => {
+    setBusy(true);
+    try {
+      const result = await window.ipc.invoke(
+        "instances:clone",
+        instance.id,
+        copyName(instance.name, instances),
+      );
+      if (!result.ok) alert(`Could not clone the instance: ${result.error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (instance: GameInstance) => {
+    const confirmed = confirm(
+      `Delete "${instance.name}"?\n\nIts saves, settings and mods are deleted too. The build stays installed.`,
+    );
+    if (!confirmed) return;
+    setBusy(true);
+    try {
+      const result = await window.ipc.invoke("instances:delete", instance.id);
+      if (!result.ok) {
+        alert(`Could not delete the instance: ${result.error}`);
+        return;
+      }
+      if (selectedInstanceId === instance.id) setSelectedInstanceId(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // An instance may point at a build that dropped out of the catalogue; keep it selectable.
+  const editedBuild = draft?.id
+    ? instances.find((i) => i.id === draft.id)?.build
+    : undefined;
+  const buildOptions =
+    editedBuild && !builds.some((b) => buildKey(b) === buildKey(editedBuild))
+      ? [editedBuild, ...builds]
+      : builds;
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-9999 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fadeIn"
+        onClick={onClose}
+      >
+        <div
+          className="w-[520px] max-w-[90vw] max-h-[80vh] rounded-2xl shadow-2xl bg-[#181c24f2] border border-[#23293a] p-5 animate-slideUp flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-white font-extrabold text-lg leading-tight">
+              Instances
+            </div>
+            <button
+              type="button"
+              className="text-gray-300 hover:text-white text-xl font-bold leading-none"
+              onClick={onClose}
+              title="Close"
+            >
+              <IconX size={20} />
+            </button>
+          </div>
+
+          {draft ? (
+            <div className="mt-4 flex flex-col gap-3 overflow-auto">
+              <input
+                placeholder="Instance name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="text-xs px-2 py-2 rounded-lg bg-[#23293a] text-white border border-white/10 outline-none"
+              />
+              <select
+                className="text-xs bg-[#23293a] text-white rounded-lg px-2 py-2 border border-white/10 outline-none"
+                value={draft.buildKey}
+                onChange={(e) =>
+                  setDraft({ ...draft, buildKey: e.target.value })
+                }
+              >
+                {buildOptions.map((b) => (
+                  <option key={buildKey(b)} value={buildKey(b)}>
+                    {buildLabel(b)}
+                  </option>
+                ))}
+              </select>
+              <input
+                placeholder="Custom UUID (optional, overrides Settings)"
+                value={draft.customUUID}
+                onChange={(e) =>
+                  setDraft({ ...draft, customUUID: e.target.value })
+                }
+                spellCheck={false}
+                className="text-xs px-2 py-2 rounded-lg bg-[#23293a] text-white border border-white/10 outline-none font-mono"
+              />
+              <input
+                placeholder="Extra launch arguments (optional)"
+                value={draft.extraArgs}
+                onChange={(e) =>
+                  setDraft({ ...draft, extraArgs: e.target.value })
+                }
+                spellCheck={false}
+                className="text-xs px-2 py-2 rounded-lg bg-[#23293a] text-white border border-white/10 outline-none font-mono"
+              />
+              <div className="mt-2 flex justify-end gap-2">
+                <button
+                  type="button"
+                  className="px-4 py-2 rounded-lg bg-[#23293a] text-white hover:bg-[#2b3347] transition"
+                  onClick={() => setDraft(null)}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  className="px-4 py-2 rounded-lg bg-linear-to-r from-[#2563eb] to-[#60a5fa] text-white font-bold hover:scale-[1.02] transition disabled:opacity-50"
+                  disabled={busy || !draft.name.trim() || !draft.buildKey}
+                  onClick={() => void save()}
+                >
+                  {draft.id ? "Save" : "Create"}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="mt-4 flex-1 overflow-auto flex flex-col gap-2">
+                {instances.length === 0 ? (
+                  <div className="text-sm text-gray-400">
+                    No instances yet. Each instance has its own saves, settings
+                    and mods.
+                  </div>
+                ) : (
+                  instances.map((instance) => (
+                    <div
+                      key={instance.id}
+                      className="flex items-center justify-between gap-3 bg-white/5 rounded-lg px-3 py-2"
+                    >
+                      <div className="flex flex-col min-w-0">
+                        <span className="text-sm text-white truncate">
+                          {instance.name}
+                        </span>
+                        <span className="text-[11px] text-gray-400 font-mono truncate">
+                          {buildLabel(instance.build)}
+                          {instance.lastPlayedAt
+                            ? ` • played ${new Date(instance.lastPlayedAt).toLocaleDateString()}`
+                            : ""}
+                        </span>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <button
+                          type="button"
+                          className="p-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 transition"
+                          title="Open UserData folder"
+                          onClick={() =>
+                            void window.config.openFolder(instance.userDir)
+                          }
+                        >
+                          <IconFolderOpen size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          className="p-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 transition disabled:opacity-50"
+                          title="Edit"
+                          disabled={busy}
+                          onClick={() => startEdit(instance)}
+                        >
+                          <IconPencil size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          className="p-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 transition disabled:opacity-50"
+                          title="Clone"
+                          disabled={busy}
+                          onClick={() => void clone(instance)}
+                        >
+                          <IconCopy size={16} />
+                        </button>
+                        <button
+                          type="button"
+                          className="p-1.5 rounded-lg text-red-300 hover:bg-red-500/10 transition disabled:opacity-50"
+                          title="Delete"
+                          disabled={busy}
+                          onClick={() => void remove(instance)}
+                        >
+                          <IconTrash size={16} />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+              <div className="mt-4 flex justify-end gap-2">
+                <button
+                  type="button"
+                  className="px-4 py-2 rounded-lg bg-[#23293a] text-white text-sm hover:bg-[#2b3347] transition disabled:opacity-50"
+                  disabled={busy}
+                  onClick={() => setMigrationOpen(true)}
+                >
+                  Migrate UserData...
+                </button>
+                <button
+                  type="button"
+                  className="px-4 py-2 rounded-lg bg-[#23293a] text-white text-sm hover:bg-[#2b3347] transition disabled:opacity-50"
+                  disabled={busy || builds.length === 0}
+                  onClick={startCreate}
+                >
+                  New instance
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      <UserDataMigrationModal
+        open={migrationOpen}
+        onClose={() => setMigrationOpen(false)}
+      />
+    </>
+  );
+};
+
+export default InstanceManagerModal;
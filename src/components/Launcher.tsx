@@ -1,31 +1,20 @@
 import React, { useEffect, useState } from "react";
 import { useGameContext } from "../hooks/gameContext";
 import { useUserContext } from "../hooks/userContext";
+import { VANILLA_PROFILE_ID, useModProfiles } from "../hooks/modProfiles";
 import butterBg from "../assets/butter-bg.png";
 import butterLogo from "../assets/butter-logo.png";
 import SettingsModal from "./SettingsModal";
+import VersionManagerModal from "./VersionManagerModal";
+import LocalInstallModal from "./LocalInstallModal";
+import InstanceManagerModal from "./InstanceManagerModal";
 import settingsIcon from "../assets/settings.svg";
 import DiscordLogo from "../assets/discord.svg";
 import DragBar from "./DragBar";
 import ProgressBar from "./ProgressBar";
-import { IconChevronDown, IconX } from "@tabler/icons-react";
+import { IconChevronDown, IconChevronUp, IconX } from "@tabler/icons-react";
 import cn from "../utils/cn";
-
-type NewsItem = {
-  title: string;
-  content: string;
-  url?: string;
-  date?: string;
-};
-
-type NewsFeed = {
-  version: number;
-  items: NewsItem[];
-};
-
-const NEWS_URL =
-  (import.meta as any).env?.VITE_NEWS_URL ||
-  "https://updates.butterlauncher.tech/news.json";
+import { formatBytes } from "../utils/formatNum";
 
 const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
   const {
@@ -41,18 +30,33 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
     restoreUpdatePrompt,
     installing,
     installProgress,
+    installJobs,
+    moveInstallJob,
+    removeInstallJob,
+    lastDeltaSummary,
     patchingOnline,
     patchProgress,
     installGame,
+    cancelInstall,
     launchGame,
     launching,
     gameLaunched,
+    libraries,
+    installLibraryId,
+    setInstallLibraryId,
+    instances,
+    selectedInstanceId,
+    setSelectedInstanceId,
+    launchInstance,
   } = useGameContext();
   const { username } = useUserContext();
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [newsItems, setNewsItems] = useState<NewsItem[]>([]);
   const [openNews, setOpenNews] = useState<NewsItem | null>(null);
   const [versionsOpen, setVersionsOpen] = useState(false);
+  const [versionManagerOpen, setVersionManagerOpen] = useState(false);
+  const [localInstallOpen, setLocalInstallOpen] = useState(false);
+  const [instanceManagerOpen, setInstanceManagerOpen] = useState(false);
   const [patchConfirmOpen, setPatchConfirmOpen] = useState(false);
   const [onlinePatchEnabled, setOnlinePatchEnabled] = useState(false);
   const [needsFixClient, setNeedsFixClient] = useState(false);
@@ -79,11 +83,26 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
         null)
       : null;
 
+  const activeInstance =
+    instances.find((i) => i.id === selectedInstanceId) ?? null;
+  const modLocationId = activeInstance?.id ?? "shared";
+  const modProfiles = useModProfiles(modLocationId);
+
   const selected = availableVersions[selectedVersion];
   const selectedLabel = selected
     ? selected.build_name?.trim() || `Build-${selected.build_index}`
     : "";
 
+  const jobLabel = (job: InstallJobInfo) =>
+    `${job.version.build_name?.trim() || `Build-${job.version.build_index}`} (${job.version.type})`;
+  const selectedQueued =
+    !!selected &&
+    installJobs.some(
+      (j) =>
+        j.version.type === selected.type &&
+        j.version.build_index === selected.build_index,
+    );
+
   const patchAvailable =
     window.config.OS === "win32" &&
     !!selected &&
@@ -91,7 +110,9 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
     !!selected.patch_url &&
     !!selected.patch_hash;
 
+  // An instance is pinned to its build, so it never offers the newest one.
   const showUpdate =
+    !activeInstance &&
     versionType === "release" &&
     updateAvailable &&
     !updateDismissed &&
@@ -102,6 +123,7 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
   useEffect(() => {
     let cancelled = false;
 
+    // Only used for the bundled fallback; the remote feed is validated in main.
     const normalize = (feed: any): NewsItem[] => {
       const items = Array.isArray(feed?.items) ? feed.items : [];
       return items
@@ -118,15 +140,11 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
     };
 
     const load = async () => {
-      // Remote first (avoids CORS issues by using Electron main fetch).
+      // Remote (or its last good copy) first; fetched and validated by the main process.
       try {
-        const remote = (await window.ipcRenderer.invoke(
-          "fetch:json",
-          NEWS_URL,
-        )) as NewsFeed;
-        const normalized = normalize(remote);
-        if (!cancelled && normalized.length) {
-          setNewsItems(normalized.slice(0, 3));
+        const remote = await window.ipc.invoke("news:get");
+        if (!cancelled && remote?.items.length) {
+          setNewsItems(remote.items.slice(0, 3));
           return;
         }
       } catch {
@@ -171,15 +189,11 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
       }
 
       try {
-        const health = (await window.ipcRenderer.invoke(
+        const health = await window.ipc.invoke(
           "online-patch:health",
           gameDir,
           selected,
-        )) as {
-          enabled?: boolean;
-          needsFixClient?: boolean;
-          patchOutdated?: boolean;
-        };
+        );
         if (!cancelled) {
           setOnlinePatchEnabled(!!health?.enabled);
           setNeedsFixClient(!!health?.needsFixClient);
@@ -206,15 +220,11 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
     const refresh = async () => {
       if (!patchAvailable || !selected) return;
       try {
-        const health = (await window.ipcRenderer.invoke(
+        const health = await window.ipc.invoke(
           "online-patch:health",
           gameDir,
           selected,
-        )) as {
-          enabled?: boolean;
-          needsFixClient?: boolean;
-          patchOutdated?: boolean;
-        };
+        );
         setOnlinePatchEnabled(!!health?.enabled);
         setNeedsFixClient(!!health?.needsFixClient);
         setPatchOutdated(!!health?.patchOutdated);
@@ -227,12 +237,12 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
 
     const onPatched = () => void refresh();
     const onUnpatched = () => void refresh();
-    window.ipcRenderer.on("online-patch-finished", onPatched);
-    window.ipcRenderer.on("online-unpatch-finished", onUnpatched);
+    const offPatched = window.ipc.on("online-patch-finished", onPatched);
+    const offUnpatched = window.ipc.on("online-unpatch-finished", onUnpatched);
 
     return () => {
-      window.ipcRenderer.off("online-patch-finished", onPatched);
-      window.ipcRenderer.off("online-unpatch-finished", onUnpatched);
+      offPatched();
+      offUnpatched();
     };
   }, [gameDir, patchAvailable, selected?.build_index, selected?.type]);
 
@@ -240,6 +250,11 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
     if (selectedVersion == null || !availableVersions[selectedVersion]) return;
     if (!username) return;
 
+    if (activeInstance && availableVersions[selectedVersion].installed) {
+      launchInstance(activeInstance, username);
+      return;
+    }
+
     if (showUpdate && latestRelease) {
       const latestIdx = availableVersions.findIndex(
         (v) =>
@@ -258,19 +273,40 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
     installGame(availableVersions[selectedVersion]);
   };
 
+  // The build controls below follow the active instance's build.
+  useEffect(() => {
+    if (!activeInstance) return;
+    const { type, build_index } = activeInstance.build;
+    if (versionType !== type) {
+      setVersionType(type);
+      return;
+    }
+    const idx = availableVersions.findIndex(
+      (v) => v.build_index === build_index,
+    );
+    if (idx !== -1 && idx !== selectedVersion) setSelectedVersion(idx);
+  }, [
+    activeInstance,
+    versionType,
+    availableVersions,
+    selectedVersion,
+    setVersionType,
+    setSelectedVersion,
+  ]);
+
   const startOnlinePatch = () => {
     if (!gameDir || !selected) return;
-    window.ipcRenderer.send("online-patch:enable", gameDir, selected);
+    window.ipc.send("online-patch:enable", gameDir, selected);
   };
 
   const disableOnlinePatch = () => {
     if (!gameDir || !selected) return;
-    window.ipcRenderer.send("online-patch:disable", gameDir, selected);
+    window.ipc.send("online-patch:disable", gameDir, selected);
   };
 
   const fixClient = () => {
     if (!gameDir || !selected) return;
-    window.ipcRenderer.send("online-patch:fix-client", gameDir, selected);
+    window.ipc.send("online-patch:fix-client", gameDir, selected);
   };
 
   return (
@@ -297,7 +333,11 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
               Versions
             </div>
             <div className="text-[10px] text-gray-200/80 font-mono">
-              {versionType === "release" ? "Release" : "Pre-release"}
+              {activeInstance
+                ? activeInstance.name
+                : versionType === "release"
+                  ? "Release"
+                  : "Pre-release"}
               {selected ? ` • ${selectedLabel}` : ""}
             </div>
           </div>
@@ -314,80 +354,217 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
           className={cn(
             "mt-2 max-h-0 opacity-0 -translate-y-1 pointer-events-none rounded-xl border border-white/10 bg-black/45 backdrop-blur-md shadow-xl overflow-hidden transition-all duration-300",
             versionsOpen &&
-              "max-h-[220px] opacity-100 translate-y-0 animate-popIn animate-softGlow",
+              "max-h-[460px] opacity-100 translate-y-0 animate-popIn animate-softGlow",
           )}
         >
           <div className="p-3">
-            <div className="flex gap-1 mb-3 bg-white/5 rounded-lg p-1">
-              <button
-                type="button"
-                className={cn(
-                  "flex-1 text-xs px-2 py-1 rounded-md transition text-gray-200 hover:bg-white/10",
-                  versionType === "release" &&
-                    "bg-linear-to-r from-[#3b82f6] to-[#60a5fa] text-white shadow",
-                )}
-                onClick={() => {
-                  restoreUpdatePrompt();
-                  setVersionType("release");
-                }}
-              >
-                Release
-              </button>
-              <button
-                type="button"
-                className={cn(
-                  "flex-1 text-xs px-2 py-1 rounded-md transition text-gray-200 hover:bg-white/10",
-                  versionType === "pre-release" &&
-                    "bg-linear-to-r from-[#3b82f6] to-[#60a5fa] text-white shadow",
-                )}
-                onClick={() => {
+            <label className="block text-[11px] text-gray-200/80 mb-1">
+              Instance
+            </label>
+            <div className="relative mb-3">
+              <select
+                className="w-full text-xs bg-[#23293a]/80 text-white rounded-lg px-2 py-2 pr-8 outline-none border border-white/10 focus:border-blue-300/60 transition appearance-none cursor-pointer"
+                value={activeInstance?.id ?? ""}
+                onChange={(e) => {
                   restoreUpdatePrompt();
-                  setVersionType("pre-release");
+                  setSelectedInstanceId(e.target.value || null);
                 }}
               >
-                Pre-release
-              </button>
+                <option value="">None (shared UserData)</option>
+                {instances.map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.name}
+                  </option>
+                ))}
+              </select>
+              <div className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-white/70">
+                <IconChevronDown size={16} />
+              </div>
             </div>
 
             <label className="block text-[11px] text-gray-200/80 mb-1">
-              Select build
+              Mods
             </label>
-            <div className="relative">
+            <div className="relative mb-3">
               <select
                 className="w-full text-xs bg-[#23293a]/80 text-white rounded-lg px-2 py-2 pr-8 outline-none border border-white/10 focus:border-blue-300/60 transition appearance-none cursor-pointer"
-                value={availableVersions.length ? String(selectedVersion) : ""}
-                onChange={(e) => {
-                  restoreUpdatePrompt();
-                  setSelectedVersion(parseInt(e.target.value, 10));
-                }}
+                value={modProfiles.activeId ?? ""}
+                onChange={(e) =>
+                  void window.ipc.invoke(
+                    "mod-profiles:select",
+                    modLocationId,
+                    e.target.value || null,
+                  )
+                }
               >
-                {!availableVersions.length ? (
-                  <option value="" disabled>
-                    Loading...
+                <option value="">Mods folder as is</option>
+                <option value={VANILLA_PROFILE_ID}>Vanilla (no mods)</option>
+                {modProfiles.profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
                   </option>
-                ) : null}
-
-                {availableVersions.map((v, idx) => {
-                  const name = v.build_name?.trim() || `Build-${v.build_index}`;
-                  const suffix = `${v.installed ? " • installed" : ""}${
-                    v.isLatest && v.type === "release" ? " • latest" : ""
-                  }`;
-                  return (
-                    <option
-                      key={`${v.type}:${v.build_index}`}
-                      value={String(idx)}
-                    >
-                      {name}
-                      {suffix}
-                    </option>
-                  );
-                })}
+                ))}
               </select>
               <div className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-white/70">
                 <IconChevronDown size={16} />
               </div>
             </div>
 
+            {activeInstance ? (
+              <div className="text-[11px] text-gray-200/80 font-mono">
+                {activeInstance.build.type === "release"
+                  ? "Release"
+                  : "Pre-release"}{" "}
+                {activeInstance.build.build_name?.trim() ||
+                  `Build-${activeInstance.build.build_index}`}
+                {selected?.installed ? " • installed" : ""}
+              </div>
+            ) : (
+              <>
+                <div className="flex gap-1 mb-3 bg-white/5 rounded-lg p-1">
+                  <button
+                    type="button"
+                    className={cn(
+                      "flex-1 text-xs px-2 py-1 rounded-md transition text-gray-200 hover:bg-white/10",
+                      versionType === "release" &&
+                        "bg-linear-to-r from-[#3b82f6] to-[#60a5fa] text-white shadow",
+                    )}
+                    onClick={() => {
+                      restoreUpdatePrompt();
+                      setVersionType("release");
+                    }}
+                  >
+                    Release
+                  </button>
+                  <button
+                    type="button"
+                    className={cn(
+                      "flex-1 text-xs px-2 py-1 rounded-md transition text-gray-200 hover:bg-white/10",
+                      versionType === "pre-release" &&
+                        "bg-linear-to-r from-[#3b82f6] to-[#60a5fa] text-white shadow",
+                    )}
+                    onClick={() => {
+                      restoreUpdatePrompt();
+                      setVersionType("pre-release");
+                    }}
+                  >
+                    Pre-release
+                  </button>
+                </div>
+
+                <label className="block text-[11px] text-gray-200/80 mb-1">
+                  Select build
+                </label>
+                <div className="relative">
+                  <select
+                    className="w-full text-xs bg-[#23293a]/80 text-white rounded-lg px-2 py-2 pr-8 outline-none border border-white/10 focus:border-blue-300/60 transition appearance-none cursor-pointer"
+                    value={
+                      availableVersions.length ? String(selectedVersion) : ""
+                    }
+                    onChange={(e) => {
+                      restoreUpdatePrompt();
+                      setSelectedVersion(parseInt(e.target.value, 10));
+                    }}
+                  >
+                    {!availableVersions.length ? (
+                      <option value="" disabled>
+                        Loading...
+                      </option>
+                    ) : null}
+
+                    {availableVersions.map((v, idx) => {
+                      const name =
+                        v.build_name?.trim() || `Build-${v.build_index}`;
+                      const suffix = `${v.installed ? " • installed" : ""}${
+                        v.isLatest && v.type === "release" ? " • latest" : ""
+                      }`;
+                      return (
+                        <option
+                          key={`${v.type}:${v.build_index}`}
+                          value={String(idx)}
+                        >
+                          {name}
+                          {suffix}
+                        </option>
+                      );
+                    })}
+                  </select>
+                  <div className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-white/70">
+                    <IconChevronDown size={16} />
+                  </div>
+                </div>
+              </>
+            )}
+
+            {libraries.length > 1 && selected && !selected.installed ? (
+              <div className="mt-2">
+                <label className="block text-[11px] text-gray-200/80 mb-1">
+                  Install to
+                </label>
+                <div className="relative">
+                  <select
+                    className="w-full text-xs bg-[#23293a]/80 text-white rounded-lg px-2 py-2 pr-8 outline-none border border-white/10 focus:border-blue-300/60 transition appearance-none cursor-pointer"
+                    value={
+                      libraries.some((l) => l.id === installLibraryId)
+                        ? installLibraryId
+                        : libraries[0].id
+                    }
+                    onChange={(e) => setInstallLibraryId(e.target.value)}
+                  >
+                    {libraries.map((l) => (
+                      <option
+                        key={l.id}
+                        value={l.id}
+                        disabled={!l.available}
+                        title={l.path}
+                      >
+                        {l.name}
+                        {l.available ? "" : " • unavailable"}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-white/70">
+                    <IconChevronDown size={16} />
+                  </div>
+                </div>
+              </div>
+            ) : null}
+
+            {installing &&
+            selected &&
+            !selected.installed &&
+            !selectedQueued ? (
+              <button
+                type="button"
+                className="mt-2 w-full text-xs px-2 py-1 rounded-md bg-white/10 hover:bg-white/20 text-white transition"
+                onClick={() => installGame(selected)}
+              >
+                Add to install queue
+              </button>
+            ) : null}
+
+            <button
+              type="button"
+              className="mt-2 w-full text-[11px] text-blue-300 hover:text-blue-200 underline underline-offset-2"
+              onClick={() => setVersionManagerOpen(true)}
+            >
+              Manage installed builds
+            </button>
+            <button
+              type="button"
+              className="mt-1 w-full text-[11px] text-blue-300 hover:text-blue-200 underline underline-offset-2"
+              onClick={() => setLocalInstallOpen(true)}
+            >
+              Install from file
+            </button>
+            <button
+              type="button"
+              className="mt-1 w-full text-[11px] text-blue-300 hover:text-blue-200 underline underline-offset-2"
+              onClick={() => setInstanceManagerOpen(true)}
+            >
+              Manage instances
+            </button>
+
             {updateAvailable &&
             !updateDismissed &&
             versionType === "release" ? (
@@ -443,13 +620,38 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
         onClose={() => setSettingsOpen(false)}
         onLogout={onLogout}
       />
+      <VersionManagerModal
+        open={versionManagerOpen}
+        onClose={() => setVersionManagerOpen(false)}
+      />
+      <LocalInstallModal
+        open={localInstallOpen}
+        onClose={() => setLocalInstallOpen(false)}
+      />
+      <InstanceManagerModal
+        open={instanceManagerOpen}
+        onClose={() => setInstanceManagerOpen(false)}
+      />
       <div className="w-full bg-black/60 backdrop-blur-md p-6 flex flex-row items-end justify-between gap-6">
         <div className="flex flex-col gap-3">
           {installing || patchingOnline ? (
-            <div className="w-52 h-16 p-4 bg-white/10 rounded-lg shadow-inner flex items-center">
-              <ProgressBar
-                progress={installing ? installProgress : patchProgress}
-              />
+            <div className="flex flex-row items-center gap-2">
+              <div className="w-52 h-16 p-4 bg-white/10 rounded-lg shadow-inner flex items-center">
+                <ProgressBar
+                  progress={installing ? installProgress : patchProgress}
+                />
+              </div>
+
+              {installing && installProgress.phase.endsWith("-download") ? (
+                <button
+                  type="button"
+                  className="h-10 px-4 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm font-semibold"
+                  title="Cancel download"
+                  onClick={() => cancelInstall()}
+                >
+                  Cancel
+                </button>
+              ) : null}
             </div>
           ) : (
             <div className="flex flex-row items-center gap-2">
@@ -523,12 +725,71 @@ const Launcher: React.FC<{ onLogout?: () => void }> = ({ onLogout }) => {
               ) : null}
             </div>
           )}
+          {installJobs.some((j) => j.status === "pending") ? (
+            <div className="w-72 flex flex-col gap-1">
+              {installJobs.map((job, idx) => {
+                if (job.status === "running") {
+                  const percent = job.progress?.percent ?? -1;
+                  return (
+                    <div
+                      key={job.id}
+                      className="flex items-center justify-between gap-2 text-[11px] text-white bg-white/10 rounded-md px-2 py-1"
+                    >
+                      <span className="truncate">
+                        Installing: {jobLabel(job)}
+                      </span>
+                      <span className="font-mono">
+                        {percent >= 0 ? `${Math.round(percent)}%` : "..."}
+                      </span>
+                    </div>
+                  );
+                }
+
+                // Index among pending jobs, which is what the queue reorders by.
+                const pendingIdx =
+                  installJobs[0]?.status === "running" ? idx - 1 : idx;
+                return (
+                  <div
+                    key={job.id}
+                    className="flex items-center justify-between gap-2 text-[11px] text-gray-200 bg-white/5 rounded-md px-2 py-1"
+                  >
+                    <span className="truncate">Queued: {jobLabel(job)}</span>
+                    <div className="flex items-center gap-1">
+                      {pendingIdx > 0 ? (
+                        <button
+                          type="button"
+                          className="text-gray-300 hover:text-white"
+                          title="Move up"
+                          onClick={() => moveInstallJob(job.id, pendingIdx - 1)}
+                        >
+                          <IconChevronUp size={14} />
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        className="text-gray-300 hover:text-white"
+                        title="Remove from queue"
+                        onClick={() => removeInstallJob(job.id)}
+                      >
+                        <IconX size={14} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : null}
           <div className="text-xs text-gray-200 font-mono opacity-80 flex flex-col">
             <span>Latest Version: {latestLabel}</span>
             <span>
               Current Version: {currentInstalledVersion?.build_name || "None"}
             </span>
             {selectedLabel ? <span>Selected: {selectedLabel}</span> : null}
+            {lastDeltaSummary?.savedBytes ? (
+              <span>
+                Delta update saved {formatBytes(lastDeltaSummary.savedBytes)}
+              </span>
+            ) : null}
           </div>
         </div>
         <div className="flex flex-row gap-4">
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from "react";
+import { IconX } from "@tabler/icons-react";
+import { useGameContext } from "../hooks/gameContext";
+
+const fileName = (p: string) => p.split(/[\\/]/).pop() || p;
+
+const LocalInstallModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+}> = ({ open, onClose }) => {
+  const { installFromFiles } = useGameContext();
+  const [pwrPath, setPwrPath] = useState<string | null>(null);
+  const [jrePath, setJrePath] = useState<string | null>(null);
+  const [butlerPath, setButlerPath] = useState<string | null>(null);
+  const [type, setType] = useState<VersionType>("release");
+  const [buildIndex, setBuildIndex] = useState("");
+  const [buildName, setBuildName] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setPwrPath(null);
+    setJrePath(null);
+    setButlerPath(null);
+    setType("release");
+    setBuildIndex("");
+    setBuildName("");
+  }, [open]);
+
+  const pick = async (kind: "pwr" | "jre" | "butler") => {
+    const picked = await window.ipc.invoke("local-install:pick", kind);
+    if (!picked) return;
+
+    if (kind === "jre") setJrePath(picked.path);
+    else if (kind === "butler") setButlerPath(picked.path);
+    else {
+      setPwrPath(picked.path);
+      if (picked.type) setType(picked.type);
+      if (picked.build_index) setBuildIndex(String(picked.build_index));
+    }
+  };
+
+  const parsedIndex = Number(buildIndex);
+  const canInstall =
+    !!pwrPath && Number.isInteger(parsedIndex) && parsedIndex > 0;
+
+  const submit = () => {
+    if (!pwrPath || !canInstall) return;
+    installFromFiles({
+      pwrPath,
+      type,
+      build_index: parsedIndex,
+      build_name: buildName.trim() || undefined,
+      jrePath: jrePath ?? undefined,
+      butlerPath: butlerPath ?? undefined,
+    });
+    onClose();
+  };
+
+  if (!open) return null;
+
+  const fileRow = (
+    label: string,
+    value: string | null,
+    kind: "pwr" | "jre" | "butler",
+    hint?: string,
+  ) => (
+    <div className="flex items-center justify-between gap-3">
+      <div className="flex flex-col min-w-0">
+        <span className="text-xs text-gray-300">{label}</span>
+        <span
+          className="text-[11px] text-gray-400 font-mono truncate"
+          title={value ?? undefined}
+        >
+          {value ? fileName(value) : (hint ?? "Not selected")}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        {value && kind !== "pwr" ? (
+          <button
+            type="button"
+            className="text-[10px] text-red-400 hover:text-red-300"
+            onClick={() =>
+              kind === "jre" ? setJrePath(null) : setButlerPath(null)
+            }
+          >
+            Clear
+          </button>
+        ) : null}
+        <button
+          type="button"
+          className="px-3 py-1.5 rounded-lg text-xs bg-[#23293a] text-white hover:bg-[#2b3347] transition"
+          onClick={() => void pick(kind)}
+        >
+          Browse...
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-9999 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fadeIn"
+      onClick={onClose}
+    >
+      <div
+        className="w-[520px] max-w-[90vw] max-h-[80vh] rounded-2xl shadow-2xl bg-[#181c24f2] border border-[#23293a] p-5 animate-slideUp flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="text-white font-extrabold text-lg leading-tight">
+            Install from file
+          </div>
+          <button
+            type="button"
+            className="text-gray-300 hover:text-white text-xl font-bold leading-none"
+            onClick={onClose}
+            title="Close"
+          >
+            <IconX size={20} />
+          </button>
+        </div>
+
+        <div className="mt-4 flex flex-col gap-3 overflow-auto">
+          {fileRow("Game patch (.pwr)", pwrPath, "pwr")}
+
+          <div className="flex gap-2">
+            <select
+              className="text-xs bg-[#23293a] text-white rounded-lg px-2 py-2 border border-white/10 outline-none"
+              value={type}
+              onChange={(e) => setType(e.target.value as VersionType)}
+            >
+              <option value="release">Release</option>
+              <option value="pre-release">Pre-release</option>
+            </select>
+            <input
+              type="number"
+              min={1}
+              placeholder="Build number"
+              value={buildIndex}
+              onChange={(e) => setBuildIndex(e.target.value)}
+              className="w-32 text-xs px-2 py-2 rounded-lg bg-[#23293a] text-white border border-white/10 outline-none"
+            />
+            <input
+              placeholder="Name (optional)"
+              value={buildName}
+              onChange={(e) => setBuildName(e.target.value)}
+              className="flex-1 text-xs px-2 py-2 rounded-lg bg-[#23293a] text-white border border-white/10 outline-none"
+            />
+          </div>
+
+          {fileRow(
+            "Java runtime archive",
+            jrePath,
+            "jre",
+            "Optional if Java is already installed",
+          )}
+          {fileRow(
+            "Butler",
+            butlerPath,
+            "butler",
+            "Optional if butler is already installed",
+          )}
+        </div>
+
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            type="button"
+            className="px-4 py-2 rounded-lg bg-[#23293a] text-white hover:bg-[#2b3347] transition"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="px-4 py-2 rounded-lg bg-linear-to-r from-[#2563eb] to-[#60a5fa] text-white font-bold hover:scale-[1.02] transition disabled:opacity-50"
+            disabled={!canInstall}
+            onClick={submit}
+          >
+            Install
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocalInstallModal;
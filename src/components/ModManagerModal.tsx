@@ -0,0 +1,535 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { IconFolderOpen, IconTrash, IconX } from "@tabler/icons-react";
+import { useGameContext } from "../hooks/gameContext";
+import { VANILLA_PROFILE_ID, useModProfiles } from "../hooks/modProfiles";
+import { formatBytes } from "../utils/formatNum";
+import cn from "../utils/cn";
+
+type BuildRef = Pick<GameVersion, "type" | "build_index" | "build_name">;
+
+const buildLabel = (b: NonNullable<ModpackInfo["build"]>) =>
+  `${b.type === "release" ? "Release" : "Pre-release"} ${
+    b.build_name?.trim() || `Build-${b.build_index}`
+  }`;
+
+const ModManagerModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+}> = ({ open, onClose }) => {
+  const { selectedInstanceId, instances, availableVersions, selectedVersion } =
+    useGameContext();
+  const [locations, setLocations] = useState<UserDataLocation[]>([]);
+  const [locationId, setLocationId] = useState("shared");
+  const [mods, setMods] = useState<InstalledMod[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [profileName, setProfileName] = useState("");
+  // Set while the modpack export form is open.
+  const [packEntries, setPackEntries] = useState<UserDataEntry[] | null>(null);
+  const [packName, setPackName] = useState("");
+  const [packConfig, setPackConfig] = useState<string[]>([]);
+  const { profiles, activeId } = useModProfiles(open ? locationId : null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLocationId(selectedInstanceId ?? "shared");
+    void window.ipc
+      .invoke("userdata:locations")
+      .then((list) => setLocations(list.filter((l) => l.kind !== "snapshot")));
+  }, [open, selectedInstanceId]);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMods(await window.ipc.invoke("mods:list", locationId));
+    } finally {
+      setLoading(false);
+    }
+  }, [locationId]);
+
+  useEffect(() => {
+    if (open) void refresh();
+  }, [open, refresh]);
+
+  if (!open) return null;
+
+  const location = locations.find((l) => l.id === locationId);
+  // The build a modpack is made for or checked against.
+  const selected = availableVersions[selectedVersion];
+  const targetBuild: BuildRef | null =
+    instances.find((i) => i.id === locationId)?.build ??
+    (selected
+      ? {
+          type: selected.type,
+          build_index: selected.build_index,
+          build_name: selected.build_name,
+        }
+      : null);
+  const activeProfile = profiles.find((p) => p.id === activeId) ?? null;
+  const vanilla = activeId === VANILLA_PROFILE_ID;
+
+  // With a profile selected, the checkboxes edit the profile instead of the Mods folder.
+  const isChecked = (mod: InstalledMod) =>
+    activeProfile
+      ? activeProfile.mods.includes(mod.fileName)
+      : !vanilla && mod.enabled;
+
+  const run = async (action: () => Promise<IpcResult>, what: string) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      if (!result.ok) alert(`Could not ${what}: ${result.error}`);
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (mod: InstalledMod) => {
+    if (activeProfile) {
+      const mods = isChecked(mod)
+        ? activeProfile.mods.filter((m) => m !== mod.fileName)
+        : [...activeProfile.mods, mod.fileName];
+      return run(
+        () => window.ipc.invoke("mod-profiles:update", activeProfile.id, mods),
+        "update the profile",
+      );
+    }
+    return run(
+      () =>
+        window.ipc.invoke(
+          "mods:set-enabled",
+          locationId,
+          mod.fileName,
+          !mod.enabled,
+        ),
+      mod.enabled ? "disable the mod" : "enable the mod",
+    );
+  };
+
+  const selectProfile = (id: string) =>
+    run(
+      () => window.ipc.invoke("mod-profiles:select", locationId, id || null),
+      "switch the profile",
+    );
+
+  const createProfile = async () => {
+    const name = profileName.trim();
+    if (!name) return;
+    await run(async () => {
+      const result = await window.ipc.invoke(
+        "mod-profiles:create",
+        locationId,
+        name,
+        mods.filter(isChecked).map((m) => m.fileName),
+      );
+      if (result.profile) {
+        setProfileName("");
+        return window.ipc.invoke(
+          "mod-profiles:select",
+          locationId,
+          result.profile.id,
+        );
+      }
+      return result;
+    }, "create the profile");
+  };
+
+  const deleteProfile = () => {
+    if (!activeProfile) return;
+    if (!confirm(`Delete the profile "${activeProfile.name}"? Mods stay.`)) {
+      return;
+    }
+    void run(
+      () => window.ipc.invoke("mod-profiles:delete", activeProfile.id),
+      "delete the profile",
+    );
+  };
+
+  const remove = (mod: InstalledMod) => {
+    if (!confirm(`Delete ${mod.name ?? mod.fileName}? This can't be undone.`)) {
+      return;
+    }
+    void run(
+      () => window.ipc.invoke("mods:delete", locationId, mod.fileName),
+      "delete the mod",
+    );
+  };
+
+  const importFiles = async (paths: string[]) => {
+    if (!paths.length) return;
+    setBusy(true);
+    const rejected: string[] = [];
+    try {
+      for (const filePath of paths) {
+        const result = await window.ipc.invoke(
+          "mods:import",
+          locationId,
+          filePath,
+        );
+        if (!result.ok) {
+          rejected.push(`${filePath.split(/[\\/]/).pop()}: ${result.error}`);
+        }
+      }
+      if (rejected.length) {
+        alert(`Some files were not imported:\n\n${rejected.join("\n")}`);
+      }
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pick = async () => {
+    void importFiles(await window.ipc.invoke("mods:pick"));
+  };
+
+  const openExport = async () => {
+    const entries = await window.ipc.invoke("userdata:entries", locationId);
+    setPackEntries(
+      entries.filter((e) => e.kind === "config" || e.kind === "other"),
+    );
+    setPackConfig([]);
+    setPackName(location?.name ?? "");
+  };
+
+  const exportPack = async () => {
+    setBusy(true);
+    try {
+      const result = await window.ipc.invoke("modpack:export", locationId, {
+        name: packName,
+        config: packConfig,
+        build: targetBuild ?? undefined,
+      });
+      // A null error means the save dialog was cancelled.
+      if (!result.ok) {
+        if (result.error) alert(`Export failed: ${result.error}`);
+        return;
+      }
+      setPackEntries(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importPack = async () => {
+    const opened = await window.ipc.invoke("modpack:open");
+    if (!opened.ok || !opened.path || !opened.info) {
+      if (opened.error) alert(`Import failed: ${opened.error}`);
+      return;
+    }
+    const { info } = opened;
+    const lines = [
+      `Import "${info.name}" into ${location?.name ?? "this UserData"}?`,
+      `${info.mods.length} mod(s) and ${info.config.length} config entr${
+        info.config.length === 1 ? "y" : "ies"
+      }; files with the same names are replaced.`,
+    ];
+    if (
+      info.build &&
+      targetBuild &&
+      (info.build.type !== targetBuild.type ||
+        info.build.build_index !== targetBuild.build_index)
+    ) {
+      lines.push(
+        `Warning: this pack was made for ${buildLabel(info.build)}, but this runs ${buildLabel(targetBuild)}. Some mods may not work.`,
+      );
+    }
+    if (!confirm(lines.join("\n\n"))) return;
+
+    await run(async () => {
+      const result = await window.ipc.invoke(
+        "modpack:import",
+        locationId,
+        opened.path as string,
+      );
+      if (result.ok) alert(`Imported ${result.imported ?? 0} mod(s).`);
+      return result;
+    }, "import the modpack");
+  };
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (busy) return;
+    void importFiles(
+      Array.from(e.dataTransfer.files)
+        .map((f) => window.config.getPathForFile(f))
+        .filter(Boolean),
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-9999 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fadeIn"
+      onClick={onClose}
+    >
+      <div
+        className={cn(
+          "w-[560px] max-w-[90vw] max-h-[80vh] rounded-2xl shadow-2xl bg-[#181c24f2] border border-[#23293a] p-5 animate-slideUp flex flex-col",
+          dragging && "border-blue-400",
+        )}
+        onClick={(e) => e.stopPropagation()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={onDrop}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="text-white font-extrabold text-lg leading-tight">
+            Mods
+          </div>
+          <button
+            type="button"
+            className="text-gray-300 hover:text-white text-xl font-bold leading-none"
+            onClick={onClose}
+            title="Close"
+          >
+            <IconX size={20} />
+          </button>
+        </div>
+
+        <div className="mt-4 flex items-center gap-2">
+          <select
+            className="flex-1 text-xs bg-[#23293a] text-white rounded-lg px-2 py-2 border border-white/10 outline-none"
+            value={locationId}
+            disabled={busy}
+            onChange={(e) => {
+              setLocationId(e.target.value);
+              setPackEntries(null);
+            }}
+          >
+            {locations.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+              </option>
+            ))}
+          </select>
+          {location && (
+            <button
+              type="button"
+              className="p-2 rounded-lg text-gray-300 hover:text-white hover:bg-white/10 transition"
+              title="Open Mods folder"
+              onClick={() =>
+                void window.config.openFolder(`${location.path}/Mods`)
+              }
+            >
+              <IconFolderOpen size={16} />
+            </button>
+          )}
+        </div>
+
+        <div className="mt-3 flex items-center gap-2">
+          <select
+            className="flex-1 text-xs bg-[#23293a] text-white rounded-lg px-2 py-2 border border-white/10 outline-none"
+            value={activeId ?? ""}
+            disabled={busy || !location}
+            onChange={(e) => void selectProfile(e.target.value)}
+            title="Mods the game launches with"
+          >
+            <option value="">Launch with: Mods folder as is</option>
+            <option value={VANILLA_PROFILE_ID}>Launch with: no mods</option>
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                Launch with: {p.name}
+              </option>
+            ))}
+          </select>
+          {activeProfile && (
+            <button
+              type="button"
+              className="p-2 rounded-lg text-red-300 hover:bg-red-500/10 transition disabled:opacity-50"
+              title="Delete profile"
+              disabled={busy}
+              onClick={deleteProfile}
+            >
+              <IconTrash size={16} />
+            </button>
+          )}
+        </div>
+        <div className="mt-2 flex items-center gap-2">
+          <input
+            placeholder="New profile from the checked mods"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            className="flex-1 text-xs px-2 py-2 rounded-lg bg-[#23293a] text-white border border-white/10 outline-none"
+          />
+          <button
+            type="button"
+            className="px-3 py-2 rounded-lg bg-[#23293a] text-white text-xs hover:bg-[#2b3347] transition disabled:opacity-50"
+            disabled={busy || !location || !profileName.trim()}
+            onClick={() => void createProfile()}
+          >
+            Save profile
+          </button>
+        </div>
+        {(activeProfile || vanilla) && (
+          <div className="mt-2 text-[11px] text-gray-400">
+            {activeProfile
+              ? `Checked mods are enabled only while the game runs with "${activeProfile.name}".`
+              : "All mods are disabled while the game runs; the Mods folder is restored afterwards."}
+          </div>
+        )}
+
+        <div className="mt-4 flex-1 overflow-auto flex flex-col gap-2">
+          {loading && mods.length === 0 ? (
+            <div className="text-sm text-gray-400">Loading...</div>
+          ) : mods.length === 0 ? (
+            <div className="text-sm text-gray-400">
+              No mods installed. Drop .jar or .zip mods here to add them.
+            </div>
+          ) : (
+            mods.map((mod) => (
+              <div
+                key={`${mod.enabled}:${mod.fileName}`}
+                className={cn(
+                  "flex items-center justify-between gap-3 bg-white/5 rounded-lg px-3 py-2",
+                  !isChecked(mod) && "opacity-60",
+                )}
+              >
+                <label className="flex items-center gap-3 min-w-0 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isChecked(mod)}
+                    disabled={busy || vanilla}
+                    onChange={() => void toggle(mod)}
+                    title={isChecked(mod) ? "Disable" : "Enable"}
+                  />
+                  <div className="flex flex-col min-w-0">
+                    <span
+                      className="text-sm text-white truncate"
+                      title={mod.description}
+                    >
+                      {mod.name ?? mod.fileName}
+                      {mod.version && (
+                        <span className="text-gray-400"> {mod.version}</span>
+                      )}
+                    </span>
+                    <span className="text-[11px] text-gray-400 font-mono truncate">
+                      {mod.fileName} • {formatBytes(mod.bytes)}
+                      {mod.authors?.length
+                        ? ` • by ${mod.authors.join(", ")}`
+                        : ""}
+                    </span>
+                  </div>
+                </label>
+                <button
+                  type="button"
+                  className="p-1.5 rounded-lg text-red-300 hover:bg-red-500/10 transition disabled:opacity-50 shrink-0"
+                  title="Delete"
+                  disabled={busy}
+                  onClick={() => remove(mod)}
+                >
+                  <IconTrash size={16} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {packEntries ? (
+          <div className="mt-4 flex flex-col gap-2">
+            <input
+              placeholder="Modpack name"
+              value={packName}
+              onChange={(e) => setPackName(e.target.value)}
+              className="text-xs px-2 py-2 rounded-lg bg-[#23293a] text-white border border-white/10 outline-none"
+            />
+            <div className="text-[11px] text-gray-400">
+              {activeProfile
+                ? `Mods from "${activeProfile.name}"`
+                : vanilla
+                  ? "No mods (vanilla)"
+                  : "Mods enabled in the Mods folder"}
+              {targetBuild ? ` for ${buildLabel(targetBuild)}` : ""}, plus:
+            </div>
+            <div className="max-h-28 overflow-auto flex flex-col gap-1">
+              {packEntries.length === 0 ? (
+                <div className="text-[11px] text-gray-400">
+                  No config files to include.
+                </div>
+              ) : (
+                packEntries.map((entry) => (
+                  <label
+                    key={entry.name}
+                    className="flex items-center gap-2 text-xs text-white cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={packConfig.includes(entry.name)}
+                      onChange={() =>
+                        setPackConfig((prev) =>
+                          prev.includes(entry.name)
+                            ? prev.filter((n) => n !== entry.name)
+                            : [...prev, entry.name],
+                        )
+                      }
+                    />
+                    <span className="truncate">{entry.name}</span>
+                    <span className="text-[11px] text-gray-400 font-mono">
+                      {formatBytes(entry.bytes)}
+                    </span>
+                  </label>
+                ))
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                className="px-4 py-2 rounded-lg bg-[#23293a] text-white text-sm hover:bg-[#2b3347] transition"
+                onClick={() => setPackEntries(null)}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="px-4 py-2 rounded-lg bg-linear-to-r from-[#2563eb] to-[#60a5fa] text-white text-sm font-bold hover:scale-[1.02] transition disabled:opacity-50"
+                disabled={busy || !packName.trim()}
+                onClick={() => void exportPack()}
+              >
+                Export
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="mt-4 flex items-center justify-between gap-2">
+            <span className="text-[11px] text-gray-400">
+              Drag and drop mod files to import them.
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                className="px-3 py-2 rounded-lg bg-[#23293a] text-white text-sm hover:bg-[#2b3347] transition disabled:opacity-50"
+                disabled={busy || !location}
+                onClick={() => void importPack()}
+              >
+                Import pack...
+              </button>
+              <button
+                type="button"
+                className="px-3 py-2 rounded-lg bg-[#23293a] text-white text-sm hover:bg-[#2b3347] transition disabled:opacity-50"
+                disabled={busy || !location}
+                onClick={() => void openExport()}
+              >
+                Export pack...
+              </button>
+              <button
+                type="button"
+                className="px-3 py-2 rounded-lg bg-[#23293a] text-white text-sm hover:bg-[#2b3347] transition disabled:opacity-50"
+                disabled={busy || !location}
+                onClick={() => void pick()}
+              >
+                Import mods...
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModManagerModal;
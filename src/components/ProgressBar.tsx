@@ -8,14 +8,30 @@ interface Props {
 
 const PHASES: Record<string, string> = {
   "pwr-download": "Downloading...",
+  "delta-download": "Downloading update...",
+  "pwr-verify": "Checking download...",
   patching: "Extracting...",
   "online-patch": "Patching Online System",
   "fix-download": "Downloading Fix...",
   "fix-extract": "Patching Fix...",
   "jre-download": "Downloading JRE...",
   "jre-extract": "Extracting JRE...",
+  signing: "Indexing files...",
+  verify: "Verifying files...",
+  repair: "Repairing files...",
+  "bundle-export": "Exporting bundle...",
+  "bundle-import": "Importing bundle...",
+  "game-dir-move": "Moving game files...",
+  "userdata-copy": "Copying UserData...",
 };
 
+// Phases whose current/total are byte counts rather than file counts.
+const isByteProgress = (phase: string) =>
+  phase.split("-")[1] === "download" ||
+  phase === "online-patch" ||
+  phase === "game-dir-move" ||
+  phase === "userdata-copy";
+
 export default function ProgressBar({ progress, className }: Props) {
   return (
     <div className={cn("w-full flex flex-col", className)}>
@@ -29,8 +45,7 @@ export default function ProgressBar({ progress, className }: Props) {
         {progress.current !== undefined && (
           <div className="text-[10px] text-gray-300">
             {progress.total !== undefined ? (
-              progress.phase.split("-")[1] === "download" ||
-              progress.phase === "online-patch" ? (
+              isByteProgress(progress.phase) ? (
                 <>
                   {formatBytes(progress.current)} /{" "}
                   {formatBytes(progress.total)}
@@ -40,8 +55,7 @@ export default function ProgressBar({ progress, className }: Props) {
                   {progress.current} / {progress.total}
                 </>
               )
-            ) : progress.phase.split("-")[1] === "download" ||
-              progress.phase === "online-patch" ? (
+            ) : isByteProgress(progress.phase) ? (
               <>{formatBytes(progress.current)}</>
             ) : null}
           </div>
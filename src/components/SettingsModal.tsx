@@ -1,17 +1,52 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { IconFolderOpen } from "@tabler/icons-react";
 import { useGameContext } from "../hooks/gameContext";
 import cn from "../utils/cn";
+import ProgressBar from "./ProgressBar";
+import ModManagerModal from "./ModManagerModal";
+import { formatBytes } from "../utils/formatNum";
 
 const SettingsModal: React.FC<{
   open: boolean;
   onClose: () => void;
   onLogout?: () => void;
 }> = ({ open, onClose, onLogout }) => {
-  const { gameDir, checkForUpdates, checkingUpdates } = useGameContext();
+  const {
+    gameDir,
+    checkForUpdates,
+    checkingUpdates,
+    availableVersions,
+    selectedVersion,
+    installing,
+    verifying,
+    verifyProgress,
+    verifyBuild,
+    cancelFileCheck,
+    repairBuild,
+    libraries,
+  } = useGameContext();
   const [customUUID, setCustomUUID] = useState<string>("");
 
   const [closing, setClosing] = useState(false);
+  const [fileCheck, setFileCheck] = useState<string | null>(null);
+  const [fileIssues, setFileIssues] = useState<string[]>([]);
+
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [storageLoading, setStorageLoading] = useState(false);
+  const [retention, setRetention] = useState<RetentionPolicy | null>(null);
+  const [pwrCache, setPwrCache] = useState<PwrCacheStatus | null>(null);
+
+  const [gameDirInfo, setGameDirInfo] = useState<GameDirectoryInfo | null>(
+    null,
+  );
+  const [moveFiles, setMoveFiles] = useState(true);
+  const [movingDir, setMovingDir] = useState(false);
+  const [moveProgress, setMoveProgress] = useState<InstallProgress | null>(
+    null,
+  );
+  const [modManagerOpen, setModManagerOpen] = useState(false);
+
+  const currentVersion = availableVersions[selectedVersion];
 
   const normalizedUUID = useMemo(() => {
     const raw = customUUID.trim();
@@ -54,6 +89,181 @@ const SettingsModal: React.FC<{
     }
   };
 
+  const handleChangeGameDir = async (target: string | null) => {
+    const destination = target ?? gameDirInfo?.defaultPath;
+    if (!destination) return;
+    const confirmed = confirm(
+      moveFiles
+        ? `Move the game files to ${destination}?\n\nThis can take a while for large installs.`
+        : `Use ${destination} as the game directory?\n\nExisting files stay where they are; builds in the new location are used instead.`,
+    );
+    if (!confirmed) return;
+
+    setMovingDir(true);
+    setMoveProgress(null);
+    const off = window.ipc.on("game-dir-progress", setMoveProgress);
+    try {
+      const result = await window.ipc.invoke("game-dir:change", target, {
+        moveFiles,
+      });
+      if (!result.ok) {
+        alert(`Could not change the game directory: ${result.error}`);
+      }
+    } finally {
+      off();
+      setMovingDir(false);
+      setMoveProgress(null);
+    }
+  };
+
+  const handlePickGameDir = async () => {
+    const picked = await window.ipc.invoke("game-dir:pick");
+    if (picked) await handleChangeGameDir(picked);
+  };
+
+  const handleAddLibrary = async () => {
+    const picked = await window.ipc.invoke("libraries:pick");
+    if (!picked) return;
+    const result = await window.ipc.invoke("libraries:add", picked);
+    if (!result.ok) alert(`Could not add the library: ${result.error}`);
+  };
+
+  const handleRemoveLibrary = async (library: GameLibrary) => {
+    const confirmed = confirm(
+      `Remove the "${library.name}" library?\n\nIts builds stay on disk but won't be listed until you add the folder again.`,
+    );
+    if (!confirmed) return;
+    const result = await window.ipc.invoke("libraries:remove", library.id);
+    if (!result.ok) alert(`Could not remove the library: ${result.error}`);
+  };
+
+  const handleVerify = async () => {
+    if (!currentVersion) return;
+    setFileCheck(null);
+    setFileIssues([]);
+    const result = await verifyBuild(currentVersion);
+    if (!result) return;
+
+    if (result.status === "ok") {
+      setFileCheck("All files are intact.");
+    } else if (result.status === "damaged") {
+      setFileCheck("Some files are damaged or missing. Repair to fix them.");
+      setFileIssues(result.issues);
+    } else {
+      setFileCheck(`Verification failed: ${result.error ?? "Unknown error"}`);
+    }
+  };
+
+  const handleRepair = async () => {
+    if (!currentVersion) return;
+    setFileCheck(null);
+    setFileIssues([]);
+    const result = await repairBuild(currentVersion);
+    if (!result) return;
+
+    if (!result.ok) {
+      setFileCheck(`Repair failed: ${result.error ?? "Unknown error"}`);
+    } else if (result.repaired.length === 0) {
+      setFileCheck("Nothing to repair, all files matched.");
+    } else {
+      setFileCheck(`Repaired ${result.repaired.length} file(s).`);
+      setFileIssues(result.repaired);
+    }
+  };
+
+  const loadStorage = useCallback(async () => {
+    if (!gameDir) return;
+    setStorageLoading(true);
+    try {
+      const usage = await window.ipc.invoke(
+        "storage:usage",
+        gameDir,
+      );
+      setStorage(usage);
+    } catch (e) {
+      console.error("Failed to compute storage usage", e);
+    } finally {
+      setStorageLoading(false);
+    }
+  }, [gameDir]);
+
+  const handleCleanTemp = async () => {
+    if (!gameDir) return;
+    const result = await window.ipc.invoke(
+      "storage:clean-temp",
+      gameDir,
+    );
+    if (!result?.ok) {
+      alert(`Cleanup failed: ${result?.error ?? "Unknown error"}`);
+    }
+    await loadStorage();
+  };
+
+  const updateRetention = async (patch: Partial<RetentionPolicy>) => {
+    if (!retention) return;
+    const saved = await window.ipc.invoke("storage:retention:set", {
+      ...retention,
+      ...patch,
+    });
+    setRetention(saved);
+  };
+
+  const updatePwrCache = async (patch: Partial<PwrCacheSettings>) => {
+    if (!pwrCache) return;
+    const status = await window.ipc.invoke("storage:pwr-cache:set", {
+      ...pwrCache.settings,
+      ...patch,
+    });
+    setPwrCache(status);
+  };
+
+  const handleClearPwrCache = async () => {
+    const result = await window.ipc.invoke(
+      "storage:pwr-cache:clear",
+    );
+    if (!result?.ok) {
+      alert(
+        `Could not clear the patch cache: ${result?.error ?? "Unknown error"}`,
+      );
+    }
+    const status = await window.ipc.invoke(
+      "storage:pwr-cache:get",
+    );
+    setPwrCache(status);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    void loadStorage();
+    void window.ipc
+      .invoke("storage:retention:get")
+      .then((policy: RetentionPolicy) => setRetention(policy))
+      .catch(() => {
+        // ignore
+      });
+    void window.ipc
+      .invoke("storage:pwr-cache:get")
+      .then((status: PwrCacheStatus) => setPwrCache(status))
+      .catch(() => {
+        // ignore
+      });
+  }, [open, loadStorage]);
+
+  useEffect(() => {
+    if (!open) return;
+    void window.ipc
+      .invoke("game-dir:info")
+      .then(setGameDirInfo)
+      .catch(() => {
+        // ignore
+      });
+  }, [open, gameDir]);
+
+  useEffect(() => {
+    setFileCheck(null);
+    setFileIssues([]);
+  }, [currentVersion?.type, currentVersion?.build_index]);
+
   useEffect(() => {
     if (!open) return;
     const stored = localStorage.getItem("customUUID") || "";
@@ -144,6 +354,103 @@ const SettingsModal: React.FC<{
                 <span className="text-sm">Open Folder</span>
                 <IconFolderOpen size={18} />
               </button>
+              <button
+                className="w-full flex items-center justify-between bg-[#1f2538] hover:bg-[#262d44] border border-[#2a3146] rounded-lg px-4 py-2 text-white transition"
+                onClick={() => setModManagerOpen(true)}
+              >
+                <span className="text-sm">Manage Mods</span>
+              </button>
+            </div>
+
+            <div className="col-span-2 space-y-2">
+              <label className="text-xs uppercase tracking-widest text-gray-400">
+                Game Location
+              </label>
+              <div className="flex items-center justify-between gap-3">
+                <span
+                  className="text-sm text-white font-mono truncate"
+                  title={gameDirInfo?.path}
+                >
+                  {gameDirInfo?.path ?? gameDir ?? "..."}
+                </span>
+                <div className="flex gap-2 shrink-0">
+                  {gameDirInfo && !gameDirInfo.isDefault && (
+                    <button
+                      className="px-3 py-1.5 rounded-lg text-sm bg-[#1f2538] hover:bg-[#262d44] border border-[#2a3146] text-white transition disabled:opacity-50"
+                      disabled={movingDir || installing}
+                      onClick={() => void handleChangeGameDir(null)}
+                    >
+                      Reset to default
+                    </button>
+                  )}
+                  <button
+                    className="px-3 py-1.5 rounded-lg text-sm border border-blue-500/40 text-blue-400 hover:bg-blue-500/10 transition disabled:opacity-50"
+                    disabled={movingDir || installing}
+                    onClick={() => void handlePickGameDir()}
+                  >
+                    Change...
+                  </button>
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-[11px] text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={moveFiles}
+                  disabled={movingDir}
+                  onChange={(e) => setMoveFiles(e.target.checked)}
+                />
+                Move existing builds, Java runtime and UserData to the new location
+              </label>
+              {movingDir && moveProgress && (
+                <ProgressBar progress={moveProgress} />
+              )}
+            </div>
+
+            <div className="col-span-2 space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-xs uppercase tracking-widest text-gray-400">
+                  Game Libraries
+                </label>
+                <button
+                  type="button"
+                  className="text-[10px] text-blue-400 hover:text-blue-300 transition disabled:opacity-50"
+                  disabled={installing}
+                  onClick={() => void handleAddLibrary()}
+                >
+                  Add library...
+                </button>
+              </div>
+              <div className="space-y-1">
+                {libraries.map((library) => (
+                  <div
+                    key={library.id}
+                    className="flex items-center justify-between gap-3 text-[11px]"
+                  >
+                    <div className="flex flex-col min-w-0">
+                      <span className="text-white">
+                        {library.name}
+                        {library.available ? "" : " • unavailable"}
+                      </span>
+                      <span
+                        className="text-gray-400 font-mono truncate"
+                        title={library.path}
+                      >
+                        {library.path}
+                      </span>
+                    </div>
+                    {!library.isPrimary && (
+                      <button
+                        type="button"
+                        className="text-[10px] text-red-400 hover:text-red-300 transition disabled:opacity-50 shrink-0"
+                        disabled={installing}
+                        onClick={() => void handleRemoveLibrary(library)}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
 
             <div className="col-span-2 space-y-2">
@@ -181,6 +488,226 @@ const SettingsModal: React.FC<{
               </div>
             </div>
 
+            <div className="col-span-2 space-y-2">
+              <label className="text-xs uppercase tracking-widest text-gray-400">
+                Installed Files
+              </label>
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm text-white truncate">
+                  {currentVersion
+                    ? `${currentVersion.type === "pre-release" ? "Pre-release" : "Release"} ${currentVersion.build_name}`
+                    : "No version selected"}
+                </span>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    className="px-3 py-1.5 rounded-lg text-sm bg-[#1f2538] hover:bg-[#262d44] border border-[#2a3146] text-white transition disabled:opacity-50"
+                    disabled={!currentVersion?.installed || verifying || installing}
+                    onClick={handleVerify}
+                  >
+                    Verify files
+                  </button>
+                  <button
+                    className="px-3 py-1.5 rounded-lg text-sm border border-blue-500/40 text-blue-400 hover:bg-blue-500/10 transition disabled:opacity-50"
+                    disabled={!currentVersion?.installed || verifying || installing}
+                    onClick={handleRepair}
+                  >
+                    Repair
+                  </button>
+                </div>
+              </div>
+              {verifying && (
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <ProgressBar progress={verifyProgress} />
+                  </div>
+                  <button
+                    className="px-2 py-1 rounded-lg text-xs border border-[#2a3146] text-gray-300 hover:bg-[#1f2538] transition"
+                    onClick={cancelFileCheck}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+              {!verifying && fileCheck && (
+                <div className="text-[11px] text-gray-400 space-y-0.5">
+                  <p>{fileCheck}</p>
+                  {fileIssues.slice(0, 5).map((issue) => (
+                    <p key={issue} className="font-mono truncate" title={issue}>
+                      {issue}
+                    </p>
+                  ))}
+                  {fileIssues.length > 5 && (
+                    <p>…and {fileIssues.length - 5} more</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="col-span-2 space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-xs uppercase tracking-widest text-gray-400">
+                  Storage
+                </label>
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    className="text-[10px] text-blue-400 hover:text-blue-300 transition disabled:opacity-50"
+                    disabled={storageLoading}
+                    onClick={() => void loadStorage()}
+                  >
+                    {storageLoading ? "Calculating..." : "Refresh"}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-[10px] text-red-400 hover:text-red-300 transition disabled:opacity-50"
+                    disabled={storageLoading || installing || verifying}
+                    onClick={() => void handleCleanTemp()}
+                  >
+                    Clean temporary files
+                  </button>
+                </div>
+              </div>
+              {storage ? (
+                <div className="bg-[#1f2538] border border-[#2a3146] rounded-lg px-4 py-2 text-xs text-gray-300 font-mono space-y-0.5">
+                  {storage.builds.map((b) => (
+                    <div
+                      key={`${b.type}:${b.build_index}`}
+                      className="flex justify-between"
+                    >
+                      <span>
+                        {b.type === "release" ? "Release" : "Pre-release"}{" "}
+                        {b.build_name?.trim() || `Build-${b.build_index}`}
+                      </span>
+                      <span>{formatBytes(b.sizeBytes)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between">
+                    <span>Java runtime</span>
+                    <span>{formatBytes(storage.jreBytes)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>UserData</span>
+                    <span>{formatBytes(storage.userDataBytes)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Leftover downloads</span>
+                    <span>{formatBytes(storage.tempBytes)}</span>
+                  </div>
+                  <div className="flex justify-between text-gray-500">
+                    <span>Staging folders (in builds)</span>
+                    <span>{formatBytes(storage.stagingBytes)}</span>
+                  </div>
+                  <div className="flex justify-between text-gray-500">
+                    <span>Online patch caches (in builds)</span>
+                    <span>{formatBytes(storage.onlinePatchBytes)}</span>
+                  </div>
+                  <div className="flex justify-between text-white pt-1 border-t border-[#2a3146]">
+                    <span>Total</span>
+                    <span>{formatBytes(storage.totalBytes)}</span>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-[11px] text-gray-400">
+                  {storageLoading ? "Calculating..." : "No data"}
+                </div>
+              )}
+
+              {retention && (
+                <div className="space-y-2 pt-1">
+                  <label className="flex items-center gap-2 text-sm text-white">
+                    <input
+                      type="checkbox"
+                      checked={retention.enabled}
+                      onChange={(e) =>
+                        void updateRetention({ enabled: e.target.checked })
+                      }
+                    />
+                    Remove old builds after installing
+                  </label>
+                  <div className="flex gap-4 text-[11px] text-gray-400">
+                    <label className="flex items-center gap-2">
+                      Keep releases
+                      <input
+                        type="number"
+                        min={1}
+                        max={50}
+                        value={retention.keepReleases}
+                        disabled={!retention.enabled}
+                        onChange={(e) =>
+                          void updateRetention({
+                            keepReleases: parseInt(e.target.value, 10),
+                          })
+                        }
+                        className="w-14 px-2 py-1 rounded bg-[#1f2538] text-white border border-[#2a3146] disabled:opacity-50"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      Keep pre-releases
+                      <input
+                        type="number"
+                        min={1}
+                        max={50}
+                        value={retention.keepPreReleases}
+                        disabled={!retention.enabled}
+                        onChange={(e) =>
+                          void updateRetention({
+                            keepPreReleases: parseInt(e.target.value, 10),
+                          })
+                        }
+                        className="w-14 px-2 py-1 rounded bg-[#1f2538] text-white border border-[#2a3146] disabled:opacity-50"
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {pwrCache && (
+                <div className="space-y-2 pt-1">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm text-white">
+                      <input
+                        type="checkbox"
+                        checked={pwrCache.settings.enabled}
+                        onChange={(e) =>
+                          void updatePwrCache({ enabled: e.target.checked })
+                        }
+                      />
+                      Keep downloaded patches for reinstalls
+                    </label>
+                    <button
+                      type="button"
+                      className="text-[10px] text-red-400 hover:text-red-300 transition disabled:opacity-50"
+                      disabled={!pwrCache.entries || installing || verifying}
+                      onClick={() => void handleClearPwrCache()}
+                    >
+                      Clear cache
+                    </button>
+                  </div>
+                  <div className="flex gap-4 text-[11px] text-gray-400">
+                    <label className="flex items-center gap-2">
+                      Max size (GB)
+                      <input
+                        type="number"
+                        min={1}
+                        max={500}
+                        value={pwrCache.settings.maxSizeGB}
+                        disabled={!pwrCache.settings.enabled}
+                        onChange={(e) =>
+                          void updatePwrCache({
+                            maxSizeGB: parseInt(e.target.value, 10),
+                          })
+                        }
+                        className="w-14 px-2 py-1 rounded bg-[#1f2538] text-white border border-[#2a3146] disabled:opacity-50"
+                      />
+                    </label>
+                    <span className="self-center font-mono">
+                      {pwrCache.entries} cached, {formatBytes(pwrCache.sizeBytes)}
+                    </span>
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* <div>
               <label className="text-gray-200 text-sm font-semibold mb-1 block">
                 Previous Version{" "}
@@ -238,6 +765,10 @@ const SettingsModal: React.FC<{
           </div>
         </div>
       </div>
+      <ModManagerModal
+        open={modManagerOpen}
+        onClose={() => setModManagerOpen(false)}
+      />
     </div>
   );
 };
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from "react";
+import { IconX } from "@tabler/icons-react";
+import ProgressBar from "./ProgressBar";
+import { formatBytes } from "../utils/formatNum";
+
+// Select value for "copy into a new snapshot".
+const SNAPSHOT = "__snapshot__";
+
+const KIND_LABELS: Record<UserDataEntryKind, string> = {
+  worlds: "Worlds",
+  mods: "Mods",
+  config: "Config",
+  other: "Other",
+};
+
+const DEFAULT_KINDS: UserDataEntryKind[] = ["worlds", "mods", "config"];
+
+const MAX_LISTED_CONFLICTS = 8;
+
+const UserDataMigrationModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+}> = ({ open, onClose }) => {
+  const [locations, setLocations] = useState<UserDataLocation[]>([]);
+  const [sourceId, setSourceId] = useState("shared");
+  const [targetId, setTargetId] = useState(SNAPSHOT);
+  const [entries, setEntries] = useState<UserDataEntry[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [plan, setPlan] = useState<UserDataMigrationPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState<InstallProgress | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setPlan(null);
+    void window.ipc.invoke("userdata:locations").then(setLocations);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    setPlan(null);
+    void window.ipc.invoke("userdata:entries", sourceId).then((list) => {
+      setEntries(list);
+      setSelected(
+        list.filter((e) => DEFAULT_KINDS.includes(e.kind)).map((e) => e.name),
+      );
+    });
+  }, [open, sourceId]);
+
+  if (!open) return null;
+
+  const request: UserDataMigrationRequest = {
+    sourceId,
+    targetId: targetId === SNAPSHOT ? null : targetId,
+    entries: selected,
+  };
+
+  const changeSource = (id: string) => {
+    setSourceId(id);
+    if (id === targetId) setTargetId(SNAPSHOT);
+  };
+
+  const toggle = (name: string) => {
+    setPlan(null);
+    setSelected((prev) =>
+      prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name],
+    );
+  };
+
+  const preview = async () => {
+    setBusy(true);
+    try {
+      const result = await window.ipc.invoke("userdata:plan", request);
+      if (!result.ok || !result.plan) {
+        alert(`Could not prepare the copy: ${result.error}`);
+        return;
+      }
+      setPlan(result.plan);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const migrate = async () => {
+    setBusy(true);
+    const off = window.ipc.on("userdata-progress", setProgress);
+    try {
+      const result = await window.ipc.invoke("userdata:migrate", request);
+      if (!result.ok) {
+        alert(`Could not copy the UserData: ${result.error}`);
+        return;
+      }
+      alert(`Copied ${result.copied ?? 0} file(s) to ${result.path}.`);
+      setPlan(null);
+      setLocations(await window.ipc.invoke("userdata:locations"));
+    } finally {
+      off();
+      setProgress(null);
+      setBusy(false);
+    }
+  };
+
+  const targets = locations.filter(
+    (l) => l.kind !== "snapshot" && l.id !== sourceId,
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-10000 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fadeIn"
+      onClick={busy ? undefined : onClose}
+    >
+      <div
+        className="w-[520px] max-w-[90vw] max-h-[80vh] rounded-2xl shadow-2xl bg-[#181c24f2] border border-[#23293a] p-5 animate-slideUp flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="text-white font-extrabold text-lg leading-tight">
+            Migrate UserData
+          </div>
+          <button
+            type="button"
+            className="text-gray-300 hover:text-white text-xl font-bold leading-none disabled:opacity-50"
+            onClick={onClose}
+            disabled={busy}
+            title="Close"
+          >
+            <IconX size={20} />
+          </button>
+        </div>
+
+        <div className="mt-4 grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1 text-[11px] uppercase tracking-widest text-gray-400">
+            From
+            <select
+              className="text-xs normal-case tracking-normal bg-[#23293a] text-white rounded-lg px-2 py-2 border border-white/10 outline-none"
+              value={sourceId}
+              disabled={busy}
+              onChange={(e) => changeSource(e.target.value)}
+            >
+              {locations.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-[11px] uppercase tracking-widest text-gray-400">
+            To
+            <select
+              className="text-xs normal-case tracking-normal bg-[#23293a] text-white rounded-lg px-2 py-2 border border-white/10 outline-none"
+              value={targetId}
+              disabled={busy}
+              onChange={(e) => {
+                setTargetId(e.target.value);
+                setPlan(null);
+              }}
+            >
+              <option value={SNAPSHOT}>New snapshot</option>
+              {targets.map((l) => (
+                <option key={l.id} value={l.id}>
+                  {l.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="mt-4 flex-1 overflow-auto flex flex-col gap-1">
+          {entries.length === 0 ? (
+            <div className="text-sm text-gray-400">
+              This UserData folder is empty.
+            </div>
+          ) : (
+            entries.map((entry) => (
+              <label
+                key={entry.name}
+                className="flex items-center justify-between gap-3 bg-white/5 rounded-lg px-3 py-2 text-sm text-white cursor-pointer"
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(entry.name)}
+                    disabled={busy}
+                    onChange={() => toggle(entry.name)}
+                  />
+                  <span className="truncate">{entry.name}</span>
+                  <span className="text-[10px] text-gray-400 uppercase tracking-widest">
+                    {KIND_LABELS[entry.kind]}
+                  </span>
+                </span>
+                <span className="text-[11px] text-gray-400 font-mono shrink-0">
+                  {formatBytes(entry.bytes)}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        {plan && (
+          <div className="mt-4 text-[11px] text-gray-300 space-y-1">
+            <p>
+              {plan.files} file(s), {formatBytes(plan.bytes)}, will be copied to{" "}
+              <span className="font-mono break-all">{plan.targetPath}</span>.
+            </p>
+            {plan.conflicts.length ? (
+              <>
+                <p className="text-yellow-300">
+                  {plan.conflicts.length} existing file(s) will be overwritten:
+                </p>
+                {plan.conflicts.slice(0, MAX_LISTED_CONFLICTS).map((c) => (
+                  <p key={c} className="font-mono truncate" title={c}>
+                    {c}
+                  </p>
+                ))}
+                {plan.conflicts.length > MAX_LISTED_CONFLICTS && (
+                  <p>
+                    ...and {plan.conflicts.length - MAX_LISTED_CONFLICTS} more
+                  </p>
+                )}
+              </>
+            ) : (
+              <p>Nothing in the target will be overwritten.</p>
+            )}
+          </div>
+        )}
+
+        {progress && <ProgressBar className="mt-4" progress={progress} />}
+
+        <div className="mt-4 flex justify-end gap-2">
+          {plan ? (
+            <button
+              type="button"
+              className="px-4 py-2 rounded-lg bg-linear-to-r from-[#2563eb] to-[#60a5fa] text-white font-bold hover:scale-[1.02] transition disabled:opacity-50"
+              disabled={busy}
+              onClick={() => void migrate()}
+            >
+              Copy
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="px-4 py-2 rounded-lg bg-[#23293a] text-white hover:bg-[#2b3347] transition disabled:opacity-50"
+              disabled={busy || selected.length === 0}
+              onClick={() => void preview()}
+            >
+              Preview
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserDataMigrationModal;
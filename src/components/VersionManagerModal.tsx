@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { IconPackageExport, IconTrash, IconX } from "@tabler/icons-react";
+import { useGameContext } from "../hooks/gameContext";
+import { formatBytes } from "../utils/formatNum";
+import ProgressBar from "./ProgressBar";
+
+const VersionManagerModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+}> = ({ open, onClose }) => {
+  const { gameDir, checkForUpdates, libraries, instances } = useGameContext();
+  const [builds, setBuilds] = useState<InstalledBuildEntry[] | null>(null);
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<InstallProgress>({
+    phase: "bundle-export",
+    percent: -1,
+  });
+  const [includeJre, setIncludeJre] = useState(true);
+  const [includeUserData, setIncludeUserData] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!gameDir) return;
+    try {
+      const list = await window.ipc.invoke("list-installed-builds", gameDir);
+      setBuilds(list);
+    } catch {
+      setBuilds([]);
+    }
+  }, [gameDir]);
+
+  useEffect(() => {
+    if (!open) return;
+    setBuilds(null);
+    void refresh();
+  }, [open, refresh]);
+
+  useEffect(() => {
+    const onProgress = (progress: InstallProgress) => {
+      setExportProgress(progress);
+    };
+    return window.ipc.on("bundle-progress", onProgress);
+  }, []);
+
+  const exportBuild = async (build: InstalledBuildEntry) => {
+    if (!gameDir) return;
+    setExporting(true);
+    setExportProgress({ phase: "bundle-export", percent: -1 });
+    try {
+      const result = await window.ipc.invoke(
+        "bundle:export",
+        gameDir,
+        { type: build.type, build_index: build.build_index },
+        { includeJre, includeUserData },
+      );
+      // A null error means the save dialog was cancelled.
+      if (!result?.ok && result?.error) {
+        alert(`Export failed: ${result.error}`);
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const importBundle = async () => {
+    if (!gameDir) return;
+    const result = await window.ipc.invoke("bundle:import", gameDir);
+    if (!result?.ok) {
+      if (result?.error) alert(`Import failed: ${result.error}`);
+      return;
+    }
+    // The import runs through the install queue; the launcher shows its progress.
+    onClose();
+  };
+
+  const uninstall = async (build: InstalledBuildEntry) => {
+    if (!gameDir) return;
+    const name = build.build_name?.trim() || `Build-${build.build_index}`;
+    const pinnedBy = instances
+      .filter(
+        (i) =>
+          i.build.type === build.type &&
+          i.build.build_index === build.build_index,
+      )
+      .map((i) => i.name);
+    const pinnedNote = pinnedBy.length
+      ? `\n\nUsed by ${pinnedBy.length === 1 ? "instance" : "instances"} ${pinnedBy.join(", ")}; launching them will download this build again.`
+      : "";
+    if (!confirm(`Uninstall ${name} (${build.type})?${pinnedNote}`)) return;
+
+    const key = `${build.type}:${build.build_index}`;
+    setRemoving(key);
+    try {
+      const result = await window.ipc.invoke("uninstall-build", gameDir, {
+        type: build.type,
+        build_index: build.build_index,
+      });
+      if (!result?.ok) {
+        alert(`Uninstall failed: ${result?.error ?? "Unknown error"}`);
+      }
+    } finally {
+      setRemoving(null);
+      await refresh();
+      void checkForUpdates("manual");
+    }
+  };
+
+  if (!open) return null;
+
+  const totalBytes = (builds ?? []).reduce((sum, b) => sum + b.sizeBytes, 0);
+
+  return (
+    <div
+      className="fixed inset-0 z-9999 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fadeIn"
+      onClick={onClose}
+    >
+      <div
+        className="w-[520px] max-w-[90vw] max-h-[80vh] rounded-2xl shadow-2xl bg-[#181c24f2] border border-[#23293a] p-5 animate-slideUp flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="text-white font-extrabold text-lg leading-tight">
+            Installed Builds
+          </div>
+          <button
+            type="button"
+            className="text-gray-300 hover:text-white text-xl font-bold leading-none"
+            onClick={onClose}
+            title="Close"
+          >
+            <IconX size={20} />
+          </button>
+        </div>
+
+        <div className="mt-4 flex-1 overflow-auto flex flex-col gap-2">
+          {builds === null ? (
+            <div className="text-sm text-gray-400">Calculating sizes...</div>
+          ) : builds.length === 0 ? (
+            <div className="text-sm text-gray-400">No builds installed.</div>
+          ) : (
+            builds.map((build) => {
+              const key = `${build.type}:${build.build_index}`;
+              const library = libraries.find(
+                (l) => l.id === build.libraryId && !l.isPrimary,
+              );
+              return (
+                <div
+                  key={key}
+                  className="flex items-center justify-between gap-3 bg-white/5 rounded-lg px-3 py-2"
+                >
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-sm text-white truncate">
+                      {build.build_name?.trim() || `Build-${build.build_index}`}
+                      {build.isLatest ? " • latest" : ""}
+                    </span>
+                    <span className="text-[11px] text-gray-400 font-mono">
+                      {build.type === "release" ? "Release" : "Pre-release"} •{" "}
+                      {formatBytes(build.sizeBytes)}
+                      {library ? ` • ${library.name}` : ""}
+                    </span>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-blue-300 border border-blue-400/30 hover:bg-blue-500/10 transition disabled:opacity-50"
+                      disabled={exporting || removing !== null}
+                      onClick={() => void exportBuild(build)}
+                      title="Export this build as an offline bundle"
+                    >
+                      <IconPackageExport size={14} />
+                      Export
+                    </button>
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs text-red-300 border border-red-400/30 hover:bg-red-500/10 transition disabled:opacity-50"
+                      disabled={exporting || removing !== null}
+                      onClick={() => void uninstall(build)}
+                    >
+                      <IconTrash size={14} />
+                      {removing === key ? "Removing..." : "Uninstall"}
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {exporting ? (
+          <div className="mt-4">
+            <ProgressBar progress={exportProgress} />
+          </div>
+        ) : null}
+
+        <div className="mt-4 flex items-center justify-between gap-3">
+          <div className="flex flex-col gap-1 text-[11px] text-gray-400">
+            {builds?.length ? (
+              <span className="font-mono">
+                Total: {formatBytes(totalBytes)}
+              </span>
+            ) : null}
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeJre}
+                onChange={(e) => setIncludeJre(e.target.checked)}
+              />
+              Include Java runtime in exports
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeUserData}
+                onChange={(e) => setIncludeUserData(e.target.checked)}
+              />
+              Include UserData in exports
+            </label>
+          </div>
+          <button
+            type="button"
+            className="px-4 py-2 rounded-lg bg-[#23293a] text-white text-sm hover:bg-[#2b3347] transition disabled:opacity-50"
+            disabled={exporting}
+            onClick={() => void importBundle()}
+          >
+            Import bundle...
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionManagerModal;
@@ -6,10 +6,19 @@ import {
   useCallback,
   useRef,
 } from "react";
-import { getGameVersions } from "../utils/game";
+import { formatBytes } from "../utils/formatNum";
+import { clearLegacyVersionStorage } from "../utils/game";
 
 interface GameContextType {
   gameDir: string | null;
+  libraries: GameLibrary[];
+  // Where installGame puts builds that aren't installed yet.
+  installLibraryId: string;
+  setInstallLibraryId: (id: string) => void;
+  instances: GameInstance[];
+  // Instance the launcher plays; null launches the selected build with the shared UserData.
+  selectedInstanceId: string | null;
+  setSelectedInstanceId: (id: string | null) => void;
   versionType: VersionType;
   setVersionType: (t: VersionType) => void;
   availableVersions: GameVersion[];
@@ -21,6 +30,15 @@ interface GameContextType {
   restoreUpdatePrompt: () => void;
   installing: boolean;
   installProgress: InstallProgress;
+  installJobs: Array<InstallJobInfo & { progress?: InstallProgress }>;
+  moveInstallJob: (jobId: string, toIndex: number) => void;
+  removeInstallJob: (jobId: string) => void;
+  lastDeltaSummary: DeltaInstallSummary | null;
+  verifying: boolean;
+  verifyProgress: InstallProgress;
+  verifyBuild: (version: GameVersion) => Promise<BuildVerifyResult | null>;
+  cancelFileCheck: () => void;
+  repairBuild: (version: GameVersion) => Promise<BuildRepairResult | null>;
   patchingOnline: boolean;
   patchProgress: InstallProgress;
   pendingOnlinePatch: boolean;
@@ -28,7 +46,10 @@ interface GameContextType {
   launching: boolean;
   gameLaunched: boolean;
   installGame: (version: GameVersion) => void;
+  installFromFiles: (request: LocalInstallRequest) => void;
+  cancelInstall: () => void;
   launchGame: (version: GameVersion, username: string) => void;
+  launchInstance: (instance: GameInstance, username: string) => void;
   checkForUpdates: (reason?: "startup" | "manual") => Promise<void>;
   startPendingOnlinePatch: () => void;
 }
@@ -41,6 +62,14 @@ export const GameContextProvider = ({
   children: React.ReactNode;
 }) => {
   const [gameDir, setGameDir] = useState<string | null>(null);
+  const [libraries, setLibraries] = useState<GameLibrary[]>([]);
+  const [installLibraryId, setInstallLibraryIdState] = useState<string>(
+    () => localStorage.getItem("installLibraryId") || "primary"
+  );
+  const [instances, setInstances] = useState<GameInstance[]>([]);
+  const [selectedInstanceId, setSelectedInstanceIdState] = useState<
+    string | null
+  >(() => localStorage.getItem("selectedInstance"));
 
   const [versionType, setVersionType] = useState<VersionType>("release");
   const [releaseVersions, setReleaseVersions] = useState<GameVersion[]>([]);
@@ -54,13 +83,24 @@ export const GameContextProvider = ({
   const [updateDismissed, setUpdateDismissed] = useState(false);
   const [updateAvailable, setUpdateAvailable] = useState(false);
 
-  const [installing, setInstalling] = useState(false);
+  const [installRunning, setInstallRunning] = useState(false);
   const [installProgress, setInstallProgress] = useState<InstallProgress>({
     phase: "download",
     percent: 0,
     total: 0,
     current: 0,
   });
+  const [queuedJobs, setQueuedJobs] = useState<InstallJobInfo[]>([]);
+  const [jobProgress, setJobProgress] = useState<
+    Record<string, InstallProgress>
+  >({});
+  const [lastDeltaSummary, setLastDeltaSummary] =
+    useState<DeltaInstallSummary | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verifyProgress, setVerifyProgress] = useState<InstallProgress>({
+    phase: "verify",
+    percent: -1,
+  });
   const [patchingOnline, setPatchingOnline] = useState(false);
   const [patchProgress, setPatchProgress] = useState<InstallProgress>({
     phase: "online-patch",
@@ -79,6 +119,12 @@ export const GameContextProvider = ({
   }, [preReleaseVersions]);
 
   const availableVersions = versionType === "release" ? releaseVersions : preReleaseVersions;
+  const installJobs = queuedJobs.map((job) => ({
+    ...job,
+    progress: jobProgress[job.id],
+  }));
+  // Jobs still waiting keep the install UI up between one finished build and the next start.
+  const installing = installRunning || queuedJobs.length > 0;
   const selectedVersion = selectedIndexByType[versionType] ?? 0;
 
   const setSelectedVersion = useCallback(
@@ -111,19 +157,105 @@ export const GameContextProvider = ({
     setUpdateDismissed(false);
   }, []);
 
+  const setSelectedInstanceId = useCallback((id: string | null) => {
+    setSelectedInstanceIdState(id);
+    if (id) localStorage.setItem("selectedInstance", id);
+    else localStorage.removeItem("selectedInstance");
+  }, []);
+
+  const setInstallLibraryId = useCallback((id: string) => {
+    setInstallLibraryIdState(id);
+    localStorage.setItem("installLibraryId", id);
+  }, []);
+
   const installGame = useCallback(
     (version: GameVersion) => {
       if (!gameDir) return;
 
-      window.ipcRenderer.send("install-game", gameDir, version);
+      const library = libraries.find(
+        (l) => l.id === installLibraryId && !l.isPrimary && l.available
+      );
+      if (library) {
+        window.ipc.send("install-game", gameDir, version, library.id);
+      } else {
+        window.ipc.send("install-game", gameDir, version);
+      }
+    },
+    [gameDir, libraries, installLibraryId]
+  );
+
+  const installFromFiles = useCallback(
+    (request: LocalInstallRequest) => {
+      if (!gameDir) return;
+
+      window.ipc.send("install-local", gameDir, request);
+    },
+    [gameDir]
+  );
+
+  const moveInstallJob = useCallback((jobId: string, toIndex: number) => {
+    void window.ipc.invoke("install-queue:move", jobId, toIndex);
+  }, []);
+
+  const removeInstallJob = useCallback((jobId: string) => {
+    void window.ipc.invoke("install-queue:remove", jobId);
+  }, []);
+
+  const cancelInstall = useCallback(() => {
+    window.ipc.send("install-cancel");
+  }, []);
+
+  const cancelFileCheck = useCallback(() => {
+    window.ipc.send("verify-cancel");
+  }, []);
+
+  const verifyBuild = useCallback(
+    async (version: GameVersion) => {
+      if (!gameDir) return null;
+      setVerifying(true);
+      setVerifyProgress({ phase: "verify", percent: -1 });
+      try {
+        return await window.ipc.invoke(
+          "verify-build",
+          gameDir,
+          version,
+        );
+      } finally {
+        setVerifying(false);
+      }
     },
     [gameDir]
   );
 
+  // Register listeners before sending the launch IPC message to avoid races.
+  const watchLaunch = useCallback(() => {
+    setLaunching(true);
+    window.ipc.once("launched", () => {
+      setLaunching(false);
+      setGameLaunched(true);
+    });
+    window.ipc.once("launch-finished", () => {
+      setLaunching(false);
+      setGameLaunched(false);
+    });
+    window.ipc.once("launch-error", (error?: string) => {
+      setLaunching(false);
+      setGameLaunched(false);
+      if (error) {
+        console.error("Launch error:", error);
+        alert(`Launch failed: ${error}`);
+      } else {
+        alert("Launch failed: Unknown error");
+      }
+    });
+
+    const customUUID = (localStorage.getItem("customUUID") || "").trim();
+    return customUUID.length ? customUUID : null;
+  }, []);
+
   const launchGame = useCallback(
     (version: GameVersion, username: string) => {
       if (!gameDir || !version.installed) return;
-      setLaunching(true);
 
       // Persist last executed version so it becomes the default selection next launch.
       try {
@@ -135,30 +267,111 @@ export const GameContextProvider = ({
         // ignore
       }
 
-      // Register listeners before sending the IPC message to avoid races.
-      window.ipcRenderer.once("launched", () => {
-        setLaunching(false);
-        setGameLaunched(true);
-      });
-      window.ipcRenderer.once("launch-finished", () => {
-        setLaunching(false);
-        setGameLaunched(false);
-      });
-      window.ipcRenderer.once("launch-error", (_, error?: string) => {
-        setLaunching(false);
-        setGameLaunched(false);
-        if (error) {
-          console.error("Launch error:", error);
-          alert(`Launch failed: ${error}`);
+      const uuidArg = watchLaunch();
+      window.ipc.send("launch-game", gameDir, version, username, uuidArg);
+    },
+    [gameDir, watchLaunch]
+  );
+
+  const launchInstance = useCallback(
+    (instance: GameInstance, username: string) => {
+      if (!gameDir) return;
+      const uuidArg = watchLaunch();
+      window.ipc.send("launch-instance", gameDir, instance.id, username, uuidArg);
+    },
+    [gameDir, watchLaunch]
+  );
+
+  // Merges version lists from the main-process catalogue with what is installed on disk.
+  const applyVersionLists = useCallback(
+    async (lists: GameVersionLists) => {
+      if (!gameDir) return;
+      const installed = await window.ipc.invoke(
+        "list-installed-versions",
+        gameDir,
+      );
+
+      const releaseInstalledSet = new Set<number>();
+      const preReleaseInstalledSet = new Set<number>();
+      for (const item of installed) {
+        if (item.type === "release") {
+          releaseInstalledSet.add(item.build_index);
         } else {
-          alert("Launch failed: Unknown error");
+          preReleaseInstalledSet.add(item.build_index);
         }
-      });
+      }
+
+      const isInstalled = (t: VersionType, idx: number) =>
+        t === "release" ? releaseInstalledSet.has(idx) : preReleaseInstalledSet.has(idx);
+
+      const { release: remoteRelease, preRelease: remotePre } = lists;
+
+      // If remote fetch fails, do NOT wipe the list; just refresh installed flags.
+      const releaseBase = remoteRelease.length ? remoteRelease : releaseVersionsRef.current;
+      const preBase = remotePre.length ? remotePre : preReleaseVersionsRef.current;
+
+      const nextRelease = releaseBase.map((v) => ({
+        ...v,
+        installed: isInstalled("release", v.build_index),
+      }));
+      const nextPre = preBase.map((v) => ({
+        ...v,
+        installed: isInstalled("pre-release", v.build_index),
+      }));
+
+      setReleaseVersions(nextRelease);
+      setPreReleaseVersions(nextPre);
+
+      const newestInstalledRelease = nextRelease
+        .filter((v) => v.installed)
+        .reduce<GameVersion | undefined>((best, v) => {
+          if (!best) return v;
+          return v.build_index > best.build_index ? v : best;
+        }, undefined);
+
+      const latestRelease = nextRelease.find((v) => v.isLatest) ?? nextRelease[0];
+      const hasUpdate =
+        !!newestInstalledRelease && !!latestRelease && latestRelease.build_index > newestInstalledRelease.build_index;
+      setUpdateAvailable(hasUpdate);
+
+      // Default selection behavior (priority):
+      // 1) Last used (persisted) per channel
+      // 2) Newest installed for that channel
+      // 3) Latest (newest) available
+      const pickIndex = (
+        list: GameVersion[],
+        t: VersionType,
+        newestInstalled?: GameVersion,
+      ) => {
+        const raw = localStorage.getItem(`selectedVersion:${t}`);
+        const savedBuild = raw ? Number(raw) : NaN;
+        if (Number.isFinite(savedBuild)) {
+          const idx = list.findIndex((v) => v.build_index === savedBuild);
+          if (idx !== -1) return idx;
+        }
+
+        if (newestInstalled) {
+          const idx = list.findIndex((v) => v.build_index === newestInstalled.build_index);
+          if (idx !== -1) return idx;
+        }
+
+        return list.length ? 0 : 0;
+      };
+
+      const newestInstalledPre = nextPre
+        .filter((v) => v.installed)
+        .reduce<GameVersion | undefined>((best, v) => {
+          if (!best) return v;
+          return v.build_index > best.build_index ? v : best;
+        }, undefined);
+
+      const releaseIdx = pickIndex(nextRelease, "release", newestInstalledRelease);
+      const preIdx = pickIndex(nextPre, "pre-release", newestInstalledPre);
 
-      const customUUID = (localStorage.getItem("customUUID") || "").trim();
-      const uuidArg = customUUID.length ? customUUID : null;
+      setSelectedIndexByType((prev) => ({ ...prev, release: releaseIdx, "pre-release": preIdx }));
 
-      window.ipcRenderer.send("launch-game", gameDir, version, username, uuidArg);
+      // If user never picked anything, prefer release tab when available.
+      if (nextRelease.length) setVersionType((prev) => prev || "release");
     },
     [gameDir]
   );
@@ -169,100 +382,44 @@ export const GameContextProvider = ({
       setCheckingUpdates(true);
 
       try {
-        const installed = (await window.ipcRenderer.invoke(
-          "list-installed-versions",
-          gameDir,
-        )) as Array<{ type: VersionType; build_index: number; isLatest?: boolean }>;
-
-        const releaseInstalledSet = new Set<number>();
-        const preReleaseInstalledSet = new Set<number>();
-        for (const item of installed) {
-          if (item.type === "release") {
-            releaseInstalledSet.add(item.build_index);
-          } else {
-            preReleaseInstalledSet.add(item.build_index);
+        // Show the stored catalogue right away; discovery can take a while.
+        if (reason === "startup" && !releaseVersionsRef.current.length) {
+          const catalogue = await window.ipc.invoke(
+            "versions:catalogue"
+          );
+          if (catalogue.release.length || catalogue.preRelease.length) {
+            await applyVersionLists(catalogue);
           }
         }
 
-        const isInstalled = (t: VersionType, idx: number) =>
-          t === "release" ? releaseInstalledSet.has(idx) : preReleaseInstalledSet.has(idx);
-
-        const [remoteRelease, remotePre] = await Promise.all([
-          getGameVersions("release"),
-          getGameVersions("pre-release"),
-        ]);
-
-        // If remote fetch fails, do NOT wipe the list; just refresh installed flags.
-        const releaseBase = remoteRelease.length ? remoteRelease : releaseVersionsRef.current;
-        const preBase = remotePre.length ? remotePre : preReleaseVersionsRef.current;
-
-        const nextRelease = releaseBase.map((v) => ({
-          ...v,
-          installed: isInstalled("release", v.build_index),
-        }));
-        const nextPre = preBase.map((v) => ({
-          ...v,
-          installed: isInstalled("pre-release", v.build_index),
-        }));
-
-        setReleaseVersions(nextRelease);
-        setPreReleaseVersions(nextPre);
-
-        const newestInstalledRelease = nextRelease
-          .filter((v) => v.installed)
-          .reduce<GameVersion | undefined>((best, v) => {
-            if (!best) return v;
-            return v.build_index > best.build_index ? v : best;
-          }, undefined);
-
-        const latestRelease = nextRelease.find((v) => v.isLatest) ?? nextRelease[0];
-        const hasUpdate =
-          !!newestInstalledRelease && !!latestRelease && latestRelease.build_index > newestInstalledRelease.build_index;
-        setUpdateAvailable(hasUpdate);
-
-        // Default selection behavior (priority):
-        // 1) Last used (persisted) per channel
-        // 2) Newest installed for that channel
-        // 3) Latest (newest) available
-        const pickIndex = (
-          list: GameVersion[],
-          t: VersionType,
-          newestInstalled?: GameVersion,
-        ) => {
-          const raw = localStorage.getItem(`selectedVersion:${t}`);
-          const savedBuild = raw ? Number(raw) : NaN;
-          if (Number.isFinite(savedBuild)) {
-            const idx = list.findIndex((v) => v.build_index === savedBuild);
-            if (idx !== -1) return idx;
-          }
-
-          if (newestInstalled) {
-            const idx = list.findIndex((v) => v.build_index === newestInstalled.build_index);
-            if (idx !== -1) return idx;
-          }
-
-          return list.length ? 0 : 0;
-        };
-
-        const newestInstalledPre = nextPre
-          .filter((v) => v.installed)
-          .reduce<GameVersion | undefined>((best, v) => {
-            if (!best) return v;
-            return v.build_index > best.build_index ? v : best;
-          }, undefined);
-
-        const releaseIdx = pickIndex(nextRelease, "release", newestInstalledRelease);
-        const preIdx = pickIndex(nextPre, "pre-release", newestInstalledPre);
-
-        setSelectedIndexByType((prev) => ({ ...prev, release: releaseIdx, "pre-release": preIdx }));
-
-        // If user never picked anything, prefer release tab when available.
-        if (nextRelease.length) setVersionType((prev) => prev || "release");
+        const lists = await window.ipc.invoke("versions:list", {
+          refresh: reason === "manual",
+        });
+        await applyVersionLists(lists);
       } finally {
         setCheckingUpdates(false);
       }
     },
-    [gameDir]
+    [gameDir, applyVersionLists]
+  );
+
+  const repairBuild = useCallback(
+    async (version: GameVersion) => {
+      if (!gameDir) return null;
+      setVerifying(true);
+      setVerifyProgress({ phase: "pwr-download", percent: -1 });
+      try {
+        return await window.ipc.invoke(
+          "repair-build",
+          gameDir,
+          version,
+        );
+      } finally {
+        setVerifying(false);
+        void checkForUpdates("manual");
+      }
+    },
+    [gameDir, checkForUpdates]
   );
 
   useEffect(() => {
@@ -272,7 +429,7 @@ export const GameContextProvider = ({
     let lastUpdateProgress: number;
     const lastProgressRef = { current: null as InstallProgress | null };
 
-    window.ipcRenderer.on("install-progress", (_, progress: InstallProgress) => {
+    window.ipc.on("install-progress", (progress: InstallProgress) => {
       const now = Date.now();
       const last = lastProgressRef.current;
 
@@ -290,45 +447,73 @@ export const GameContextProvider = ({
       lastUpdateProgress = now;
       lastProgressRef.current = progress;
       setInstallProgress(progress);
+      if (progress.jobId) {
+        const jobId = progress.jobId;
+        setJobProgress((prev) => ({ ...prev, [jobId]: progress }));
+      }
+    });
+
+    const applyQueue = (jobs: InstallJobInfo[]) => {
+      setQueuedJobs(jobs);
+      // Forget progress of jobs that left the queue.
+      setJobProgress((prev) => {
+        const next: Record<string, InstallProgress> = {};
+        for (const job of jobs) if (prev[job.id]) next[job.id] = prev[job.id];
+        return next;
+      });
+    };
+    window.ipc.on("install-queue", (jobs: InstallJobInfo[]) => {
+      applyQueue(jobs);
+    });
+    void window.ipc
+      .invoke("install-queue:list")
+      .then((jobs: InstallJobInfo[]) => applyQueue(jobs))
+      .catch(() => {
+        // ignore
+      });
+
+    window.ipc.on("verify-progress", (progress: InstallProgress) => {
+      setVerifyProgress(progress);
     });
 
     // Online client patch (startup) progress
     // Only show patching UI when a download actually starts (progress events).
-    window.ipcRenderer.on(
+    window.ipc.on(
       "online-patch-progress",
-      (_, progress: InstallProgress) => {
+      (progress: InstallProgress) => {
         setPatchingOnline(true);
         setPatchProgress(progress);
       }
     );
-    window.ipcRenderer.on("online-patch-finished", () => {
+    window.ipc.on("online-patch-finished", () => {
       setPatchingOnline(false);
     });
-    window.ipcRenderer.on(
+    window.ipc.on(
       "online-unpatch-progress",
-      (_, progress: InstallProgress) => {
+      (progress: InstallProgress) => {
         setPatchingOnline(true);
         setPatchProgress(progress);
       }
     );
-    window.ipcRenderer.on("online-unpatch-finished", () => {
+    window.ipc.on("online-unpatch-finished", () => {
       setPatchingOnline(false);
     });
-    window.ipcRenderer.on("online-unpatch-error", (_, error: string) => {
+    window.ipc.on("online-unpatch-error", (error: string) => {
       setPatchingOnline(false);
       console.error("Online unpatch error:", error);
       alert(`Disable patch failed: ${error}`);
     });
-    window.ipcRenderer.on("online-patch-error", (_, error: string) => {
+    window.ipc.on("online-patch-error", (error: string) => {
       setPatchingOnline(false);
       console.error("Online patch error:", error);
       alert(`Online patch failed: ${error}`);
     });
-    window.ipcRenderer.on("install-started", () => {
-      setInstalling(true);
+    window.ipc.on("install-started", () => {
+      setInstallRunning(true);
     });
-    window.ipcRenderer.on("install-finished", (_, version) => {
-      setInstalling(false);
+    window.ipc.on("install-finished", (version, delta) => {
+      setInstallRunning(false);
+      setLastDeltaSummary(delta ?? null);
 
       // Immediately reflect install completion in UI (Play should appear right away).
       try {
@@ -383,10 +568,22 @@ export const GameContextProvider = ({
       // Then refresh installed state from filesystem (and remote if available).
       void checkForUpdates("manual");
     });
-    window.ipcRenderer.on("install-error", (_, error) => {
-      setInstalling(false);
-      alert(`Installation failed: ${error}`);
+    window.ipc.on("install-cancelled", () => {
+      setInstallRunning(false);
     });
+    window.ipc.on(
+      "install-error",
+      (error: string, details?: InstallErrorDetails) => {
+        setInstallRunning(false);
+        if (details?.code === "disk-space") {
+          alert(
+            `Not enough disk space (needs ${formatBytes(details.requiredBytes)}, have ${formatBytes(details.availableBytes)})`,
+          );
+          return;
+        }
+        alert(`Installation failed: ${error}`);
+      }
+    );
 
     (async () => {
       const defaultGameDirectory =
@@ -396,6 +593,43 @@ export const GameContextProvider = ({
     })();
   }, []);
 
+  useEffect(() => {
+    // The catalogue changed in the main process (e.g. a refresh started elsewhere).
+    const onVersionsChanged = (lists: GameVersionLists) => {
+      void applyVersionLists(lists);
+    };
+    return window.ipc.on("versions:changed", onVersionsChanged);
+  }, [applyVersionLists]);
+
+  useEffect(() => {
+    // Retention cleanup after an install may have removed builds the list still shows.
+    const onPruned = () => void checkForUpdates("manual");
+    return window.ipc.on("builds-pruned", onPruned);
+  }, [checkForUpdates]);
+
+  useEffect(() => {
+    // The game directory was moved from Settings; everything below re-reads from the new path.
+    return window.ipc.on("game-dir:changed", (path) => setGameDir(path));
+  }, []);
+
+  useEffect(() => {
+    void window.ipc.invoke("instances:list").then(setInstances);
+    return window.ipc.on("instances:changed", setInstances);
+  }, [gameDir]);
+
+  useEffect(() => {
+    void window.ipc.invoke("libraries:list").then(setLibraries);
+    return window.ipc.on("libraries:changed", (list) => {
+      setLibraries(list);
+      // A library was added or removed; its builds appear or disappear.
+      void checkForUpdates("manual");
+    });
+  }, [checkForUpdates]);
+
+  useEffect(() => {
+    clearLegacyVersionStorage();
+  }, []);
+
   useEffect(() => {
     if (!gameDir) return;
     // Fetch list early (during launcher startup), but do not start patching until UI is visible.
@@ -413,6 +647,12 @@ export const GameContextProvider = ({
     <GameContext.Provider
       value={{
         gameDir,
+        libraries,
+        installLibraryId,
+        setInstallLibraryId,
+        instances,
+        selectedInstanceId,
+        setSelectedInstanceId,
         versionType,
         setVersionType,
         availableVersions,
@@ -424,6 +664,15 @@ export const GameContextProvider = ({
         restoreUpdatePrompt,
         installing,
         installProgress,
+        installJobs,
+        moveInstallJob,
+        removeInstallJob,
+        lastDeltaSummary,
+        verifying,
+        verifyProgress,
+        verifyBuild,
+        cancelFileCheck,
+        repairBuild,
         patchingOnline,
         patchProgress,
         pendingOnlinePatch: false,
@@ -431,7 +680,10 @@ export const GameContextProvider = ({
         launching,
         gameLaunched,
         installGame,
+        installFromFiles,
+        cancelInstall,
         launchGame,
+        launchInstance,
         checkForUpdates,
         startPendingOnlinePatch: () => {},
       }}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+
+// Matches the built-in profile in electron/utils/game/modProfiles.ts.
+export const VANILLA_PROFILE_ID = "vanilla";
+
+const EMPTY: ModProfileList = { profiles: [], activeId: null };
+
+// Mod profiles of one UserData location (null = none), kept in sync across windows.
+export const useModProfiles = (locationId: string | null) => {
+  const [list, setList] = useState<ModProfileList>(EMPTY);
+
+  useEffect(() => {
+    if (!locationId) {
+      setList(EMPTY);
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      const next = await window.ipc.invoke("mod-profiles:list", locationId);
+      if (!cancelled) setList(next);
+    };
+    void load();
+    const off = window.ipc.on("mod-profiles:changed", (changed) => {
+      if (changed === locationId) void load();
+    });
+    return () => {
+      cancelled = true;
+      off();
+    };
+  }, [locationId]);
+
+  return list;
+};
@@ -16,6 +16,9 @@ type GameVersion = {
   patch_hash?: string;
   original_url?: string;
   patch_note?: string;
+  // Integrity data for the full PWR, when the versions feed publishes it.
+  pwr_size?: number;
+  pwr_sha256?: string;
   installed?: boolean;
 };
 
@@ -25,6 +28,8 @@ type VersionDetails = {
   original?: string;
   hash?: string;
   patch_note?: string;
+  pwr_size?: number;
+  pwr_sha256?: string;
 };
 
 type VersionDetailsRoot = {
@@ -35,9 +40,147 @@ type VersionDetailsRoot = {
   pre_releases: Record<string, VersionDetails>;
 };
 
+// Result of "versions:list"; both channels, newest first.
+type GameVersionLists = {
+  release: GameVersion[];
+  preRelease: GameVersion[];
+};
+
+// Main-process store behind "versions:catalogue"; survives renderer storage being cleared.
+type VersionCatalogue = GameVersionLists & {
+  details: VersionDetailsRoot | null;
+  updatedAt: string | null;
+};
+
+type NewsItem = {
+  title: string;
+  content: string;
+  url?: string;
+  date?: string;
+};
+
+type NewsFeed = {
+  version: number;
+  items: NewsItem[];
+};
+
 type InstallProgress = {
   phase: string;
   percent: number;
   total?: number;
   current?: number;
+  jobId?: string;
+};
+
+type DeltaInstallSummary = {
+  from: number;
+  to: number;
+  deltaBytes: number;
+  fullBytes?: number;
+  savedBytes?: number;
+};
+
+type InstallJobInfo = {
+  id: string;
+  version: GameVersion;
+  status: "pending" | "running";
+  queuedAt: number;
+};
+
+type BuildVerifyResult = {
+  status: "ok" | "damaged" | "error";
+  issues: string[];
+  error?: string;
+};
+
+type BuildRepairResult = {
+  ok: boolean;
+  repaired: string[];
+  error?: string;
+};
+
+type InstalledBuildEntry = {
+  type: VersionType;
+  build_index: number;
+  build_name?: string;
+  isLatest?: boolean;
+  libraryId?: string;
+  sizeBytes: number;
+};
+
+type StorageUsage = {
+  builds: InstalledBuildEntry[];
+  jreBytes: number;
+  userDataBytes: number;
+  tempBytes: number;
+  // Both live inside build folders, so they are already counted in `builds`.
+  stagingBytes: number;
+  onlinePatchBytes: number;
+  totalBytes: number;
+};
+
+type RetentionPolicy = {
+  enabled: boolean;
+  keepReleases: number;
+  keepPreReleases: number;
+};
+
+type PwrCacheSettings = {
+  enabled: boolean;
+  maxSizeGB: number;
+};
+
+type PwrCacheStatus = {
+  settings: PwrCacheSettings;
+  entries: number;
+  sizeBytes: number;
+};
+
+// Second argument of "install-error"; lets the UI render known failures properly.
+type InstallErrorDetails =
+  | { code: "disk-space"; requiredBytes: number; availableBytes: number }
+  | {
+      code: "butler";
+      command: string;
+      exitCode: number | null;
+      butlerErrors: string[];
+    }
+  | { code: "unknown" };
+
+// Offline install: files picked on disk instead of downloaded.
+type LocalInstallRequest = {
+  pwrPath: string;
+  type: VersionType;
+  build_index: number;
+  build_name?: string;
+  jrePath?: string;
+  butlerPath?: string;
+};
+
+// bundle.json at the root of an exported offline bundle.
+type BundleInfo = {
+  format: number;
+  platform: string;
+  build: { type: VersionType; build_index: number; build_name?: string };
+  includes: { jre: boolean; userData: boolean };
+  file_count: number;
+  created_at: string;
+};
+
+// butterpack.json at the root of an exported modpack.
+type ModpackInfo = {
+  format: number;
+  name: string;
+  // The build the pack was made for; null when it wasn't tied to one.
+  build: { type: VersionType; build_index: number; build_name?: string } | null;
+  mods: {
+    fileName: string;
+    sha256: string;
+    bytes: number;
+    name?: string;
+    version?: string;
+  }[];
+  // Top-level UserData entries under config/ in the archive.
+  config: string[];
+  created_at: string;
 };